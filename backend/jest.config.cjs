@@ -2,6 +2,7 @@ module.exports = {
     preset: 'ts-jest/presets/default-esm',
     testEnvironment: 'node',
     testMatch: ['**/*.test.ts'],
+    setupFiles: ['<rootDir>/src/tests/setupEnv.ts'],
     extensionsToTreatAsEsm: ['.ts'],
     transform: {
         '^.+\\.ts$': ['ts-jest', {
@@ -0,0 +1,197 @@
+import express from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { db } from '../db/client.js';
+import { moderator } from '../services/Moderator.js';
+import { patternProblem } from '../utils/moderationRules.js';
+
+const router = express.Router();
+
+const ruleSchema = z.object({
+    kind: z.enum(['exact', 'regex', 'fuzzy']),
+    pattern: z.string().min(1).max(200),
+    appliesTo: z.enum(['name', 'ticker', 'both']).default('both'),
+    category: z.string().max(32).nullable().optional(),
+    note: z.string().max(500).nullable().optional(),
+});
+
+const ruleUpdateSchema = ruleSchema.partial().extend({ enabled: z.boolean().optional() });
+
+const optOutSchema = z.object({
+    username: z.string().max(64).nullable().optional(),
+    reason: z.string().max(500).nullable().optional(),
+});
+
+/**
+ * Constant-time comparison of the bearer token
+ */
+function tokenMatches(header: string | undefined): boolean {
+    const provided = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!config.ADMIN_API_TOKEN || !provided) return false;
+    const expected = Buffer.from(config.ADMIN_API_TOKEN);
+    const actual = Buffer.from(provided);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+router.use((req, res, next) => {
+    if (!config.ADMIN_API_TOKEN) {
+        return res.status(404).json({ error: 'Admin API disabled' });
+    }
+    if (!tokenMatches(req.get('authorization'))) {
+        return res.status(401).json({ error: 'Invalid admin token' });
+    }
+    next();
+});
+
+/**
+ * GET /api/admin/moderation/rules
+ * List every moderation rule, enabled or not
+ */
+router.get('/moderation/rules', async (req, res) => {
+    try {
+        return res.json({ rules: await db.getModerationRules() });
+    } catch (error) {
+        console.error('Moderation rule list error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * POST /api/admin/moderation/rules
+ * Add a rule: { kind: exact|regex|fuzzy, pattern, appliesTo?: name|ticker|both, category?, note? }
+ */
+router.post('/moderation/rules', async (req, res) => {
+    try {
+        const parsed = ruleSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid rule', issues: parsed.error.issues });
+        }
+        const problem = patternProblem(parsed.data.kind, parsed.data.pattern);
+        if (problem) {
+            return res.status(400).json({ error: `Invalid pattern: ${problem}` });
+        }
+
+        const rule = await db.createModerationRule(parsed.data);
+        moderator.invalidate();
+        console.log(`🛡️ Moderation rule #${rule.id} added: ${rule.kind} "${rule.pattern}"`);
+        return res.status(201).json({ rule });
+    } catch (error) {
+        console.error('Moderation rule create error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * PATCH /api/admin/moderation/rules/:id
+ * Change any rule field, or disable it with { enabled: false }
+ */
+router.patch('/moderation/rules/:id', async (req, res) => {
+    try {
+        const id = Number(req.params.id);
+        const parsed = ruleUpdateSchema.safeParse(req.body);
+        if (!Number.isInteger(id) || !parsed.success) {
+            return res.status(400).json({ error: 'Invalid rule update' });
+        }
+
+        const existing = (await db.getModerationRules()).find((rule) => rule.id === id);
+        if (!existing) {
+            return res.status(404).json({ error: 'Rule not found' });
+        }
+        const problem = patternProblem(parsed.data.kind ?? existing.kind, parsed.data.pattern ?? existing.pattern);
+        if (problem) {
+            return res.status(400).json({ error: `Invalid pattern: ${problem}` });
+        }
+
+        const rule = await db.updateModerationRule(id, parsed.data);
+        moderator.invalidate();
+        console.log(`🛡️ Moderation rule #${id} updated`);
+        return res.json({ rule });
+    } catch (error) {
+        console.error('Moderation rule update error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * DELETE /api/admin/moderation/rules/:id
+ * Rejected deployments keep the rule's ID and description
+ */
+router.delete('/moderation/rules/:id', async (req, res) => {
+    try {
+        if (!(await db.deleteModerationRule(Number(req.params.id)))) {
+            return res.status(404).json({ error: 'Rule not found' });
+        }
+        moderator.invalidate();
+        console.log(`🛡️ Moderation rule #${req.params.id} deleted`);
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Moderation rule delete error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * GET /api/admin/moderation/opt-outs
+ * Accounts whose tweets can't be used to launch tokens
+ */
+router.get('/moderation/opt-outs', async (req, res) => {
+    try {
+        return res.json({ optOuts: await db.getOptOuts() });
+    } catch (error) {
+        console.error('Opt-out list error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * PUT /api/admin/moderation/opt-outs/:twitterId
+ * Opt an account out: { username?, reason? }
+ */
+router.put('/moderation/opt-outs/:twitterId', async (req, res) => {
+    try {
+        const { twitterId } = req.params;
+        const parsed = optOutSchema.safeParse(req.body ?? {});
+        if (!/^\d+$/.test(twitterId) || !parsed.success) {
+            return res.status(400).json({ error: 'Invalid opt-out' });
+        }
+
+        const optOut = await db.upsertOptOut(twitterId, parsed.data.username ?? null, parsed.data.reason ?? null);
+        console.log(`🛡️ Account ${twitterId} opted out`);
+        return res.json({ optOut });
+    } catch (error) {
+        console.error('Opt-out error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * DELETE /api/admin/moderation/opt-outs/:twitterId
+ */
+router.delete('/moderation/opt-outs/:twitterId', async (req, res) => {
+    try {
+        if (!(await db.deleteOptOut(req.params.twitterId))) {
+            return res.status(404).json({ error: 'Opt-out not found' });
+        }
+        console.log(`🛡️ Account ${req.params.twitterId} opted back in`);
+        return res.status(204).end();
+    } catch (error) {
+        console.error('Opt-out delete error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * GET /api/admin/events/dead-letters
+ * Mentions and DMs the bots stopped retrying after EVENT_MAX_ATTEMPTS failures
+ */
+router.get('/events/dead-letters', async (req, res) => {
+    try {
+        return res.json({ events: await db.getDeadLetteredEvents(100) });
+    } catch (error) {
+        console.error('Dead letter list error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export { router as adminRouter };
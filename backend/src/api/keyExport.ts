@@ -0,0 +1,100 @@
+import express from 'express';
+import { db } from '../db/client.js';
+import { walletService } from '../services/WalletService.js';
+import { EXPORT_TOKEN_PATTERN, hashExportToken } from '../utils/keyExport.js';
+
+const router = express.Router();
+
+// Nothing on these pages may be cached, indexed, framed or leaked through a referrer
+router.use((req, res, next) => {
+    res.set({
+        'Cache-Control': 'no-store',
+        'Pragma': 'no-cache',
+        'X-Robots-Tag': 'noindex, nofollow',
+        'Referrer-Policy': 'no-referrer',
+        'X-Frame-Options': 'DENY',
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'; frame-ancestors 'none'",
+    });
+    next();
+});
+
+function page(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 36rem; margin: 3rem auto; padding: 0 1rem; line-height: 1.5; }
+code { display: block; padding: 1rem; background: #f3f3f3; word-break: break-all; user-select: all; }
+button { font-size: 1rem; padding: 0.6rem 1.2rem; }
+.warning { color: #b00020; font-weight: bold; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+const GONE = page('Link expired', `<h1>This link no longer works</h1>
+<p>Key export links open once and expire after a few minutes. DM the bot 'export' to request a new one.</p>`);
+
+/**
+ * GET /api/export/:token
+ * Ask before revealing anything. Link previews fetch with GET, so opening
+ * the link here doesn't use it up; only the button below does.
+ */
+router.get('/:token', (req, res) => {
+    if (!EXPORT_TOKEN_PATTERN.test(req.params.token)) {
+        return res.status(404).type('html').send(GONE);
+    }
+    return res.type('html').send(page('Export private key', `<h1>Export private key</h1>
+<p class="warning">Anyone who sees your private key can take everything in your wallet. Make sure nobody can see your screen.</p>
+<p>The key is shown once. After you leave the next page, this link stops working.</p>
+<form method="post">
+<button type="submit">Show my private key</button>
+</form>`));
+});
+
+/**
+ * POST /api/export/:token
+ * Use up the link and show the key, once
+ */
+router.post('/:token', async (req, res) => {
+    try {
+        if (!EXPORT_TOKEN_PATTERN.test(req.params.token)) {
+            return res.status(404).type('html').send(GONE);
+        }
+
+        const keyExport = await db.consumeKeyExport(hashExportToken(req.params.token), {
+            ip: req.ip,
+            userAgent: req.get('user-agent')?.substring(0, 500),
+        });
+        if (!keyExport) {
+            return res.status(410).type('html').send(GONE);
+        }
+
+        // The wallet may have been replaced by a linked one since the link was sent
+        const user = await db.getUserByTwitterId(keyExport.twitter_id);
+        if (!user?.private_key_encrypted || user.wallet_address.toLowerCase() !== keyExport.wallet_address.toLowerCase()) {
+            return res.status(410).type('html').send(GONE);
+        }
+
+        const privateKey = walletService.decrypt(user.private_key_encrypted);
+        console.log(`🔑 Key export #${keyExport.id} viewed by ${keyExport.twitter_id}`);
+
+        return res.type('html').send(page('Your private key', `<h1>Your private key</h1>
+<p>Wallet: ${user.wallet_address}</p>
+<code>${privateKey}</code>
+<p class="warning">Never share this key. Import it only into a wallet app you installed yourself, such as MetaMask (Import account → Private key).</p>
+<p>This page won't be shown again. Close it once the wallet is imported.</p>`));
+    } catch (error) {
+        console.error('Key export error:', error);
+        return res.status(500).type('html').send(page('Error', '<h1>Something went wrong</h1><p>Please try again later.</p>'));
+    }
+});
+
+export { router as keyExportRouter };
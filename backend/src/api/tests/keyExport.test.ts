@@ -0,0 +1,91 @@
+import express from 'express';
+import { keyExportRouter } from '../keyExport.js';
+import { db } from '../../db/client.js';
+import { walletService } from '../../services/WalletService.js';
+import { hashExportToken, newExportToken } from '../../utils/keyExport.js';
+import { serve, type TestServer } from '../../tests/http.js';
+
+const USER_ID = '555000444';
+const MINUTE = 60 * 1000;
+
+describe('key export routes', () => {
+    let server: TestServer;
+    let wallet: { address: string; privateKey: string };
+
+    // A link for the user's wallet that expires after `ttlMs`
+    const issueLink = async (ttlMs = 10 * MINUTE): Promise<string> => {
+        const token = newExportToken();
+        await db.createKeyExport({
+            botId: 'default',
+            twitterId: USER_ID,
+            walletAddress: wallet.address,
+            tokenHash: hashExportToken(token),
+            requestedAt: new Date(),
+            expiresAt: new Date(Date.now() + ttlMs),
+        });
+        return `${server.url}/api/export/${token}`;
+    };
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        wallet = walletService.createWallet();
+        await db.upsertUser(USER_ID, wallet.address, walletService.encrypt(wallet.privateKey));
+
+        const app = express();
+        app.use('/api/export', keyExportRouter);
+        server = await serve(app);
+    });
+
+    afterAll(async () => {
+        await server.close();
+        jest.restoreAllMocks();
+    });
+
+    it('should ask before showing the key, without using up the link', async () => {
+        const link = await issueLink();
+
+        const preview = await fetch(link);
+        expect(preview.status).toBe(200);
+        const page = await preview.text();
+        expect(page).toContain('Show my private key');
+        expect(page).not.toContain(wallet.privateKey);
+
+        // A second look (e.g. a link preview, then the user) still works
+        expect((await fetch(link)).status).toBe(200);
+        const reveal = await fetch(link, { method: 'POST' });
+        expect(reveal.status).toBe(200);
+        expect(await reveal.text()).toContain(wallet.privateKey);
+    });
+
+    it('should show the key once', async () => {
+        const link = await issueLink();
+
+        expect((await fetch(link, { method: 'POST' })).status).toBe(200);
+
+        const reused = await fetch(link, { method: 'POST' });
+        expect(reused.status).toBe(410);
+        expect(await reused.text()).not.toContain(wallet.privateKey);
+    });
+
+    it('should refuse expired and unknown links', async () => {
+        const expired = await fetch(await issueLink(-MINUTE), { method: 'POST' });
+        expect(expired.status).toBe(410);
+        expect(await expired.text()).not.toContain(wallet.privateKey);
+
+        const unknown = await fetch(`${server.url}/api/export/${newExportToken()}`, { method: 'POST' });
+        expect(unknown.status).toBe(410);
+
+        const malformed = await fetch(`${server.url}/api/export/not-a-token`, { method: 'POST' });
+        expect(malformed.status).toBe(404);
+    });
+
+    it('should forbid caching, indexing and framing of every page', async () => {
+        const link = await issueLink();
+        for (const response of [await fetch(link), await fetch(link, { method: 'POST' }), await fetch(link, { method: 'POST' })]) {
+            expect(response.headers.get('cache-control')).toBe('no-store');
+            expect(response.headers.get('x-robots-tag')).toBe('noindex, nofollow');
+            expect(response.headers.get('referrer-policy')).toBe('no-referrer');
+            expect(response.headers.get('x-frame-options')).toBe('DENY');
+        }
+    });
+});
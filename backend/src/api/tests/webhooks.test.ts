@@ -0,0 +1,103 @@
+import express from 'express';
+import type { webhookRouter as webhookRouterType } from '../webhooks.js';
+import type { TwitterApiIoWebhookSource as TwitterApiIoWebhookSourceClass } from '../../ingestion/TwitterApiIoWebhookSource.js';
+import type { IngestionSink } from '../../ingestion/IngestionSource.js';
+import type { TwitterApiIoTweet } from '../../services/TwitterApiIoClient.js';
+import { serve, type TestServer } from '../../tests/http.js';
+
+// Only this file turns webhooks on; the router is imported after the secret is set
+const SECRET = 'webhook-secret-0123456789';
+Object.assign(process.env, { TWITTERAPI_IO_WEBHOOK_SECRET: SECRET });
+
+const tweet = (id: string, text: string): TwitterApiIoTweet => ({
+    id,
+    text,
+    author: { id: '42', userName: 'alice', name: 'Alice' },
+    createdAt: new Date().toISOString(),
+});
+
+describe('webhook routes', () => {
+    let TwitterApiIoWebhookSource: typeof TwitterApiIoWebhookSourceClass;
+    let server: TestServer;
+
+    // A sink whose mentions only finish when the test says so
+    const pendingSink = () => {
+        let finish = () => { };
+        const finished = new Promise<void>((resolve) => { finish = resolve; });
+        const sink = {
+            onMention: jest.fn(async () => { await finished; return true; }),
+            onDirectMessage: jest.fn(async () => true),
+        };
+        return { sink: sink as IngestionSink & typeof sink, finish };
+    };
+
+    const deliver = (tweets: TwitterApiIoTweet[], secret: string | null = SECRET) => fetch(`${server.url}/webhooks/twitterapiio`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...(secret === null ? {} : { 'x-api-key': secret }) },
+        body: JSON.stringify({ event_type: 'tweet', tweets }),
+    });
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        let webhookRouter: typeof webhookRouterType;
+        ({ webhookRouter } = await import('../webhooks.js'));
+        ({ TwitterApiIoWebhookSource } = await import('../../ingestion/TwitterApiIoWebhookSource.js'));
+
+        const app = express();
+        app.use(express.json());
+        app.use('/webhooks', webhookRouter);
+        server = await serve(app);
+    });
+
+    afterAll(async () => {
+        await server.close();
+        jest.restoreAllMocks();
+    });
+
+    it('should refuse a missing or wrong secret', async () => {
+        const source = new TwitterApiIoWebhookSource('mybot');
+        const { sink } = pendingSink();
+        await source.start(sink);
+
+        try {
+            expect((await deliver([tweet('1', '@mybot deploy $FROG')], null)).status).toBe(401);
+            expect((await deliver([tweet('1', '@mybot deploy $FROG')], 'webhook-secret-9876543210')).status).toBe(401);
+            expect(sink.onMention).not.toHaveBeenCalled();
+        } finally {
+            await source.stop();
+        }
+    });
+
+    it('should answer 503 while no bot is taking webhooks', async () => {
+        const res = await deliver([tweet('1', '@mybot deploy $FROG')]);
+        expect(res.status).toBe(503);
+    });
+
+    it('should acknowledge before the mentions are handled and send each bot only its own', async () => {
+        const mine = new TwitterApiIoWebhookSource('mybot');
+        const other = new TwitterApiIoWebhookSource('otherbot');
+        const mineSink = pendingSink();
+        const otherSink = pendingSink();
+        await mine.start(mineSink.sink);
+        await other.start(otherSink.sink);
+
+        try {
+            const res = await deliver([
+                tweet('1', '@otherbot deploy $FROG'),
+                tweet('2', 'gm, no mentions here'),
+            ]);
+
+            // The pipeline is still busy with the mention, but the sender already has its answer
+            expect(res.status).toBe(200);
+            expect(await res.json()).toEqual({ received: 2 });
+            expect(otherSink.sink.onMention).toHaveBeenCalledTimes(1);
+            expect(otherSink.sink.onMention).toHaveBeenCalledWith(expect.objectContaining({ tweet_id: '1' }), other);
+            expect(mineSink.sink.onMention).not.toHaveBeenCalled();
+        } finally {
+            otherSink.finish();
+            mineSink.finish();
+            await mine.stop();
+            await other.stop();
+        }
+    });
+});
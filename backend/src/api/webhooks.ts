@@ -0,0 +1,57 @@
+import express from 'express';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { twitterApiIoWebhooks } from '../ingestion/TwitterApiIoWebhookSource.js';
+import type { TwitterApiIoTweet } from '../services/TwitterApiIoClient.js';
+
+const router = express.Router();
+
+interface TwitterApiIoWebhookPayload {
+    event_type?: string;
+    rule_id?: string;
+    rule_tag?: string;
+    tweets?: TwitterApiIoTweet[];
+    timestamp?: number;
+}
+
+/**
+ * Constant-time comparison of the shared secret
+ */
+function secretMatches(provided: string | undefined): boolean {
+    if (!config.TWITTERAPI_IO_WEBHOOK_SECRET || !provided) return false;
+    const expected = Buffer.from(config.TWITTERAPI_IO_WEBHOOK_SECRET);
+    const actual = Buffer.from(provided);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * POST /webhooks/twitterapiio
+ * Receive tweet events for monitored users from twitterapi.io
+ */
+router.post('/twitterapiio', async (req, res) => {
+    const provided = req.get('x-api-key') || req.get('x-webhook-secret');
+    if (!secretMatches(provided)) {
+        return res.status(401).json({ error: 'Invalid webhook secret' });
+    }
+
+    if (!twitterApiIoWebhooks.isAccepting()) {
+        return res.status(503).json({ error: 'Webhook ingestion not running' });
+    }
+
+    const payload = req.body as TwitterApiIoWebhookPayload;
+    const tweets = Array.isArray(payload?.tweets) ? payload.tweets : [];
+
+    // Acknowledge right away; anything that fails here is picked up by polling
+    res.json({ received: tweets.length });
+
+    if (!tweets.length) return;
+
+    try {
+        const forwarded = await twitterApiIoWebhooks.receive(tweets);
+        console.log(`🪝 Webhook delivered ${tweets.length} tweet(s), ${forwarded} mention(s)`);
+    } catch (error) {
+        console.error('Webhook processing error:', error);
+    }
+});
+
+export { router as webhookRouter };
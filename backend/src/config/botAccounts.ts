@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+
+/**
+ * Bot account file (BOT_ACCOUNTS_FILE) - one entry per branded bot
+ * Each account brings its own X identity, posting credentials, reply
+ * templates and chain. String values may reference environment variables
+ * as `${NAME}` so secrets don't have to live in the file.
+ */
+const chainSchema = z.object({
+    name: z.string().default('BNB Smart Chain'),
+    chainId: z.coerce.number().int().positive().default(56),
+    rpcUrl: z.string().url(),
+    nativeSymbol: z.string().default('BNB'),
+    explorerUrl: z.string().url().default('https://bscscan.com'),
+    deployFeeWei: z.coerce.bigint().optional(), // Falls back to DEPLOY_FEE_WEI
+});
+
+const botAccountSchema = z.object({
+    id: z.string().regex(/^[a-z0-9_-]{1,32}$/, 'Bot id must be lowercase letters, digits, _ or -'),
+    username: z.string().min(1),
+    userId: z.string().optional(), // Bot's Twitter ID for DM logic
+    twitterApiIo: z.object({
+        apiKey: z.string().optional(), // Falls back to TWITTERAPI_IO_KEY
+        loginUsername: z.string().optional(),
+        loginEmail: z.string().optional(),
+        loginPassword: z.string().optional(),
+        totpSecret: z.string().optional(),
+        proxy: z.string().optional(),
+    }).default({}),
+    x: z.object({
+        apiKey: z.string().optional(),
+        apiSecret: z.string().optional(),
+        accessToken: z.string().optional(),
+        accessSecret: z.string().optional(),
+        bearerToken: z.string().optional(),
+    }).default({}),
+    chain: chainSchema,
+    // Overrides for the reply templates in ReplyPublisher
+    replies: z.object({
+        success: z.string().optional(),
+        walletRequired: z.string().optional(),
+        failure: z.string().optional(),
+        correction: z.string().optional(),
+        collision: z.string().optional(),
+    }).default({}),
+});
+
+export type ChainSettings = z.infer<typeof chainSchema>;
+export type BotAccountSettings = z.infer<typeof botAccountSchema>;
+
+/**
+ * Replace `${NAME}` in every string with the matching environment variable
+ */
+export function expandEnv(value: unknown, env: Record<string, string | undefined>): unknown {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+            const resolved = env[name];
+            if (resolved === undefined) {
+                throw new Error(`Bot accounts reference unset environment variable ${name}`);
+            }
+            return resolved;
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => expandEnv(item, env));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandEnv(item, env)]));
+    }
+    return value;
+}
+
+/**
+ * Validate a raw list of bot accounts
+ * Ids and usernames must be unique; usernames compare case-insensitively.
+ */
+export function parseBotAccounts(raw: unknown, env: Record<string, string | undefined> = {}): BotAccountSettings[] {
+    const accounts = z.array(botAccountSchema).min(1, 'At least one bot account is required').parse(expandEnv(raw, env));
+
+    for (const key of ['id', 'username'] as const) {
+        const seen = new Set<string>();
+        for (const account of accounts) {
+            const value = account[key].toLowerCase();
+            if (seen.has(value)) {
+                throw new Error(`Duplicate bot account ${key}: ${account[key]}`);
+            }
+            seen.add(value);
+        }
+    }
+    return accounts;
+}
+
+/**
+ * Load bot accounts from a .json, .yaml or .yml file
+ */
+export function loadBotAccounts(filePath: string, env: Record<string, string | undefined>): BotAccountSettings[] {
+    const contents = fs.readFileSync(filePath, 'utf8');
+    const ext = path.extname(filePath).toLowerCase();
+    const raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(contents) : JSON.parse(contents);
+    return parseBotAccounts(raw, env);
+}
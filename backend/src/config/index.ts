@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { FEE_RECIPIENT_RULES } from '../services/FeeRecipientPolicy.js';
+import { COLLISION_ACTIONS, DEFAULT_COLLISION_ACTIONS } from '../services/CollisionPolicy.js';
+import { DEFAULT_TOKEN_TEXT_POLICY } from '../services/CommandParser.js';
+import { isKnownScript } from '../utils/confusables.js';
 import 'dotenv/config';
 
 const envSchema = z.object({
@@ -12,15 +16,76 @@ const envSchema = z.object({
     X_ACCESS_TOKEN: z.string().optional(),
     X_ACCESS_SECRET: z.string().optional(),
     X_BOT_USERNAME: z.string().min(1).default('mybot'),
+    BOT_ACCOUNTS_FILE: z.string().optional(), // JSON/YAML list of bot accounts; unset runs one bot from the X_*/TWITTER_* vars
 
     // Dev flags
     MOCK_X_API: z.string().transform(val => val === 'true').default('false'),
     MOCK_QUEUE: z.string().transform(val => val === 'true').default('false'),
     MOCK_DB: z.string().transform(val => val === 'true').default('false'),
     MOCK_CHAIN: z.string().transform(val => val === 'true').default('false'),
+    MOCK_SCENARIO: z.string().optional(), // Scenario file for the mock X simulator (JSON or YAML)
+
+    // Ingestion sources to run, comma separated: mock, twitterapiio, webhook, stream
+    // Unset picks by priority (mock > twitterapiio, plus webhook if a secret is set > stream)
+    INGESTION_SOURCES: z.string().optional()
+        .transform(val => val ? val.split(',').map(s => s.trim()).filter(Boolean) : undefined)
+        .pipe(z.array(z.enum(['mock', 'twitterapiio', 'webhook', 'stream'])).optional()),
+
+    // Fee recipient rules in priority order: override, parent, thread_root, quoted, self
+    FEE_RECIPIENT_RULES: z.string().default('override,parent,self')
+        .transform(val => val.split(',').map(s => s.trim()).filter(Boolean))
+        .pipe(z.array(z.enum(FEE_RECIPIENT_RULES)).min(1)),
+
+    // What to do when a deploy repeats an earlier one: block, warn or allow
+    COLLISION_SAME_TICKER: z.enum(COLLISION_ACTIONS).default(DEFAULT_COLLISION_ACTIONS.ticker),
+    COLLISION_SAME_PARENT: z.enum(COLLISION_ACTIONS).default(DEFAULT_COLLISION_ACTIONS.parent), // Fee recipient's tweet already has a token
+    COLLISION_SAME_NAME: z.enum(COLLISION_ACTIONS).default(DEFAULT_COLLISION_ACTIONS.name),
+    COLLISION_WINDOW_MINUTES: z.coerce.number().int().positive().default(24 * 60), // Ticker and name rules only
+
+    // DM conversations: how long the deploy wizard waits for the next answer
+    DM_WIZARD_TTL_MINUTES: z.coerce.number().int().positive().default(30),
+    WITHDRAW_CODE_TTL_MINUTES: z.coerce.number().int().positive().default(10), // How long a withdrawal code stays valid
+    EXPORT_COOLDOWN_SECONDS: z.coerce.number().int().nonnegative().default(60), // Wait between the key export warning and the phrase
+    EXPORT_LINK_TTL_MINUTES: z.coerce.number().int().positive().default(10), // How long an unopened key export link works
+    EXPORT_MAX_PER_DAY: z.coerce.number().int().positive().default(2), // Key export links per user in 24 hours
 
     // Third-party Twitter API
     TWITTERAPI_IO_KEY: z.string().optional(),
+    TWITTERAPI_IO_WEBHOOK_SECRET: z.string().min(16).optional(), // Enables POST /webhooks/twitterapiio
+    TWITTERAPI_IO_MAX_PAGES: z.coerce.number().int().positive().default(5), // Catch-up page budget per poll
+
+    // twitterapi.io polling schedule and quota (shared by mention and DM loops)
+    MENTION_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(12000),
+    DM_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
+    DM_POLLING_ENABLED: z.string().transform(val => val === 'true').default('true'),
+    TWITTERAPI_IO_MIN_REQUEST_INTERVAL_MS: z.coerce.number().int().nonnegative().default(5000), // Free tier: 1 req/5sec
+    MENTION_DAILY_REQUEST_BUDGET: z.coerce.number().int().positive().default(7200),
+    DM_DAILY_REQUEST_BUDGET: z.coerce.number().int().positive().default(1440),
+    QUOTA_LOW_WATERMARK: z.coerce.number().min(0).max(1).default(0.2), // Slow down below 20% remaining
+    EVENT_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5), // Failed tries at a mention or DM before it's dead-lettered
+    EVENT_CLAIM_TIMEOUT_MS: z.coerce.number().int().positive().default(600000), // An unfinished claim older than this can be taken over
+
+    // Filtered stream supervisor
+    STREAM_RECONNECT_BASE_MS: z.coerce.number().int().positive().default(1000),
+    STREAM_RECONNECT_MAX_MS: z.coerce.number().int().positive().default(300000),
+    STREAM_FAILOVER_AFTER: z.coerce.number().int().positive().default(5), // Failed reconnects before polling takes over
+
+    // Unicode scripts allowed in token names and tickers, comma separated (e.g. Latin,Han,Hangul)
+    TOKEN_NAME_SCRIPTS: z.string().default(DEFAULT_TOKEN_TEXT_POLICY.nameScripts.join(','))
+        .transform(val => val.split(',').map(s => s.trim()).filter(Boolean))
+        .pipe(z.array(z.string().refine(isKnownScript, 'Unknown Unicode script')).min(1)),
+    TOKEN_TICKER_SCRIPTS: z.string().default(DEFAULT_TOKEN_TEXT_POLICY.tickerScripts.join(','))
+        .transform(val => val.split(',').map(s => s.trim()).filter(Boolean))
+        .pipe(z.array(z.string().refine(isKnownScript, 'Unknown Unicode script')).min(1)),
+    // Tickers nobody may deploy or imitate with look-alike characters
+    PROTECTED_TICKERS: z.string().default(DEFAULT_TOKEN_TEXT_POLICY.protectedTickers.join(','))
+        .transform(val => val.split(',').map(s => s.trim().toUpperCase()).filter(Boolean)),
+
+    // Token images taken from tweet media (an explicit `image:` field always wins)
+    TOKEN_IMAGE_FROM_PARENT: z.string().transform(val => val === 'true').default('false'), // Also try the tweet being replied to
+    TOKEN_IMAGE_MAX_BYTES: z.coerce.number().int().positive().default(5 * 1024 * 1024),
+    TOKEN_IMAGE_MIN_PX: z.coerce.number().int().positive().default(100),
+    TOKEN_IMAGE_MAX_PX: z.coerce.number().int().positive().default(4096),
 
     // TwitterAPI.io Login Credentials (for posting)
     TWITTER_LOGIN_USERNAME: z.string().optional(),
@@ -32,6 +97,7 @@ const envSchema = z.object({
 
     // Security
     ENCRYPTION_KEY: z.string().length(64, 'Encryption key must be 64 hex characters (32 bytes)'),
+    ADMIN_API_TOKEN: z.string().min(16).optional(), // Bearer token for /api/admin; unset disables it
 
     // Database
     DATABASE_URL: z.string().url(),
@@ -56,6 +122,8 @@ const envSchema = z.object({
 
     // Server
     PORT: z.coerce.number().default(3000),
+    PUBLIC_BASE_URL: z.string().url().optional(), // Where users reach this server, for links sent by DM; enables key export
+    SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().positive().default(60000), // Max wait per shutdown step
     NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
 });
 
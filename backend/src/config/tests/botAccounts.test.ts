@@ -0,0 +1,38 @@
+import { expandEnv, parseBotAccounts } from '../botAccounts.js';
+
+describe('botAccounts', () => {
+    const account = (overrides: Record<string, unknown> = {}) => ({
+        id: 'bnb',
+        username: 'bnb_deployer',
+        chain: { rpcUrl: 'https://bsc-dataseed.binance.org' },
+        ...overrides,
+    });
+
+    it('should fill chain defaults', () => {
+        const [parsed] = parseBotAccounts([account()]);
+        expect(parsed.chain).toMatchObject({ chainId: 56, nativeSymbol: 'BNB', explorerUrl: 'https://bscscan.com' });
+        expect(parsed.replies).toEqual({});
+    });
+
+    it('should substitute environment variables in strings', () => {
+        const [parsed] = parseBotAccounts(
+            [account({ twitterApiIo: { loginPassword: '${BNB_PASSWORD}' } })],
+            { BNB_PASSWORD: 'hunter2' }
+        );
+        expect(parsed.twitterApiIo.loginPassword).toBe('hunter2');
+    });
+
+    it('should fail on unset environment variables', () => {
+        expect(() => expandEnv({ a: ['${MISSING}'] }, {})).toThrow('MISSING');
+    });
+
+    it('should reject duplicate ids and usernames', () => {
+        expect(() => parseBotAccounts([account(), account({ username: 'other' })])).toThrow('Duplicate bot account id');
+        expect(() => parseBotAccounts([account(), account({ id: 'base', username: 'BNB_Deployer' })]))
+            .toThrow('Duplicate bot account username');
+    });
+
+    it('should require at least one account', () => {
+        expect(() => parseBotAccounts([])).toThrow();
+    });
+});
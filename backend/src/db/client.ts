@@ -1,12 +1,39 @@
 import { Pool, PoolClient } from 'pg';
 import { config } from '../config/index.js';
-import type { User, Deployment, DeploymentStatus } from '../types/index.js';
+import type {
+    User,
+    Deployment,
+    DeploymentSource,
+    DeploymentStatus,
+    EventFailure,
+    FeeAttribution,
+    KeyExport,
+    ModerationOptOut,
+    ModerationRule,
+    ModerationRuleKind,
+    ModerationTarget,
+    ProcessedEventStatus,
+    ProcessedEventType,
+    Withdrawal,
+    WithdrawalStatus,
+} from '../types/index.js';
+import { isNewerThan } from '../utils/snowflake.js';
+import { isLocale, type Locale } from '../i18n/index.js';
+import { LIVE_DEPLOYMENT_STATUSES } from '../services/CollisionPolicy.js';
 
 class Database {
     private pool: Pool;
     private mockUsers: Map<string, User> = new Map();
     private mockDeployments: Map<string, Deployment> = new Map();
     private mockRateLimits: Map<string, Date> = new Map();
+    private mockCheckpoints: Map<string, string> = new Map();
+    private mockProcessedEvents: Map<string, { status: ProcessedEventStatus; claimedAt: Date }> = new Map();
+    private mockEventFailures: Map<string, EventFailure> = new Map();
+    private mockLocales: Map<string, Locale> = new Map();
+    private mockModerationRules: Map<number, ModerationRule> = new Map();
+    private mockOptOuts: Map<string, ModerationOptOut> = new Map();
+    private mockWithdrawals: Map<number, Withdrawal> = new Map();
+    private mockKeyExports: Map<number, KeyExport> = new Map();
 
     constructor() {
         if (config.MOCK_DB) {
@@ -87,6 +114,7 @@ class Database {
     // ============ Deployment Operations ============
 
     async createDeployment(params: {
+        botId: string;
         deployTweetId: string;
         parentTweetId: string;
         deployerTwitterId: string;
@@ -94,20 +122,31 @@ class Database {
         feeRecipientWallet: string;
         tokenName: string;
         tokenSymbol: string;
+        attribution?: FeeAttribution;
+        source?: DeploymentSource;
     }): Promise<Deployment> {
         if (config.MOCK_DB) {
             const deployment: Deployment = {
                 id: this.mockDeployments.size + 1,
+                bot_id: params.botId,
                 deploy_tweet_id: params.deployTweetId,
                 parent_tweet_id: params.parentTweetId,
                 deployer_twitter_id: params.deployerTwitterId,
                 fee_recipient_twitter_id: params.feeRecipientTwitterId,
                 fee_recipient_wallet: params.feeRecipientWallet,
+                token_name: params.tokenName,
+                token_symbol: params.tokenSymbol,
                 token_address: null, // Mapped to snake_case as per DB
                 pool_id: null,
                 tx_hash: null,
                 status: 'pending',
+                error_message: null,
+                moderation_rule_id: null,
+                source: params.source || 'tweet',
+                fee_recipient_reason: params.attribution?.reason || null,
+                attribution_chain: params.attribution?.chain || null,
                 created_at: new Date(),
+                deployed_at: null,
             } as any; // Type mismatch between DB snake_case and interface camelCase if interface is mixed. 
             // Wait, types/index.ts has camelCase properties or snake_case?
             // Checking types again... types/index.ts usually matches DB columns if using pg directly?
@@ -137,12 +176,13 @@ class Database {
 
         const result = await this.pool.query<Deployment>(
             `INSERT INTO deployments (
-        deploy_tweet_id, parent_tweet_id, deployer_twitter_id,
+        bot_id, deploy_tweet_id, parent_tweet_id, deployer_twitter_id,
         fee_recipient_twitter_id, fee_recipient_wallet,
-        token_name, token_symbol, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending')
+        token_name, token_symbol, fee_recipient_reason, attribution_chain, source, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'pending')
       RETURNING *`,
             [
+                params.botId,
                 params.deployTweetId,
                 params.parentTweetId,
                 params.deployerTwitterId,
@@ -150,6 +190,9 @@ class Database {
                 params.feeRecipientWallet,
                 params.tokenName,
                 params.tokenSymbol,
+                params.attribution?.reason || null,
+                params.attribution ? JSON.stringify(params.attribution.chain) : null,
+                params.source || 'tweet',
             ]
         );
         return result.rows[0];
@@ -163,6 +206,7 @@ class Database {
             poolId?: string;
             txHash?: string;
             errorMessage?: string;
+            moderationRuleId?: number;
         }
     ): Promise<void> {
         if (config.MOCK_DB) {
@@ -172,13 +216,15 @@ class Database {
                 if (data?.tokenAddress) deployment.token_address = data.tokenAddress;
                 if (data?.poolId) deployment.pool_id = data.poolId;
                 if (data?.txHash) deployment.tx_hash = data.txHash;
-                // error_message not in interface? I should check interface. Assuming okay for mock.
+                if (data?.errorMessage) deployment.error_message = data.errorMessage;
+                if (data?.moderationRuleId) deployment.moderation_rule_id = data.moderationRuleId;
+                if (status === 'deployed') deployment.deployed_at = new Date();
             }
             return;
         }
 
         const updates: string[] = ['status = $2'];
-        const values: (string | null)[] = [deployTweetId, status];
+        const values: (string | number | null)[] = [deployTweetId, status];
         let paramIndex = 3;
 
         if (data?.tokenAddress) {
@@ -197,6 +243,10 @@ class Database {
             updates.push(`error_message = $${paramIndex++}`);
             values.push(data.errorMessage);
         }
+        if (data?.moderationRuleId) {
+            updates.push(`moderation_rule_id = $${paramIndex++}`);
+            values.push(data.moderationRuleId);
+        }
         if (status === 'deployed') {
             updates.push(`deployed_at = NOW()`);
         }
@@ -218,6 +268,89 @@ class Database {
         return result.rows[0] || null;
     }
 
+    async getDeploymentByTokenAddress(tokenAddress: string): Promise<Deployment | null> {
+        if (config.MOCK_DB) {
+            return [...this.mockDeployments.values()]
+                .find((d) => d.token_address?.toLowerCase() === tokenAddress.toLowerCase()) || null;
+        }
+        const result = await this.pool.query<Deployment>(
+            'SELECT * FROM deployments WHERE LOWER(token_address) = LOWER($1)',
+            [tokenAddress]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Most recent deployment of a ticker (tickers aren't unique)
+     */
+    async getLatestDeploymentBySymbol(tokenSymbol: string): Promise<Deployment | null> {
+        if (config.MOCK_DB) {
+            return [...this.mockDeployments.values()]
+                .filter((d) => d.token_symbol === tokenSymbol.toUpperCase())
+                .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())[0] || null;
+        }
+        const result = await this.pool.query<Deployment>(
+            'SELECT * FROM deployments WHERE token_symbol = UPPER($1) ORDER BY created_at DESC LIMIT 1',
+            [tokenSymbol]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * A user's deployments, newest first
+     */
+    async getDeploymentsByDeployer(twitterId: string, limit: number): Promise<Deployment[]> {
+        if (config.MOCK_DB) {
+            return [...this.mockDeployments.values()]
+                .filter((d) => d.deployer_twitter_id === twitterId)
+                .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+                .slice(0, limit);
+        }
+        const result = await this.pool.query<Deployment>(
+            'SELECT * FROM deployments WHERE deployer_twitter_id = $1 ORDER BY created_at DESC LIMIT $2',
+            [twitterId, limit]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Earlier live deployments a new one could collide with (see CollisionPolicy), oldest first
+     */
+    async findCollisionCandidates(params: {
+        excludeTweetId?: string;
+        parentTweetId?: string;
+        tokenSymbol: string;
+        tokenName: string;
+        since: Date;
+    }): Promise<Deployment[]> {
+        if (config.MOCK_DB) {
+            return [...this.mockDeployments.values()]
+                .filter((d) => d.deploy_tweet_id !== params.excludeTweetId && LIVE_DEPLOYMENT_STATUSES.includes(d.status))
+                .filter((d) => (params.parentTweetId && d.parent_tweet_id === params.parentTweetId) || (d.created_at >= params.since && (
+                    d.token_symbol === params.tokenSymbol.toUpperCase() ||
+                    d.token_name?.toLowerCase() === params.tokenName.toLowerCase()
+                )))
+                .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+        }
+        const result = await this.pool.query<Deployment>(
+            `SELECT * FROM deployments
+       WHERE deploy_tweet_id IS DISTINCT FROM $1
+         AND status = ANY($2)
+         AND (parent_tweet_id = $3
+              OR (created_at >= $4 AND (token_symbol = UPPER($5) OR LOWER(token_name) = LOWER($6))))
+       ORDER BY created_at ASC`,
+            [
+                params.excludeTweetId ?? null,
+                LIVE_DEPLOYMENT_STATUSES,
+                params.parentTweetId ?? null,
+                params.since,
+                params.tokenSymbol,
+                params.tokenName,
+            ]
+        );
+        return result.rows;
+    }
+
     async deploymentExists(deployTweetId: string): Promise<boolean> {
         if (config.MOCK_DB) {
             return this.mockDeployments.has(deployTweetId);
@@ -262,6 +395,490 @@ class Database {
         );
     }
 
+    // ============ Ingestion Checkpoints ============
+
+    async getCheckpoint(source: string): Promise<string | null> {
+        if (config.MOCK_DB) {
+            return this.mockCheckpoints.get(source) || null;
+        }
+        const result = await this.pool.query<{ last_id: string }>(
+            'SELECT last_id FROM ingestion_checkpoints WHERE source = $1',
+            [source]
+        );
+        return result.rows[0]?.last_id || null;
+    }
+
+    /**
+     * Advance a checkpoint. Never moves backwards: IDs are compared numerically.
+     */
+    async advanceCheckpoint(source: string, lastId: string): Promise<void> {
+        if (config.MOCK_DB) {
+            if (isNewerThan(lastId, this.mockCheckpoints.get(source))) {
+                this.mockCheckpoints.set(source, lastId);
+            }
+            return;
+        }
+        await this.pool.query(
+            `INSERT INTO ingestion_checkpoints (source, last_id, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (source)
+       DO UPDATE SET last_id = EXCLUDED.last_id, updated_at = NOW()
+       WHERE ingestion_checkpoints.last_id::numeric < EXCLUDED.last_id::numeric`,
+            [source, lastId]
+        );
+    }
+
+    // ============ Processed Events Ledger ============
+
+    /**
+     * Claim an event for processing by one bot
+     * The claim stays 'processing' until completeEvent; one left unfinished
+     * for longer than staleAfterMs (e.g. by a crashed process) is taken over.
+     * @returns true if this caller claimed it, false if the bot already processed it or is still on it
+     */
+    async claimEvent(botId: string, eventType: ProcessedEventType, eventId: string, staleAfterMs: number): Promise<boolean> {
+        if (config.MOCK_DB) {
+            const key = `${botId}:${eventType}:${eventId}`;
+            const claim = this.mockProcessedEvents.get(key);
+            if (claim && (claim.status === 'done' || Date.now() - claim.claimedAt.getTime() < staleAfterMs)) return false;
+            this.mockProcessedEvents.set(key, { status: 'processing', claimedAt: new Date() });
+            return true;
+        }
+        const result = await this.pool.query(
+            `INSERT INTO processed_events (bot_id, event_type, event_id, status, claimed_at)
+       VALUES ($1, $2, $3, 'processing', NOW())
+       ON CONFLICT (bot_id, event_type, event_id) DO UPDATE SET claimed_at = NOW()
+       WHERE processed_events.status = 'processing'
+         AND processed_events.claimed_at < NOW() - $4 * INTERVAL '1 millisecond'
+       RETURNING event_id`,
+            [botId, eventType, eventId, staleAfterMs]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * Mark a claimed event as handled, so it's never processed again
+     */
+    async completeEvent(botId: string, eventType: ProcessedEventType, eventId: string): Promise<void> {
+        if (config.MOCK_DB) {
+            const claim = this.mockProcessedEvents.get(`${botId}:${eventType}:${eventId}`);
+            if (claim) claim.status = 'done';
+            return;
+        }
+        await this.pool.query(
+            `UPDATE processed_events SET status = 'done', processed_at = NOW()
+       WHERE bot_id = $1 AND event_type = $2 AND event_id = $3`,
+            [botId, eventType, eventId]
+        );
+    }
+
+    /**
+     * Release a claim so the event can be retried (used when handling failed)
+     */
+    async releaseEvent(botId: string, eventType: ProcessedEventType, eventId: string): Promise<void> {
+        if (config.MOCK_DB) {
+            this.mockProcessedEvents.delete(`${botId}:${eventType}:${eventId}`);
+            return;
+        }
+        await this.pool.query(
+            'DELETE FROM processed_events WHERE bot_id = $1 AND event_type = $2 AND event_id = $3',
+            [botId, eventType, eventId]
+        );
+    }
+
+    /**
+     * Release every unfinished claim of a bot, e.g. ones left by a crash
+     * Only safe while none of the bot's events are being handled (at startup).
+     * @returns How many claims were released
+     */
+    async releaseUnfinishedEvents(botId: string): Promise<number> {
+        if (config.MOCK_DB) {
+            let released = 0;
+            for (const [key, claim] of this.mockProcessedEvents) {
+                if (key.startsWith(`${botId}:`) && claim.status === 'processing') {
+                    this.mockProcessedEvents.delete(key);
+                    released++;
+                }
+            }
+            return released;
+        }
+        const result = await this.pool.query(
+            `DELETE FROM processed_events WHERE bot_id = $1 AND status = 'processing'`,
+            [botId]
+        );
+        return result.rowCount ?? 0;
+    }
+
+    /**
+     * Count a failed attempt at an event, dead-lettering it on the last allowed one
+     * @returns The failure record after this attempt
+     */
+    async recordEventFailure(params: {
+        botId: string;
+        eventType: ProcessedEventType;
+        eventId: string;
+        error: string;
+        payload: unknown;
+        maxAttempts: number;
+    }): Promise<EventFailure> {
+        if (config.MOCK_DB) {
+            const key = `${params.botId}:${params.eventType}:${params.eventId}`;
+            const now = new Date();
+            const failure: EventFailure = this.mockEventFailures.get(key) ?? {
+                bot_id: params.botId,
+                event_type: params.eventType,
+                event_id: params.eventId,
+                attempts: 0,
+                last_error: null,
+                payload: params.payload,
+                first_failed_at: now,
+                last_failed_at: now,
+                dead_lettered_at: null,
+            };
+            failure.attempts += 1;
+            failure.last_error = params.error;
+            failure.last_failed_at = now;
+            if (failure.attempts >= params.maxAttempts) failure.dead_lettered_at = now;
+            this.mockEventFailures.set(key, failure);
+            return failure;
+        }
+        const result = await this.pool.query<EventFailure>(
+            `INSERT INTO event_failures (bot_id, event_type, event_id, last_error, payload, dead_lettered_at)
+       VALUES ($1, $2, $3, $4, $5, CASE WHEN $6 <= 1 THEN NOW() END)
+       ON CONFLICT (bot_id, event_type, event_id) DO UPDATE SET
+         attempts = event_failures.attempts + 1,
+         last_error = EXCLUDED.last_error,
+         last_failed_at = NOW(),
+         dead_lettered_at = CASE WHEN event_failures.attempts + 1 >= $6 THEN NOW() END
+       RETURNING *`,
+            [params.botId, params.eventType, params.eventId, params.error, JSON.stringify(params.payload), params.maxAttempts]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Events the bot gave up on, newest first
+     */
+    async getDeadLetteredEvents(limit: number): Promise<EventFailure[]> {
+        if (config.MOCK_DB) {
+            return [...this.mockEventFailures.values()]
+                .filter((failure) => failure.dead_lettered_at)
+                .sort((a, b) => b.dead_lettered_at!.getTime() - a.dead_lettered_at!.getTime())
+                .slice(0, limit);
+        }
+        const result = await this.pool.query<EventFailure>(
+            `SELECT * FROM event_failures
+       WHERE dead_lettered_at IS NOT NULL
+       ORDER BY dead_lettered_at DESC
+       LIMIT $1`,
+            [limit]
+        );
+        return result.rows;
+    }
+
+    // ============ Moderation ============
+
+    async getModerationRules(): Promise<ModerationRule[]> {
+        if (config.MOCK_DB) {
+            return [...this.mockModerationRules.values()];
+        }
+        const result = await this.pool.query<ModerationRule>('SELECT * FROM moderation_rules ORDER BY id');
+        return result.rows;
+    }
+
+    async createModerationRule(params: {
+        kind: ModerationRuleKind;
+        pattern: string;
+        appliesTo: ModerationTarget;
+        category?: string | null;
+        note?: string | null;
+    }): Promise<ModerationRule> {
+        if (config.MOCK_DB) {
+            const rule: ModerationRule = {
+                id: Math.max(0, ...this.mockModerationRules.keys()) + 1,
+                kind: params.kind,
+                pattern: params.pattern,
+                applies_to: params.appliesTo,
+                category: params.category ?? null,
+                note: params.note ?? null,
+                enabled: true,
+                created_at: new Date(),
+                updated_at: new Date(),
+            };
+            this.mockModerationRules.set(rule.id, rule);
+            return rule;
+        }
+        const result = await this.pool.query<ModerationRule>(
+            `INSERT INTO moderation_rules (kind, pattern, applies_to, category, note)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+            [params.kind, params.pattern, params.appliesTo, params.category ?? null, params.note ?? null]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * @returns The updated rule, or null if there is no such rule
+     */
+    async updateModerationRule(id: number, changes: {
+        kind?: ModerationRuleKind;
+        pattern?: string;
+        appliesTo?: ModerationTarget;
+        category?: string | null;
+        note?: string | null;
+        enabled?: boolean;
+    }): Promise<ModerationRule | null> {
+        const columns: Record<string, unknown> = {
+            kind: changes.kind,
+            pattern: changes.pattern,
+            applies_to: changes.appliesTo,
+            category: changes.category,
+            note: changes.note,
+            enabled: changes.enabled,
+        };
+        const entries = Object.entries(columns).filter(([, value]) => value !== undefined);
+
+        if (config.MOCK_DB) {
+            const rule = this.mockModerationRules.get(id);
+            if (!rule) return null;
+            Object.assign(rule, Object.fromEntries(entries), { updated_at: new Date() });
+            return rule;
+        }
+        if (!entries.length) {
+            const result = await this.pool.query<ModerationRule>('SELECT * FROM moderation_rules WHERE id = $1', [id]);
+            return result.rows[0] || null;
+        }
+        const result = await this.pool.query<ModerationRule>(
+            `UPDATE moderation_rules SET ${entries.map(([column], i) => `${column} = $${i + 2}`).join(', ')}
+       WHERE id = $1
+       RETURNING *`,
+            [id, ...entries.map(([, value]) => value)]
+        );
+        return result.rows[0] || null;
+    }
+
+    async deleteModerationRule(id: number): Promise<boolean> {
+        if (config.MOCK_DB) {
+            return this.mockModerationRules.delete(id);
+        }
+        const result = await this.pool.query('DELETE FROM moderation_rules WHERE id = $1', [id]);
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    async getOptOuts(): Promise<ModerationOptOut[]> {
+        if (config.MOCK_DB) {
+            return [...this.mockOptOuts.values()];
+        }
+        const result = await this.pool.query<ModerationOptOut>('SELECT * FROM moderation_opt_outs ORDER BY created_at');
+        return result.rows;
+    }
+
+    async isOptedOut(twitterId: string): Promise<boolean> {
+        if (config.MOCK_DB) {
+            return this.mockOptOuts.has(twitterId);
+        }
+        const result = await this.pool.query<{ exists: boolean }>(
+            'SELECT EXISTS(SELECT 1 FROM moderation_opt_outs WHERE twitter_id = $1) as exists',
+            [twitterId]
+        );
+        return result.rows[0]?.exists || false;
+    }
+
+    async upsertOptOut(twitterId: string, username: string | null = null, reason: string | null = null): Promise<ModerationOptOut> {
+        if (config.MOCK_DB) {
+            const optOut: ModerationOptOut = {
+                twitter_id: twitterId,
+                username,
+                reason,
+                created_at: this.mockOptOuts.get(twitterId)?.created_at || new Date(),
+            };
+            this.mockOptOuts.set(twitterId, optOut);
+            return optOut;
+        }
+        const result = await this.pool.query<ModerationOptOut>(
+            `INSERT INTO moderation_opt_outs (twitter_id, username, reason)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (twitter_id)
+       DO UPDATE SET username = EXCLUDED.username, reason = EXCLUDED.reason
+       RETURNING *`,
+            [twitterId, username, reason]
+        );
+        return result.rows[0];
+    }
+
+    async deleteOptOut(twitterId: string): Promise<boolean> {
+        if (config.MOCK_DB) {
+            return this.mockOptOuts.delete(twitterId);
+        }
+        const result = await this.pool.query('DELETE FROM moderation_opt_outs WHERE twitter_id = $1', [twitterId]);
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    // ============ Withdrawals ============
+
+    async createWithdrawal(params: {
+        botId: string;
+        twitterId: string;
+        fromAddress: string;
+        toAddress: string;
+        amountWei: bigint;
+        feeWei: bigint;
+    }): Promise<Withdrawal> {
+        if (config.MOCK_DB) {
+            const withdrawal: Withdrawal = {
+                id: this.mockWithdrawals.size + 1,
+                bot_id: params.botId,
+                twitter_id: params.twitterId,
+                from_address: params.fromAddress,
+                to_address: params.toAddress,
+                amount_wei: params.amountWei.toString(),
+                fee_wei: params.feeWei.toString(),
+                tx_hash: null,
+                status: 'pending',
+                error_message: null,
+                created_at: new Date(),
+                updated_at: new Date(),
+            };
+            this.mockWithdrawals.set(withdrawal.id, withdrawal);
+            return withdrawal;
+        }
+        const result = await this.pool.query<Withdrawal>(
+            `INSERT INTO withdrawals (bot_id, twitter_id, from_address, to_address, amount_wei, fee_wei, status)
+       VALUES ($1, $2, $3, $4, $5, $6, 'pending')
+       RETURNING *`,
+            [params.botId, params.twitterId, params.fromAddress, params.toAddress, params.amountWei.toString(), params.feeWei.toString()]
+        );
+        return result.rows[0];
+    }
+
+    async updateWithdrawalStatus(
+        id: number,
+        status: WithdrawalStatus,
+        data?: { txHash?: string; errorMessage?: string }
+    ): Promise<void> {
+        if (config.MOCK_DB) {
+            const withdrawal = this.mockWithdrawals.get(id);
+            if (withdrawal) {
+                withdrawal.status = status;
+                if (data?.txHash) withdrawal.tx_hash = data.txHash;
+                if (data?.errorMessage) withdrawal.error_message = data.errorMessage;
+                withdrawal.updated_at = new Date();
+            }
+            return;
+        }
+        await this.pool.query(
+            `UPDATE withdrawals
+       SET status = $2, tx_hash = COALESCE($3, tx_hash), error_message = COALESCE($4, error_message)
+       WHERE id = $1`,
+            [id, status, data?.txHash ?? null, data?.errorMessage ?? null]
+        );
+    }
+
+    // ============ Key Exports ============
+
+    async createKeyExport(params: {
+        botId: string;
+        twitterId: string;
+        walletAddress: string;
+        tokenHash: string;
+        requestedAt: Date;
+        expiresAt: Date;
+    }): Promise<KeyExport> {
+        if (config.MOCK_DB) {
+            const keyExport: KeyExport = {
+                id: this.mockKeyExports.size + 1,
+                bot_id: params.botId,
+                twitter_id: params.twitterId,
+                wallet_address: params.walletAddress,
+                token_hash: params.tokenHash,
+                status: 'issued',
+                requested_at: params.requestedAt,
+                expires_at: params.expiresAt,
+                viewed_at: null,
+                viewer_ip: null,
+                viewer_user_agent: null,
+                created_at: new Date(),
+            };
+            this.mockKeyExports.set(keyExport.id, keyExport);
+            return keyExport;
+        }
+        const result = await this.pool.query<KeyExport>(
+            `INSERT INTO key_exports (bot_id, twitter_id, wallet_address, token_hash, status, requested_at, expires_at)
+       VALUES ($1, $2, $3, $4, 'issued', $5, $6)
+       RETURNING *`,
+            [params.botId, params.twitterId, params.walletAddress, params.tokenHash, params.requestedAt, params.expiresAt]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Key export links sent to a user since a point in time, opened or not
+     */
+    async countKeyExportsSince(twitterId: string, since: Date): Promise<number> {
+        if (config.MOCK_DB) {
+            return [...this.mockKeyExports.values()]
+                .filter((keyExport) => keyExport.twitter_id === twitterId && keyExport.created_at >= since)
+                .length;
+        }
+        const result = await this.pool.query<{ count: string }>(
+            'SELECT COUNT(*) AS count FROM key_exports WHERE twitter_id = $1 AND created_at >= $2',
+            [twitterId, since]
+        );
+        return parseInt(result.rows[0].count, 10);
+    }
+
+    /**
+     * Mark an unexpired link as viewed, in one step so it can only be opened once
+     * @returns The export, or null if the link is unknown, used or expired
+     */
+    async consumeKeyExport(tokenHash: string, viewer: { ip?: string; userAgent?: string }): Promise<KeyExport | null> {
+        if (config.MOCK_DB) {
+            const keyExport = [...this.mockKeyExports.values()].find((row) => row.token_hash === tokenHash);
+            if (!keyExport || keyExport.status !== 'issued' || keyExport.expires_at <= new Date()) return null;
+            keyExport.status = 'viewed';
+            keyExport.viewed_at = new Date();
+            keyExport.viewer_ip = viewer.ip ?? null;
+            keyExport.viewer_user_agent = viewer.userAgent ?? null;
+            return keyExport;
+        }
+        const result = await this.pool.query<KeyExport>(
+            `UPDATE key_exports
+       SET status = 'viewed', viewed_at = NOW(), viewer_ip = $2, viewer_user_agent = $3
+       WHERE token_hash = $1 AND status = 'issued' AND expires_at > NOW()
+       RETURNING *`,
+            [tokenHash, viewer.ip ?? null, viewer.userAgent ?? null]
+        );
+        return result.rows[0] || null;
+    }
+
+    // ============ User Preferences ============
+
+    async getUserLocale(twitterId: string): Promise<Locale | null> {
+        if (config.MOCK_DB) {
+            return this.mockLocales.get(twitterId) || null;
+        }
+        const result = await this.pool.query<{ locale: string }>(
+            'SELECT locale FROM user_preferences WHERE twitter_id = $1',
+            [twitterId]
+        );
+        const locale = result.rows[0]?.locale;
+        return isLocale(locale) ? locale : null;
+    }
+
+    async setUserLocale(twitterId: string, locale: Locale): Promise<void> {
+        if (config.MOCK_DB) {
+            this.mockLocales.set(twitterId, locale);
+            return;
+        }
+        await this.pool.query(
+            `INSERT INTO user_preferences (twitter_id, locale, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (twitter_id)
+       DO UPDATE SET locale = EXCLUDED.locale, updated_at = NOW()`,
+            [twitterId, locale]
+        );
+    }
+
     async close(): Promise<void> {
         if (config.MOCK_DB) return;
         await this.pool.end();
@@ -18,6 +18,12 @@ CREATE INDEX IF NOT EXISTS idx_users_wallet ON users(wallet_address);
 CREATE TABLE IF NOT EXISTS deployments (
     id SERIAL PRIMARY KEY,
     
+    -- Bot account that handled the command (see BOT_ACCOUNTS_FILE)
+    bot_id VARCHAR(32) NOT NULL DEFAULT 'default',
+
+    -- Where the command came from: 'tweet', or 'dm' with the DM's ID in both tweet columns
+    source VARCHAR(8) NOT NULL DEFAULT 'tweet',
+
     -- Tweet references
     deploy_tweet_id VARCHAR(64) NOT NULL,
     parent_tweet_id VARCHAR(64) NOT NULL,
@@ -27,6 +33,10 @@ CREATE TABLE IF NOT EXISTS deployments (
     fee_recipient_twitter_id VARCHAR(64) NOT NULL,
     fee_recipient_wallet VARCHAR(42) NOT NULL,
     
+    -- Fee attribution (which rule chose the recipient, and every rule tried)
+    fee_recipient_reason VARCHAR(20),
+    attribution_chain JSONB,
+
     -- Token info
     token_name VARCHAR(100),
     token_symbol VARCHAR(20),
@@ -46,15 +56,30 @@ CREATE TABLE IF NOT EXISTS deployments (
     deployed_at TIMESTAMP WITH TIME ZONE,
     
     -- Constraints
-    CONSTRAINT valid_status CHECK (status IN ('pending', 'processing', 'deployed', 'failed', 'wallet_missing')),
+    CONSTRAINT valid_status CHECK (status IN ('pending', 'processing', 'deployed', 'failed', 'wallet_missing', 'rejected')),
     CONSTRAINT unique_deploy_tweet UNIQUE (deploy_tweet_id)
 );
 
+-- Columns added after the initial release
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS fee_recipient_reason VARCHAR(20);
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS attribution_chain JSONB;
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS bot_id VARCHAR(32) NOT NULL DEFAULT 'default';
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS moderation_rule_id INTEGER; -- Rule that rejected the deploy
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS source VARCHAR(8) NOT NULL DEFAULT 'tweet';
+ALTER TABLE deployments DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE deployments ADD CONSTRAINT valid_status
+    CHECK (status IN ('pending', 'processing', 'deployed', 'failed', 'wallet_missing', 'rejected'));
+
 -- Indexes for common queries
 CREATE INDEX IF NOT EXISTS idx_deployments_status ON deployments(status);
 CREATE INDEX IF NOT EXISTS idx_deployments_deployer ON deployments(deployer_twitter_id);
 CREATE INDEX IF NOT EXISTS idx_deployments_recipient ON deployments(fee_recipient_twitter_id);
 CREATE INDEX IF NOT EXISTS idx_deployments_created ON deployments(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deployments_bot ON deployments(bot_id);
+CREATE INDEX IF NOT EXISTS idx_deployments_token ON deployments(LOWER(token_address));
+CREATE INDEX IF NOT EXISTS idx_deployments_symbol ON deployments(token_symbol, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deployments_name ON deployments(LOWER(token_name), created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deployments_parent ON deployments(parent_tweet_id);
 
 -- Rate limiting table (optional - can also use Redis)
 CREATE TABLE IF NOT EXISTS rate_limits (
@@ -63,6 +88,125 @@ CREATE TABLE IF NOT EXISTS rate_limits (
     deploy_count_24h INTEGER NOT NULL DEFAULT 1
 );
 
+-- Ingestion checkpoints: last processed ID per source (mentions, DMs)
+CREATE TABLE IF NOT EXISTS ingestion_checkpoints (
+    source VARCHAR(64) PRIMARY KEY,
+    last_id VARCHAR(64) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Processed events ledger: every tweet/DM each bot has claimed or acted on
+-- Per bot, since a tweet can mention several bots and webhooks reach all of them
+-- A 'processing' claim is only marked 'done' once its handler succeeded
+CREATE TABLE IF NOT EXISTS processed_events (
+    bot_id VARCHAR(32) NOT NULL DEFAULT 'default',
+    event_type VARCHAR(16) NOT NULL,
+    event_id VARCHAR(64) NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'done',
+    claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (bot_id, event_type, event_id),
+
+    CONSTRAINT valid_event_status CHECK (status IN ('processing', 'done'))
+);
+
+ALTER TABLE processed_events ADD COLUMN IF NOT EXISTS bot_id VARCHAR(32) NOT NULL DEFAULT 'default';
+ALTER TABLE processed_events DROP CONSTRAINT IF EXISTS processed_events_pkey;
+ALTER TABLE processed_events ADD PRIMARY KEY (bot_id, event_type, event_id);
+ALTER TABLE processed_events ADD COLUMN IF NOT EXISTS status VARCHAR(16) NOT NULL DEFAULT 'done';
+ALTER TABLE processed_events ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE processed_events ALTER COLUMN processed_at DROP NOT NULL;
+ALTER TABLE processed_events ALTER COLUMN processed_at DROP DEFAULT;
+ALTER TABLE processed_events DROP CONSTRAINT IF EXISTS valid_event_status;
+ALTER TABLE processed_events ADD CONSTRAINT valid_event_status CHECK (status IN ('processing', 'done'));
+
+-- Mentions and DMs whose handling failed; dead-lettered ones are no longer retried
+CREATE TABLE IF NOT EXISTS event_failures (
+    bot_id VARCHAR(32) NOT NULL,
+    event_type VARCHAR(16) NOT NULL,
+    event_id VARCHAR(64) NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    last_error TEXT,
+    payload JSONB,
+    first_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    dead_lettered_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (bot_id, event_type, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_failures_dead ON event_failures(dead_lettered_at DESC) WHERE dead_lettered_at IS NOT NULL;
+
+-- Moderation rules for token names and tickers, editable through the admin API
+CREATE TABLE IF NOT EXISTS moderation_rules (
+    id SERIAL PRIMARY KEY,
+    kind VARCHAR(8) NOT NULL,
+    pattern TEXT NOT NULL,
+    applies_to VARCHAR(8) NOT NULL DEFAULT 'both',
+    category VARCHAR(32), -- e.g. slur, trademark, impersonation
+    note TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_kind CHECK (kind IN ('exact', 'regex', 'fuzzy')),
+    CONSTRAINT valid_applies_to CHECK (applies_to IN ('name', 'ticker', 'both'))
+);
+
+-- Accounts whose tweets may not be used to launch tokens
+CREATE TABLE IF NOT EXISTS moderation_opt_outs (
+    twitter_id VARCHAR(64) PRIMARY KEY,
+    username VARCHAR(64),
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Per-user preferences; locale is the language the user last wrote a command in
+CREATE TABLE IF NOT EXISTS user_preferences (
+    twitter_id VARCHAR(64) PRIMARY KEY,
+    locale VARCHAR(8) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Withdrawals from custodial wallets, one row per confirmed request
+CREATE TABLE IF NOT EXISTS withdrawals (
+    id SERIAL PRIMARY KEY,
+    bot_id VARCHAR(32) NOT NULL DEFAULT 'default',
+    twitter_id VARCHAR(64) NOT NULL,
+    from_address VARCHAR(42) NOT NULL,
+    to_address VARCHAR(42) NOT NULL,
+    amount_wei NUMERIC(78, 0) NOT NULL,
+    fee_wei NUMERIC(78, 0) NOT NULL, -- Gas limit x gas price at signing
+    tx_hash VARCHAR(66),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_withdrawal_status CHECK (status IN ('pending', 'submitted', 'confirmed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawals_user ON withdrawals(twitter_id, created_at DESC);
+
+-- Private key exports: one row per one-time link sent, and whether it was opened
+CREATE TABLE IF NOT EXISTS key_exports (
+    id SERIAL PRIMARY KEY,
+    bot_id VARCHAR(32) NOT NULL DEFAULT 'default',
+    twitter_id VARCHAR(64) NOT NULL,
+    wallet_address VARCHAR(42) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE, -- SHA-256 of the link token
+    status VARCHAR(10) NOT NULL DEFAULT 'issued',
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL, -- When the warning was sent
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    viewed_at TIMESTAMP WITH TIME ZONE,
+    viewer_ip VARCHAR(64),
+    viewer_user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_key_export_status CHECK (status IN ('issued', 'viewed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_key_exports_user ON key_exports(twitter_id, created_at DESC);
+
 -- Updated at trigger
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -78,3 +222,17 @@ CREATE TRIGGER update_deployments_updated_at
     BEFORE UPDATE ON deployments
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_moderation_rules_updated_at ON moderation_rules;
+
+CREATE TRIGGER update_moderation_rules_updated_at
+    BEFORE UPDATE ON moderation_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_withdrawals_updated_at ON withdrawals;
+
+CREATE TRIGGER update_withdrawals_updated_at
+    BEFORE UPDATE ON withdrawals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
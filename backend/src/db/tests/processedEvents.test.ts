@@ -0,0 +1,46 @@
+import { db } from '../client.js';
+
+const STALE_MS = 60 * 1000;
+
+describe('processed events ledger', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should not hand out a claim that is in progress or done', async () => {
+        expect(await db.claimEvent('bot-a', 'tweet', '1001', STALE_MS)).toBe(true);
+        expect(await db.claimEvent('bot-a', 'tweet', '1001', STALE_MS)).toBe(false);
+
+        await db.completeEvent('bot-a', 'tweet', '1001');
+        expect(await db.claimEvent('bot-a', 'tweet', '1001', STALE_MS)).toBe(false);
+        expect(await db.releaseUnfinishedEvents('bot-a')).toBe(0);
+    });
+
+    it('should release claims a crashed run never finished', async () => {
+        await db.claimEvent('bot-b', 'dm', '2001', STALE_MS);
+        await db.claimEvent('bot-c', 'dm', '2001', STALE_MS);
+
+        expect(await db.releaseUnfinishedEvents('bot-b')).toBe(1);
+        expect(await db.claimEvent('bot-b', 'dm', '2001', STALE_MS)).toBe(true);
+        expect(await db.claimEvent('bot-c', 'dm', '2001', STALE_MS)).toBe(false);
+    });
+
+    it('should let a redelivery take over a stale claim', async () => {
+        jest.useFakeTimers();
+        await db.claimEvent('bot-d', 'tweet', '3001', STALE_MS);
+
+        jest.advanceTimersByTime(STALE_MS - 1);
+        expect(await db.claimEvent('bot-d', 'tweet', '3001', STALE_MS)).toBe(false);
+
+        jest.advanceTimersByTime(1);
+        expect(await db.claimEvent('bot-d', 'tweet', '3001', STALE_MS)).toBe(true);
+    });
+});
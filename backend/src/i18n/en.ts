@@ -0,0 +1,167 @@
+import type { LocalePack } from './types.js';
+
+export const en: LocalePack = {
+    locale: 'en',
+    verbs: {
+        deploy: ['deploy'],
+        start: ['start'],
+        status: ['status'],
+        balance: ['balance'],
+        history: ['history'],
+        link: ['link'],
+        withdraw: ['withdraw'],
+        export: ['export'],
+        help: ['help'],
+    },
+    casualDeployVerbs: ['launch', 'create'],
+    politeness: ['please', 'pls', 'plz'],
+    fields: {
+        ticker: 'ticker',
+        symbol: 'ticker',
+        name: 'name',
+        desc: 'description',
+        description: 'description',
+        image: 'image',
+        twitter: 'twitter',
+        telegram: 'telegram',
+        website: 'website',
+        fee: 'fee',
+        for: 'fee',
+    },
+    commands: {},
+    wizard: {
+        confirm: ['confirm', 'yes'],
+        cancel: ['cancel', 'stop'],
+        skip: ['skip', 'none'],
+        labels: { ticker: 'Ticker', name: 'Name', description: 'Description', image: 'Image', website: 'Website', twitter: 'Twitter', telegram: 'Telegram' },
+    },
+    withdrawAll: ['all', 'max'],
+    exportPhrase: 'I understand the risks',
+    hints: {
+        NOT_A_COMMAND: 'To launch a token, {action}: {example}',
+        MISSING_TICKER: 'No ticker found. Try: {example}',
+        MISSING_NAME: 'No token name found. Try: {example}',
+        TICKER_TOO_LONG: 'Ticker "{value}" is {length} characters; the limit is {limit}.',
+        INVALID_TICKER_CHARS: 'Ticker "{value}" can only use {letters} and digits 0-9.',
+        NAME_TOO_LONG: 'Token name is {length} characters; the limit is {limit}.',
+        INVALID_NAME_CHARS: 'Token name "{value}" can only use {letters}, digits, spaces, - _ and .',
+        MIXED_SCRIPTS: 'Ticker "{value}" mixes look-alike letters from different alphabets.',
+        MIXED_SCRIPTS_NAME: 'Token name "{value}" mixes look-alike letters from different alphabets.',
+        PROTECTED_TICKER: `"{value}" looks like {similarTo}, which can't be imitated. Pick another ticker.`,
+        PROTECTED_TICKER_NAME: `"{value}" looks like {similarTo}, which can't be imitated. Pick another name.`,
+        DESCRIPTION_TOO_LONG: 'Description is {length} characters; the limit is {limit}.',
+        INVALID_URL: '{field}: needs a full http(s):// link, got "{value}".',
+        INVALID_SOCIAL_URL: '{field}: needs an @handle or a {host} link, got "{value}".',
+        INVALID_FEE_RECIPIENT: `"{value}" isn't a valid X handle for fee:.`,
+        FEE_RECIPIENT_IS_BOT: `Fees can't go to @{bot}. Name another account with fee: @handle.`,
+        EXAMPLE_TWEET: '@{bot} deploy TICKER Token Name',
+        EXAMPLE_DM: 'deploy TICKER Token Name',
+        ACTION_TWEET: 'tweet',
+        ACTION_DM: 'send',
+        LETTERS_LATIN: 'letters A-Z',
+        LETTERS_SCRIPTS: 'letters ({scripts})',
+    },
+    messages: {
+        'help.header': 'Commands:',
+        'help.aliases': ' (or {aliases})',
+        'help.mention': 'Mention me with: {commands}',
+        'dm.unknown': `🤔 I didn't catch that.\n\n{help}`,
+        'start.exists': 'ℹ️ You already have a wallet.\nAddress: {address}\n\nTo deploy, send:\ndeploy\nname: <Token Name>\nsymbol: <Ticker>\ndesc: <Description>\nimage: <Image URL>',
+        'start.created': '✅ Wallet Generated!\n\nAddress: {address}\n\nPlease deposit ~0.02 {symbol} to cover deployment fees.\n\nTo deploy, send:\ndeploy\nname: Your Token\nsymbol: TICKER\ndesc: Description\nimage: https://...',
+        'start.failed': '❌ Failed to create wallet. Please try again.',
+        'deploy.invalid': '❌ {hint}\n\nFormat:\ndeploy\nname: ...\nsymbol: ...\nimage: ... (optional)\ndesc: ... (optional)',
+        'deploy.noWallet': `❌ No wallet found. Send 'start' to create one.`,
+        'deploy.insufficientFunds': '❌ Insufficient funds.\nBalance: {balance} {symbol}\nRequired: {required} {symbol}',
+        'deploy.deploying': '⏳ Deploying {ticker}... This may take a moment.',
+        'deploy.success': '✅ Deployment Successful!\n\nToken: {tokenAddress}\nHash: {txHash}\n\nView on explorer: {explorerUrl}/tx/{txHash}',
+        'deploy.failed': '❌ Deployment Failed: {error}',
+        'deploy.error': '❌ Error: {error}',
+        'deploy.collision': '🚫 Not deployed\n\n{reason}',
+        'deploy.rejected': '🚫 Not deployed: {reason}',
+        'link.usage': '❌ Send: link <wallet address>, e.g. link 0x1234...abcd',
+        'link.success': '✅ External wallet linked: {address}',
+        'link.failed': '❌ Failed to link wallet.',
+        'status.usage': 'Send status with a deploy tweet link, token address or $TICKER.',
+        'status.notFound': '🔍 No deployment found for {ref}.',
+        'status.summary': '${ticker} ({name}): {status}',
+        'status.reason': 'Reason: {reason}',
+        'status.pending': '⏳ queued',
+        'status.processing': '⚙️ deploying',
+        'status.deployed': '✅ deployed',
+        'status.failed': '❌ failed',
+        'status.wallet_missing': '👛 waiting for the fee recipient to link a wallet',
+        'status.rejected': '🚫 rejected',
+        'balance.noWallet': 'No wallet yet. DM me "start" to create one.',
+        'balance.custodial': '💰 {balance} {symbol}\nWallet: {address}',
+        'balance.linked': '💰 {balance} {symbol}\nLinked wallet: {address}',
+        'history.empty': 'No deployments yet.',
+        'history.header': 'Your recent deployments:',
+        'failure.feeOverride': `Couldn't use @{handle} as the fee recipient. Tag them in the same tweet.`,
+        'failure.rateLimited': 'Rate limited. Please wait before deploying again.',
+        'failure.onChain': 'On-chain deployment failed. Please try again.',
+        'collision.ticker': '${ticker} was launched recently.',
+        'collision.parent': 'That tweet already has a token.',
+        'collision.name': 'A token named "{name}" was launched recently.',
+        'collision.existing': 'Existing token: {tokenAddress}',
+        'collision.pending': 'The earlier one is still deploying: https://x.com/i/status/{tweetId}',
+        'collision.warning': '⚠️ Heads up: {reason}',
+        'moderation.blocked': `This name or ticker isn't allowed.`,
+        'moderation.optedOut': `@{username} has opted out of tokens launched from their tweets.`,
+        'wizard.start': `🪙 Let's launch a token. Send 'cancel' at any time to stop.\n\n{prompt}`,
+        'wizard.name': '1/6 What should the token be called?',
+        'wizard.ticker': '2/6 What ticker should it trade under? (e.g. PEPE)',
+        'wizard.image': `3/6 Send a link to the token image (https://...), or 'skip' for the placeholder.`,
+        'wizard.website': `4/6 Website link, or 'skip'.`,
+        'wizard.twitter': `5/6 X account (@handle or link), or 'skip'.`,
+        'wizard.telegram': `6/6 Telegram group (@handle or t.me link), or 'skip'.`,
+        'wizard.invalid': '❌ {hint}\n\n{prompt}',
+        'wizard.summary': `Ready to deploy:\n{summary}\n\nSend 'confirm' to deploy or 'cancel' to stop.`,
+        'wizard.cancelled': 'Cancelled. Nothing was deployed.',
+        'withdraw.usage': 'Usage: withdraw <amount|all> <0x address>\ne.g. withdraw 0.05 0x... or withdraw all 0x...',
+        'withdraw.noWallet': `❌ Only wallets created with 'start' can be withdrawn from. A linked wallet is already yours.`,
+        'withdraw.ownAddress': `❌ That's your deposit wallet. Send to another address.`,
+        'withdraw.insufficient': '❌ Not enough to cover that and the network fee.\nBalance: {balance} {symbol}\nNetwork fee: {fee} {symbol}\nMost you can withdraw: {max} {symbol}',
+        'withdraw.confirm': `⚠️ Withdraw {amount} {symbol} to {to}?\nNetwork fee: {fee} {symbol}\n\nTo confirm, send this code within {minutes} minutes:\n{code}\n\nTo cancel, send 'withdraw cancel'.`,
+        'withdraw.noPending': 'ℹ️ No withdrawal is waiting for a code. Start one with: withdraw <amount|all> <0x address>',
+        'withdraw.wrongCode': '❌ Wrong code. {attempts} attempt(s) left.',
+        'withdraw.locked': '❌ Too many wrong codes, so the withdrawal was cancelled. Start again if you still want it.',
+        'withdraw.cancelled': 'Withdrawal cancelled.',
+        'withdraw.sending': '⏳ Sending {amount} {symbol} to {to}...',
+        'withdraw.success': '✅ Withdrawal sent!\n\n{amount} {symbol} to {to}\nHash: {txHash}\n\nView on explorer: {explorerUrl}/tx/{txHash}',
+        'withdraw.failed': '❌ Withdrawal failed: {error}',
+        'export.noWallet': `❌ Only wallets created with 'start' have a key to export. A linked wallet's key is already yours.`,
+        'export.unavailable': '❌ Key export is not available on this bot.',
+        'export.rateLimited': '❌ You can export your key {max} time(s) a day. Try again tomorrow.',
+        'export.warning': `🚨 STOP AND READ 🚨\n\nYour private key is full control of your deposit wallet. Anyone who sees it can take everything in it, and nobody can reverse that.\n\n• Never share it, paste it into a website or send it to "support". We will never ask for it.\n• Only import it into a wallet app you installed yourself, such as MetaMask.\n• Once exported, the bot can't protect the wallet for you.\n\nIf you still want it, wait {seconds} seconds, then send exactly:\n{phrase}\n\nThis request lapses after {minutes} minutes. To cancel, send 'export cancel'.`,
+        'export.tooSoon': '⏳ Take a moment to reread the warning. Send the phrase again in {seconds} seconds.',
+        'export.wrongPhrase': `❌ That's not the phrase. To export your key, send exactly:\n{phrase}`,
+        'export.noPending': `ℹ️ No key export is waiting for confirmation. Send 'export' to start one.`,
+        'export.cancelled': 'Key export cancelled.',
+        'export.link': '🔑 Your one-time link:\n{url}\n\nIt works once and expires in {minutes} minutes. Open it on a device you trust, somewhere nobody can see your screen. If you didn\'t ask for this, ignore the link.',
+    },
+    replies: {
+        // Competitor-style format (Concise)
+        success: `@{feeRecipient} Token {name} (\${ticker}) Deployed! 🚀
+Send 'claim {tokenAddress}' to my DM to take ownership.
+
+Tx: {explorerUrl}/tx/{poolId}
+CA: {tokenAddress}
+Tax Wallet: {feeHook}
+
+[Ref: {ref}]`,
+        walletRequired: `@{username} ❌ Deployment failed
+
+The original tweet author hasn't linked their wallet yet.
+
+They need to link their wallet at [link] before tokens can be deployed.`,
+        failure: `@{username} ❌ Deployment failed
+
+{reason}
+
+Please try again later.`,
+        correction: `@{username} ⚠️ Almost! {hint}`,
+        collision: `@{username} 🚫 Not deployed
+
+{reason}`,
+    },
+};
@@ -0,0 +1,88 @@
+import { renderTemplate } from '../utils/template.js';
+import { en } from './en.js';
+import { zh } from './zh.js';
+import { LOCALES, type Locale, type LocalePack, type Messages } from './types.js';
+
+export * from './types.js';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_PACKS: Record<Locale, LocalePack> = { en, zh };
+
+export function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+export function localePack(locale: Locale = DEFAULT_LOCALE): LocalePack {
+    return LOCALE_PACKS[locale] ?? LOCALE_PACKS[DEFAULT_LOCALE];
+}
+
+/**
+ * Render a bot message in the user's language
+ */
+export function translate(
+    locale: Locale,
+    key: keyof Messages,
+    vars: Record<string, string | number | undefined> = {}
+): string {
+    return renderTemplate(localePack(locale).messages[key], vars);
+}
+
+/**
+ * Regex source for a command keyword
+ * Latin keywords must stand as whole words ("status", not "statuses");
+ * CJK keywords run straight into the text around them.
+ */
+export function keywordPattern(word: string): string {
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const before = /^[a-z]/i.test(word) ? '(?<![\\p{L}\\p{N}_])' : '';
+    const after = /[a-z]$/i.test(word) ? '(?![\\p{L}\\p{N}_])' : '';
+    return `${before}${escaped}${after}`;
+}
+
+/**
+ * Alternation of keywords, longest first so a keyword that starts another never wins early
+ */
+export function keywordAlternation(words: string[]): string {
+    return [...new Set(words)].sort((a, b) => b.length - a.length).map(keywordPattern).join('|');
+}
+
+/**
+ * What may sit between the bot's handle and the verb: punctuation and "please" in any language
+ */
+export const MENTION_LEAD_IN = `[,:，：]?\\s*(?:(?:${keywordAlternation(
+    Object.values(LOCALE_PACKS).flatMap((pack) => pack.politeness)
+)})\\s*)?`;
+
+/**
+ * Guess the language a command was written in
+ * Keywords decide first (another language's keywords, then English verbs);
+ * failing that, text in a pack's script suggests its language.
+ * @returns null when nothing in the text points anywhere
+ */
+export function detectLocale(text: string): Locale | null {
+    const others = Object.values(LOCALE_PACKS).filter((pack) => pack.locale !== DEFAULT_LOCALE);
+
+    for (const pack of others) {
+        const keywords = [...Object.values(pack.verbs).flat(), ...pack.casualDeployVerbs, ...Object.keys(pack.fields)];
+        if (containsKeyword(text, keywords)) {
+            return pack.locale;
+        }
+    }
+
+    const english = localePack(DEFAULT_LOCALE);
+    if (containsKeyword(text, [...Object.values(english.verbs).flat(), ...english.casualDeployVerbs])) {
+        return DEFAULT_LOCALE;
+    }
+
+    for (const pack of others) {
+        if (pack.script && new RegExp(`\\p{Script=${pack.script}}`, 'u').test(text)) {
+            return pack.locale;
+        }
+    }
+    return null;
+}
+
+function containsKeyword(text: string, keywords: string[]): boolean {
+    return keywords.length > 0 && new RegExp(keywordAlternation(keywords), 'iu').test(text);
+}
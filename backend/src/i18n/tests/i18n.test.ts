@@ -0,0 +1,44 @@
+import { LOCALE_PACKS, detectLocale, isLocale, keywordAlternation, translate } from '../index.js';
+
+describe('i18n', () => {
+    it('should give every locale the same message, hint and reply keys', () => {
+        const { en, ...others } = LOCALE_PACKS;
+        for (const pack of Object.values(others)) {
+            expect(Object.keys(pack.messages).sort()).toEqual(Object.keys(en.messages).sort());
+            expect(Object.keys(pack.hints).sort()).toEqual(Object.keys(en.hints).sort());
+            expect(Object.keys(pack.replies).sort()).toEqual(Object.keys(en.replies).sort());
+            expect(Object.keys(pack.verbs).sort()).toEqual(Object.keys(en.verbs).sort());
+        }
+    });
+
+    it('should fill placeholders in the requested language', () => {
+        expect(translate('en', 'status.notFound', { ref: '$PEPE' })).toBe('🔍 No deployment found for $PEPE.');
+        expect(translate('zh', 'status.notFound', { ref: '$PEPE' })).toBe('🔍 没有找到 $PEPE 的部署记录。');
+    });
+
+    it('should detect the language from command keywords first', () => {
+        expect(detectLocale('部署 $FROG 青蛙币')).toBe('zh');
+        expect(detectLocale('@MyBot deploy $FROG 青蛙币')).toBe('en');
+        expect(detectLocale('deploy\n名称：青蛙币\n代码：FROG')).toBe('zh');
+        expect(detectLocale('status $PEPE')).toBe('en');
+    });
+
+    it('should fall back to the script, or nothing', () => {
+        expect(detectLocale('你好')).toBe('zh');
+        expect(detectLocale('$PEPE')).toBeNull();
+        expect(detectLocale('statuses and deployments')).toBeNull();
+    });
+
+    it('should match Latin keywords as whole words only', () => {
+        const pattern = new RegExp(`^(?:${keywordAlternation(['desc', 'description', '名称'])})`, 'iu');
+        expect('description: x'.match(pattern)?.[0]).toBe('description');
+        expect(pattern.test('descx')).toBe(false);
+        expect('名称：青蛙'.match(pattern)?.[0]).toBe('名称');
+    });
+
+    it('should only accept known locales', () => {
+        expect(isLocale('zh')).toBe(true);
+        expect(isLocale('fr')).toBe(false);
+        expect(isLocale(null)).toBe(false);
+    });
+});
@@ -0,0 +1,133 @@
+import type { CommandField, ParseErrorCode, TokenField } from '../services/CommandParser.js';
+
+export const LOCALES = ['en', 'zh'] as const;
+export type Locale = typeof LOCALES[number];
+
+/**
+ * Reply texts with `{placeholder}` fields, overridable per bot account
+ */
+export interface ReplyTemplates {
+    success: string; // {feeRecipient} {name} {ticker} {tokenAddress} {shortTokenAddress} {poolId} {explorerUrl} {feeHook} {ref}
+    walletRequired: string; // {username}
+    failure: string; // {username} {reason}
+    correction: string; // {username} {hint}
+    collision: string; // {username} {reason}
+}
+
+/**
+ * Parse error corrections, keyed by error code plus the variants and pieces they're built from
+ */
+export type HintKey =
+    | ParseErrorCode
+    | 'INVALID_SOCIAL_URL' // INVALID_URL on twitter/telegram
+    | 'MIXED_SCRIPTS_NAME' // MIXED_SCRIPTS and PROTECTED_TICKER on the name rather than the ticker
+    | 'PROTECTED_TICKER_NAME'
+    | 'EXAMPLE_TWEET'
+    | 'EXAMPLE_DM'
+    | 'ACTION_TWEET'
+    | 'ACTION_DM'
+    | 'LETTERS_LATIN'
+    | 'LETTERS_SCRIPTS';
+
+/**
+ * Texts the bot sends outside the reply templates
+ */
+export interface Messages {
+    'help.header': string;
+    'help.aliases': string; // {aliases}
+    'help.mention': string; // {commands}
+    'dm.unknown': string; // {help}
+    'start.exists': string; // {address}
+    'start.created': string; // {address} {symbol}
+    'start.failed': string;
+    'deploy.invalid': string; // {hint}
+    'deploy.noWallet': string;
+    'deploy.insufficientFunds': string; // {balance} {required} {symbol}
+    'deploy.deploying': string; // {ticker}
+    'deploy.success': string; // {tokenAddress} {txHash} {explorerUrl}
+    'deploy.failed': string; // {error}
+    'deploy.error': string; // {error}
+    'deploy.collision': string; // {reason}
+    'deploy.rejected': string; // {reason}
+    'link.usage': string;
+    'link.success': string; // {address}
+    'link.failed': string;
+    'status.usage': string;
+    'status.notFound': string; // {ref}
+    'status.summary': string; // {ticker} {name} {status}
+    'status.reason': string; // {reason}
+    'status.pending': string;
+    'status.processing': string;
+    'status.deployed': string;
+    'status.failed': string;
+    'status.wallet_missing': string;
+    'status.rejected': string;
+    'balance.noWallet': string;
+    'balance.custodial': string; // {balance} {symbol} {address}
+    'balance.linked': string; // {balance} {symbol} {address}
+    'history.empty': string;
+    'history.header': string;
+    'failure.feeOverride': string; // {handle}
+    'failure.rateLimited': string;
+    'failure.onChain': string;
+    'collision.ticker': string; // {ticker}
+    'collision.parent': string;
+    'collision.name': string; // {name}
+    'collision.existing': string; // {tokenAddress}
+    'collision.pending': string; // {tweetId}
+    'collision.warning': string; // {reason}
+    'moderation.blocked': string;
+    'moderation.optedOut': string; // {username}
+    'wizard.start': string; // {prompt}
+    'wizard.name': string;
+    'wizard.ticker': string;
+    'wizard.image': string;
+    'wizard.website': string;
+    'wizard.twitter': string;
+    'wizard.telegram': string;
+    'wizard.invalid': string; // {hint} {prompt}
+    'wizard.summary': string; // {summary}
+    'wizard.cancelled': string;
+    'withdraw.usage': string;
+    'withdraw.noWallet': string;
+    'withdraw.ownAddress': string;
+    'withdraw.insufficient': string; // {balance} {fee} {max} {symbol}
+    'withdraw.confirm': string; // {amount} {symbol} {to} {fee} {code} {minutes}
+    'withdraw.noPending': string;
+    'withdraw.wrongCode': string; // {attempts}
+    'withdraw.locked': string;
+    'withdraw.cancelled': string;
+    'withdraw.sending': string; // {amount} {symbol} {to}
+    'withdraw.success': string; // {amount} {symbol} {to} {txHash} {explorerUrl}
+    'withdraw.failed': string; // {error}
+    'export.noWallet': string;
+    'export.unavailable': string;
+    'export.rateLimited': string; // {max}
+    'export.warning': string; // {phrase} {seconds} {minutes}
+    'export.tooSoon': string; // {seconds}
+    'export.wrongPhrase': string; // {phrase}
+    'export.noPending': string;
+    'export.cancelled': string;
+    'export.link': string; // {url} {minutes}
+}
+
+/**
+ * Everything one language contributes: command keywords and the texts to answer with
+ */
+export interface LocalePack {
+    locale: Locale;
+    script?: string; // Unicode script that, on its own, suggests this locale
+    // Command keywords by canonical verb; these `deploy` keywords always count as a command
+    verbs: Record<string, string[]>;
+    casualDeployVerbs: string[]; // Deploy only with a cashtag or ticker field
+    politeness: string[]; // Allowed between the handle and the verb
+    fields: Record<string, CommandField>;
+    commands: Partial<Record<string, { usage: string; description: string }>>; // Help text; English comes from the router
+    // Answers understood by the DM deploy wizard, and how it labels fields in its summary
+    wizard: { confirm: string[]; cancel: string[]; skip: string[]; labels: Record<TokenField, string> };
+    withdrawAll: string[]; // `withdraw all 0x...`
+    exportPhrase: string; // Typed to confirm a private key export
+    hints: Record<HintKey, string>;
+    messages: Messages;
+    replies: ReplyTemplates;
+}
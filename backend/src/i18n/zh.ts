@@ -0,0 +1,180 @@
+import type { LocalePack } from './types.js';
+
+export const zh: LocalePack = {
+    locale: 'zh',
+    script: 'Han',
+    verbs: {
+        deploy: ['部署', '发币', '发行'],
+        start: ['开始'],
+        status: ['状态', '查询'],
+        balance: ['余额'],
+        history: ['历史', '记录'],
+        link: ['绑定'],
+        withdraw: ['提现', '提币'],
+        export: ['导出', '导出私钥'],
+        help: ['帮助'],
+    },
+    casualDeployVerbs: ['创建', '发射'],
+    politeness: ['请', '麻烦'],
+    fields: {
+        代币: 'ticker',
+        代码: 'ticker',
+        符号: 'ticker',
+        名称: 'name',
+        名字: 'name',
+        简介: 'description',
+        描述: 'description',
+        图片: 'image',
+        头像: 'image',
+        推特: 'twitter',
+        电报: 'telegram',
+        网站: 'website',
+        官网: 'website',
+        手续费: 'fee',
+    },
+    commands: {
+        start: { usage: '开始', description: '创建你的充值钱包' },
+        deploy: { usage: '部署 $代码 代币名称', description: '发行代币（可另起一行加 简介：、图片：、网站：、推特：、电报：）' },
+        status: { usage: '状态 <推文或代币>', description: '按推文链接、合约地址或 $代码 查询部署' },
+        balance: { usage: '余额', description: '查看钱包余额' },
+        history: { usage: '历史', description: '你最近的部署记录' },
+        link: { usage: '绑定 0x...', description: '改用外部钱包' },
+        withdraw: { usage: '提现 <数量|全部> 0x...', description: '把钱包里的币转出' },
+        export: { usage: '导出', description: '导出钱包私钥（如导入 MetaMask）' },
+        help: { usage: '帮助', description: '显示本列表' },
+    },
+    wizard: {
+        confirm: ['确认', '确定'],
+        cancel: ['取消'],
+        skip: ['跳过', '无'],
+        labels: { ticker: '代码', name: '名称', description: '简介', image: '图片', website: '网站', twitter: '推特', telegram: '电报' },
+    },
+    withdrawAll: ['全部'],
+    exportPhrase: '我了解风险',
+    hints: {
+        NOT_A_COMMAND: '发币请{action}：{example}',
+        MISSING_TICKER: '没有找到代币代码。试试：{example}',
+        MISSING_NAME: '没有找到代币名称。试试：{example}',
+        TICKER_TOO_LONG: '代码“{value}”有 {length} 个字符，上限是 {limit}。',
+        INVALID_TICKER_CHARS: '代码“{value}”只能使用{letters}和数字 0-9。',
+        NAME_TOO_LONG: '代币名称有 {length} 个字符，上限是 {limit}。',
+        INVALID_NAME_CHARS: '代币名称“{value}”只能使用{letters}、数字、空格和 - _ .',
+        MIXED_SCRIPTS: '代码“{value}”混用了不同字母表中外形相似的字母。',
+        MIXED_SCRIPTS_NAME: '代币名称“{value}”混用了不同字母表中外形相似的字母。',
+        PROTECTED_TICKER: '“{value}”与 {similarTo} 过于相似，不能使用。请换一个代码。',
+        PROTECTED_TICKER_NAME: '“{value}”与 {similarTo} 过于相似，不能使用。请换一个名称。',
+        DESCRIPTION_TOO_LONG: '简介有 {length} 个字符，上限是 {limit}。',
+        INVALID_URL: '{field}：需要完整的 http(s):// 链接，收到的是“{value}”。',
+        INVALID_SOCIAL_URL: '{field}：需要 @用户名 或 {host} 链接，收到的是“{value}”。',
+        INVALID_FEE_RECIPIENT: '“{value}”不是有效的 X 用户名（手续费：）。',
+        FEE_RECIPIENT_IS_BOT: '手续费不能给 @{bot}。请用 手续费：@用户名 指定其他账号。',
+        EXAMPLE_TWEET: '@{bot} 部署 $代码 代币名称',
+        EXAMPLE_DM: '部署 $代码 代币名称',
+        ACTION_TWEET: '发推',
+        ACTION_DM: '发送',
+        LETTERS_LATIN: '字母 A-Z',
+        LETTERS_SCRIPTS: '以下文字的字母（{scripts}）',
+    },
+    messages: {
+        'help.header': '指令：',
+        'help.aliases': '（或 {aliases}）',
+        'help.mention': '@我并使用：{commands}',
+        'dm.unknown': '🤔 没看懂这条消息。\n\n{help}',
+        'start.exists': 'ℹ️ 你已经有钱包了。\n地址：{address}\n\n部署请发送：\n部署\n名称：<代币名称>\n代码：<代币代码>\n简介：<简介>\n图片：<图片链接>',
+        'start.created': '✅ 钱包已生成！\n\n地址：{address}\n\n请充值约 0.02 {symbol} 作为部署费用。\n\n部署请发送：\n部署\n名称：你的代币\n代码：TICKER\n简介：简介\n图片：https://...',
+        'start.failed': '❌ 创建钱包失败，请重试。',
+        'deploy.invalid': '❌ {hint}\n\n格式：\n部署\n名称：...\n代码：...\n图片：...（可选）\n简介：...（可选）',
+        'deploy.noWallet': '❌ 没有找到钱包。发送“开始”创建一个。',
+        'deploy.insufficientFunds': '❌ 余额不足。\n余额：{balance} {symbol}\n需要：{required} {symbol}',
+        'deploy.deploying': '⏳ 正在部署 {ticker}……请稍候。',
+        'deploy.success': '✅ 部署成功！\n\n代币：{tokenAddress}\n哈希：{txHash}\n\n在区块浏览器查看：{explorerUrl}/tx/{txHash}',
+        'deploy.failed': '❌ 部署失败：{error}',
+        'deploy.error': '❌ 出错了：{error}',
+        'deploy.collision': '🚫 未部署\n\n{reason}',
+        'deploy.rejected': '🚫 未部署：{reason}',
+        'link.usage': '❌ 请发送：绑定 <钱包地址>，例如 绑定 0x1234...abcd',
+        'link.success': '✅ 已绑定外部钱包：{address}',
+        'link.failed': '❌ 绑定钱包失败。',
+        'status.usage': '请在“状态”后附上部署推文链接、合约地址或 $代码。',
+        'status.notFound': '🔍 没有找到 {ref} 的部署记录。',
+        'status.summary': '${ticker}（{name}）：{status}',
+        'status.reason': '原因：{reason}',
+        'status.pending': '⏳ 排队中',
+        'status.processing': '⚙️ 部署中',
+        'status.deployed': '✅ 已部署',
+        'status.failed': '❌ 失败',
+        'status.wallet_missing': '👛 等待手续费接收方绑定钱包',
+        'status.rejected': '🚫 已拒绝',
+        'balance.noWallet': '还没有钱包。私信我“开始”创建一个。',
+        'balance.custodial': '💰 {balance} {symbol}\n钱包：{address}',
+        'balance.linked': '💰 {balance} {symbol}\n已绑定钱包：{address}',
+        'history.empty': '还没有部署记录。',
+        'history.header': '你最近的部署：',
+        'failure.feeOverride': '无法把 @{handle} 设为手续费接收方。请在同一条推文里 @ 对方。',
+        'failure.rateLimited': '操作太频繁，请稍后再部署。',
+        'failure.onChain': '链上部署失败，请重试。',
+        'collision.ticker': '${ticker} 最近已经发行过了。',
+        'collision.parent': '这条推文已经有代币了。',
+        'collision.name': '名为“{name}”的代币最近已经发行过了。',
+        'collision.existing': '已有代币：{tokenAddress}',
+        'collision.pending': '之前的代币还在部署中：https://x.com/i/status/{tweetId}',
+        'collision.warning': '⚠️ 提醒：{reason}',
+        'moderation.blocked': '不允许使用这个名称或代码。',
+        'moderation.optedOut': '@{username} 已拒绝用其推文发行代币。',
+        'wizard.start': '🪙 开始发行代币。随时发送“取消”可以退出。\n\n{prompt}',
+        'wizard.name': '1/6 代币叫什么名字？',
+        'wizard.ticker': '2/6 代币代码是什么？（例如 PEPE）',
+        'wizard.image': '3/6 发送代币图片链接（https://...），或发送“跳过”使用默认图片。',
+        'wizard.website': '4/6 网站链接，或发送“跳过”。',
+        'wizard.twitter': '5/6 X 账号（@账号或链接），或发送“跳过”。',
+        'wizard.telegram': '6/6 电报群（@账号或 t.me 链接），或发送“跳过”。',
+        'wizard.invalid': '❌ {hint}\n\n{prompt}',
+        'wizard.summary': '即将部署：\n{summary}\n\n发送“确认”开始部署，或发送“取消”退出。',
+        'wizard.cancelled': '已取消，没有部署任何代币。',
+        'withdraw.usage': '用法：提现 <数量|全部> <0x 地址>\n例如：提现 0.05 0x... 或 提现 全部 0x...',
+        'withdraw.noWallet': '❌ 只有通过“开始”创建的钱包可以提现。绑定的外部钱包本来就归你所有。',
+        'withdraw.ownAddress': '❌ 这是你的充值钱包，请填写其他地址。',
+        'withdraw.insufficient': '❌ 余额不足以支付该数量和网络手续费。\n余额：{balance} {symbol}\n网络手续费：{fee} {symbol}\n最多可提：{max} {symbol}',
+        'withdraw.confirm': '⚠️ 确认将 {amount} {symbol} 转到 {to}？\n网络手续费：{fee} {symbol}\n\n请在 {minutes} 分钟内发送以下验证码确认：\n{code}\n\n取消请发送“提现 取消”。',
+        'withdraw.noPending': 'ℹ️ 没有等待验证码的提现。发起提现：提现 <数量|全部> <0x 地址>',
+        'withdraw.wrongCode': '❌ 验证码错误，还可以尝试 {attempts} 次。',
+        'withdraw.locked': '❌ 验证码错误次数过多，本次提现已取消。如仍需提现请重新发起。',
+        'withdraw.cancelled': '提现已取消。',
+        'withdraw.sending': '⏳ 正在将 {amount} {symbol} 转到 {to}……',
+        'withdraw.success': '✅ 提现已发出！\n\n{amount} {symbol} 转到 {to}\n哈希：{txHash}\n\n在区块浏览器查看：{explorerUrl}/tx/{txHash}',
+        'withdraw.failed': '❌ 提现失败：{error}',
+        'export.noWallet': '❌ 只有通过“开始”创建的钱包才有可导出的私钥。绑定的外部钱包私钥本来就在你手里。',
+        'export.unavailable': '❌ 此机器人未开放私钥导出。',
+        'export.rateLimited': '❌ 每天最多导出 {max} 次私钥，请明天再试。',
+        'export.warning': '🚨 请先停下来仔细阅读 🚨\n\n私钥就是你充值钱包的全部控制权。任何人看到它都能转走钱包里的所有资产，且无法追回。\n\n• 绝不要把私钥发给任何人、粘贴到网站或交给“客服”。我们永远不会索要私钥。\n• 只导入到你自己安装的钱包应用，例如 MetaMask。\n• 导出之后，机器人无法再替你保护这个钱包。\n\n如果仍要导出，请等待 {seconds} 秒，然后原样发送：\n{phrase}\n\n本次请求 {minutes} 分钟后失效。取消请发送“导出 取消”。',
+        'export.tooSoon': '⏳ 请再读一遍上面的警告，{seconds} 秒后再发送确认语。',
+        'export.wrongPhrase': '❌ 确认语不对。如要导出私钥，请原样发送：\n{phrase}',
+        'export.noPending': 'ℹ️ 没有等待确认的私钥导出。发送“导出”开始。',
+        'export.cancelled': '私钥导出已取消。',
+        'export.link': '🔑 你的一次性链接：\n{url}\n\n仅能打开一次，{minutes} 分钟后失效。请在你信任的设备上、没有旁人能看到屏幕的地方打开。如果不是你本人发起的，请忽略此链接。',
+    },
+    replies: {
+        success: `@{feeRecipient} 代币 {name} (\${ticker}) 已部署！🚀
+私信我 'claim {tokenAddress}' 以获取所有权。
+
+交易：{explorerUrl}/tx/{poolId}
+CA：{tokenAddress}
+税收钱包：{feeHook}
+
+[Ref: {ref}]`,
+        walletRequired: `@{username} ❌ 部署失败
+
+原推文作者还没有绑定钱包。
+
+需要先在 [link] 绑定钱包才能部署代币。`,
+        failure: `@{username} ❌ 部署失败
+
+{reason}
+
+请稍后再试。`,
+        correction: `@{username} ⚠️ 差一点！{hint}`,
+        collision: `@{username} 🚫 未部署
+
+{reason}`,
+    },
+};
@@ -1,13 +1,20 @@
 import express from 'express';
 import cors from 'cors';
+import type { Server } from 'http';
 import { config } from './config/index.js';
 import { XListener } from './services/XListener.js';
 import { walletLinkRouter } from './api/walletLink.js';
-import { blockchainDeployer } from './services/BlockchainDeployer.js';
-import { deploymentQueue } from './workers/queue.js';
-import './workers/deploymentWorker.js'; // Start the worker
+import { webhookRouter } from './api/webhooks.js';
+import { adminRouter } from './api/admin.js';
+import { keyExportRouter } from './api/keyExport.js';
+import { botRegistry } from './services/BotRegistry.js';
+import { deploymentQueue, closeQueue } from './workers/queue.js';
+import { deploymentWorker } from './workers/deploymentWorker.js'; // Importing starts the worker
+import { db } from './db/client.js';
 
 const app = express();
+let server: Server | undefined;
+const xListeners = new Map<string, XListener>(); // By bot account id
 
 // Middleware
 app.use(cors());
@@ -16,17 +23,23 @@ app.use(express.json());
 // Health check
 app.get('/health', async (req, res) => {
     try {
-        const balance = await blockchainDeployer.getBalance();
         const queueStats = await deploymentQueue.getJobCounts();
+        const bots = await Promise.all(botRegistry.all().map(async (bot) => ({
+            id: bot.id,
+            username: bot.username,
+            chainId: bot.deployer.chain.chainId,
+            botWallet: {
+                address: bot.deployer.getAddress(),
+                balance: (await bot.deployer.getBalance()).toString(),
+            },
+            ingestion: xListeners.get(bot.id)?.getHealth() || null,
+        })));
 
         res.json({
             status: 'ok',
             timestamp: new Date().toISOString(),
-            botWallet: {
-                address: blockchainDeployer.getAddress(),
-                balance: balance.toString(),
-            },
             queue: queueStats,
+            bots,
         });
     } catch (error) {
         res.status(500).json({
@@ -38,31 +51,40 @@ app.get('/health', async (req, res) => {
 
 // API routes
 app.use('/api/link', walletLinkRouter);
+app.use('/webhooks', webhookRouter);
+app.use('/api/admin', adminRouter);
+app.use('/api/export', keyExportRouter);
 
 // Start the server and X listener
 async function main() {
     console.log('🚀 Starting X Deploy Bot...');
     console.log(`   Environment: ${config.NODE_ENV}`);
-    console.log(`   Chain ID: ${config.CHAIN_ID}`);
-    console.log(`   Bot username: @${config.X_BOT_USERNAME}`);
 
-    // Check bot wallet balance
-    const balance = await blockchainDeployer.getBalance();
-    console.log(`   Bot wallet: ${blockchainDeployer.getAddress()}`);
-    console.log(`   Balance: ${Number(balance) / 1e18} ETH`);
+    for (const bot of botRegistry.all()) {
+        const { chain } = bot.deployer;
+        console.log(`   Bot @${bot.username} (${bot.id}) on chain ${chain.chainId}`);
+
+        // Check bot wallet balance
+        const balance = await bot.deployer.getBalance();
+        console.log(`   Bot wallet: ${bot.deployer.getAddress()}`);
+        console.log(`   Balance: ${Number(balance) / 1e18} ${chain.nativeSymbol}`);
 
-    if (balance < BigInt(config.DEPLOY_FEE_WEI) * BigInt(10)) {
-        console.warn('⚠️ Warning: Bot wallet balance is low!');
+        if (balance < BigInt(chain.deployFeeWei ?? config.DEPLOY_FEE_WEI) * BigInt(10)) {
+            console.warn(`⚠️ Warning: Bot wallet balance is low on chain ${chain.chainId}!`);
+        }
     }
 
     // Start Express server
-    app.listen(config.PORT, () => {
+    server = app.listen(config.PORT, () => {
         console.log(`📡 API server running on port ${config.PORT}`);
     });
 
-    // Start X listener
-    const xListener = new XListener();
-    await xListener.start();
+    // Start one X listener per bot account
+    for (const bot of botRegistry.all()) {
+        const listener = new XListener(bot);
+        xListeners.set(bot.id, listener);
+        await listener.start();
+    }
 }
 
 // Global error handlers
@@ -76,15 +98,79 @@ process.on('uncaughtException', (error) => {
 });
 
 // Graceful shutdown
-process.on('SIGTERM', async () => {
-    console.log('SIGTERM received, shutting down...');
-    process.exit(0);
-});
+let shuttingDown = false;
 
-process.on('SIGINT', async () => {
-    console.log('SIGINT received, shutting down...');
-    process.exit(0);
-});
+/**
+ * Resolve after `ms` even if the work hasn't finished
+ * @returns true if the work finished in time
+ */
+async function withTimeout(work: Promise<unknown>, ms: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<false>(resolve => { timer = setTimeout(() => resolve(false), ms); });
+    try {
+        return await Promise.race([work.then(() => true), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Stop taking new work, let in-flight deployments finish, then close connections.
+ * In-flight jobs that outlive the timeout have already checkpointed their tx hash;
+ * the next worker retries them, waits for that receipt and sends the reply.
+ */
+async function shutdown(signal: string): Promise<void> {
+    if (shuttingDown) {
+        console.warn(`${signal} received again, forcing exit`);
+        process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`${signal} received, shutting down...`);
+
+    try {
+        // 1. Stop ingesting mentions and DMs
+        if (xListeners.size) {
+            const stopped = Promise.all([...xListeners.values()].map((listener) => listener.stop()));
+            if (!(await withTimeout(stopped, config.SHUTDOWN_TIMEOUT_MS))) {
+                console.warn('⚠️ Listeners did not drain in time');
+            }
+        }
+
+        // 2. Stop accepting HTTP requests; idle keep-alive sockets would hold close() open
+        if (server) {
+            const closed = new Promise<void>((resolve) => server!.close(() => resolve()));
+            server.closeIdleConnections();
+            if (await withTimeout(closed, config.SHUTDOWN_TIMEOUT_MS)) {
+                console.log('📡 API server closed');
+            } else {
+                console.warn('⚠️ API requests still open, closing their connections');
+                server.closeAllConnections();
+            }
+        }
+
+        // 3. Let active deployment jobs finish
+        if (deploymentWorker) {
+            console.log('⏳ Waiting for active deployment jobs...');
+            if (!(await withTimeout(deploymentWorker.close(), config.SHUTDOWN_TIMEOUT_MS))) {
+                console.warn('⚠️ Deployment jobs still running, forcing worker close');
+                await deploymentWorker.close(true);
+            }
+        }
+
+        // 4. Close Redis, queue events and Postgres
+        await closeQueue();
+        await db.close();
+
+        console.log('👋 Shutdown complete');
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Error during shutdown:', error);
+        process.exit(1);
+    }
+}
+
+process.on('SIGTERM', () => { void shutdown('SIGTERM'); });
+process.on('SIGINT', () => { void shutdown('SIGINT'); });
 
 // Start the application
 main().catch((error) => {
@@ -0,0 +1,38 @@
+import type { DirectMessage, TweetMention } from '../types/index.js';
+
+/**
+ * Receives normalized events from ingestion sources
+ * Implemented by XListener, which owns the shared command-handling pipeline.
+ */
+export interface IngestionSink {
+    /**
+     * Handle a tweet that mentions the bot
+     * @returns false if handling failed and the source should redeliver it later
+     */
+    onMention(mention: TweetMention, source: IngestionSource): Promise<boolean>;
+
+    /**
+     * Handle a DM sent to the bot
+     * @returns false if handling failed and the source should redeliver it later
+     */
+    onDirectMessage(dm: DirectMessage, source: IngestionSource): Promise<boolean>;
+}
+
+/**
+ * IngestionSource - One way of receiving mentions and DMs from X
+ * Sources only fetch and normalize; deduplication and command handling
+ * happen in the sink so several sources can run side by side.
+ */
+export interface IngestionSource {
+    readonly name: string;
+
+    start(sink: IngestionSink): Promise<void>;
+    stop(): Promise<void>;
+
+    /** Source-specific status for /health */
+    health?(): SourceHealth;
+}
+
+export type SourceHealth = { healthy: boolean } & Record<string, unknown>;
+
+export type IngestionSourceKind = 'mock' | 'twitterapiio' | 'webhook' | 'stream';
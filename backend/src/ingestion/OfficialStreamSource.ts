@@ -0,0 +1,109 @@
+import { TwitterApi, ETwitterStreamEvent, type TweetStream, type TweetV2SingleStreamResult } from 'twitter-api-v2';
+import type { IngestionSink, IngestionSource } from './IngestionSource.js';
+import { fromStreamTweet } from './normalize.js';
+
+/**
+ * OfficialStreamSource - Uses X API v2 Filtered Stream ($100/mo)
+ * Makes a single connection; reconnecting is left to StreamSupervisor,
+ * which is told through `onDisconnect` when the connection drops.
+ */
+export class OfficialStreamSource implements IngestionSource {
+    readonly name = 'stream';
+
+    private appClient: TwitterApi;
+    private stream?: TweetStream<TweetV2SingleStreamResult>;
+    private sink?: IngestionSink;
+    private rulesReady = false;
+
+    /** Called once when an established connection is closed or lost */
+    onDisconnect?: (reason: string) => void;
+
+    /**
+     * X allows one filtered stream connection per app, so each bot account
+     * streaming this way needs its own app and bearer token.
+     */
+    constructor(
+        private readonly botUsername: string,
+        private readonly bearerToken?: string
+    ) {
+        this.appClient = new TwitterApi(bearerToken || '');
+    }
+
+    /**
+     * Start official X API filtered stream
+     */
+    async start(sink: IngestionSink): Promise<void> {
+        this.sink = sink;
+
+        try {
+            if (!this.bearerToken) {
+                throw new Error('Missing X API credentials');
+            }
+
+            if (!this.rulesReady) {
+                await this.setupStreamRules();
+                this.rulesReady = true;
+            }
+
+            const stream = await this.appClient.v2.searchStream({
+                'tweet.fields': ['author_id', 'created_at', 'in_reply_to_user_id', 'referenced_tweets', 'conversation_id', 'entities', 'attachments'],
+                'user.fields': ['username'],
+                'media.fields': ['type', 'url', 'width', 'height'],
+                expansions: ['author_id', 'referenced_tweets.id', 'attachments.media_keys'],
+                autoConnect: false,
+            });
+            stream.on(ETwitterStreamEvent.Data, (tweet) => this.handleTweet(tweet));
+            stream.on(ETwitterStreamEvent.Error, (error) => this.handleError(error));
+            stream.on(ETwitterStreamEvent.ConnectionClosed, () => this.handleDisconnect(stream, 'connection closed'));
+            stream.on(ETwitterStreamEvent.ConnectionLost, () => this.handleDisconnect(stream, 'keep-alive timeout'));
+
+            await stream.connect({ autoReconnect: false });
+            this.stream = stream;
+
+            console.log('✅ Filtered stream connected.');
+
+        } catch (error) {
+            console.error('❌ Failed to start stream:', error);
+            throw error;
+        }
+    }
+
+    async stop(): Promise<void> {
+        const stream = this.stream;
+        this.stream = undefined;
+        stream?.close();
+    }
+
+    private async setupStreamRules(): Promise<void> {
+        const rules = await this.appClient.v2.streamRules();
+        if (rules.data?.length) {
+            await this.appClient.v2.updateStreamRules({
+                delete: { ids: rules.data.map((rule) => rule.id) },
+            });
+        }
+        // The bare handle, so verbs in every locale pack reach the router
+        await this.appClient.v2.updateStreamRules({
+            add: [{ value: `@${this.botUsername}`, tag: 'mention' }],
+        });
+        console.log(`📋 Stream rules set for @${this.botUsername}`);
+    }
+
+    private async handleTweet(data: TweetV2SingleStreamResult): Promise<void> {
+        console.log(`📨 Received tweet: ${data.data.id}`);
+        await this.sink?.onMention(fromStreamTweet(data), this);
+    }
+
+    private handleError(error: unknown): void {
+        console.error('❌ Stream error:', error instanceof Error ? error.message : error);
+    }
+
+    private handleDisconnect(stream: TweetStream<TweetV2SingleStreamResult>, reason: string): void {
+        // Ignore events from a stream we've already replaced or stopped
+        if (stream !== this.stream) return;
+
+        this.stream = undefined;
+        stream.close();
+        console.log(`🔌 Stream disconnected: ${reason}`);
+        this.onDisconnect?.(reason);
+    }
+}
@@ -0,0 +1,153 @@
+import path from 'path';
+import { config } from '../config/index.js';
+import { db } from '../db/client.js';
+import { walletService } from '../services/WalletService.js';
+import { loadScenario, type Scenario, type ScenarioEvent, type ScenarioTweet } from '../simulator/Scenario.js';
+import { simulatedX, type OutgoingMessage } from '../simulator/SimulatedX.js';
+import type { TweetMention } from '../types/index.js';
+import type { IngestionSink, IngestionSource } from './IngestionSource.js';
+
+const DEFAULT_SCENARIO = 'scenarios/default.json';
+
+/**
+ * ScenarioSource - Replays a scenario file through the real handlers (MOCK_X_API=true)
+ * Users and parent tweets are loaded into SimulatedX, then each mention and
+ * DM is delivered at its scheduled offset. Outgoing replies/DMs are recorded
+ * in SimulatedX and printed as a transcript once every event has been handled.
+ * Tests turn off realtime to play the events back to back and await done().
+ */
+export class ScenarioSource implements IngestionSource {
+    readonly name = 'mock';
+
+    private timers: NodeJS.Timeout[] = [];
+    private finished?: Promise<OutgoingMessage[]>;
+
+    constructor(
+        private readonly botUsername: string,
+        private readonly options: { scenarioPath?: string; realtime?: boolean } = {}
+    ) { }
+
+    async start(sink: IngestionSink): Promise<void> {
+        const scenario = await this.load();
+
+        this.finished = this.play(sink, scenario).then(() => simulatedX.getOutbox());
+        this.finished.then(() => this.printTranscript());
+    }
+
+    async stop(): Promise<void> {
+        this.timers.forEach(clearTimeout);
+        this.timers = [];
+    }
+
+    /**
+     * Resolves with everything the bot sent, once every event has been handled
+     */
+    done(): Promise<OutgoingMessage[]> {
+        if (!this.finished) {
+            return Promise.reject(new Error('Scenario has not been started'));
+        }
+        return this.finished;
+    }
+
+    /**
+     * Deliver each event at its offset, or in order one after another without realtime
+     */
+    private async play(sink: IngestionSink, scenario: Scenario): Promise<void> {
+        if (this.options.realtime === false) {
+            for (const event of scenario.events) {
+                await this.deliver(sink, event);
+            }
+            return;
+        }
+
+        await Promise.all(scenario.events.map((event) => new Promise<void>((resolve) => {
+            this.timers.push(setTimeout(() => this.deliver(sink, event).then(resolve), event.at));
+        })));
+    }
+
+    private async load(): Promise<Scenario> {
+        const scenarioPath = path.resolve(this.options.scenarioPath || config.MOCK_SCENARIO || DEFAULT_SCENARIO);
+        const scenario = loadScenario(scenarioPath);
+
+        console.log(`🎭 Starting X Listener in MOCK MODE...`);
+        console.log(`   Scenario: ${scenario.name} (${scenario.events.length} event(s)) from ${scenarioPath}`);
+
+        await this.seed(scenario);
+        return scenario;
+    }
+
+    private async deliver(sink: IngestionSink, event: ScenarioEvent): Promise<void> {
+        try {
+            if (event.type === 'mention') {
+                await this.deliverMention(sink, event.tweet);
+            } else {
+                await sink.onDirectMessage({
+                    id: event.dm.id,
+                    sender_id: event.dm.senderId,
+                    text: this.withBot(event.dm.text),
+                    created_at: new Date().toISOString(),
+                }, this);
+            }
+        } catch (err) {
+            console.error('Error:', err);
+        }
+    }
+
+    /**
+     * Load profiles and tweets, and give scenario users their wallets
+     */
+    private async seed(scenario: Scenario): Promise<void> {
+        simulatedX.reset();
+
+        for (const user of scenario.users) {
+            simulatedX.addUser(user);
+
+            if (user.custodialWallet) {
+                const { address, privateKey } = walletService.createWallet();
+                await db.upsertUser(user.id, address, walletService.encrypt(privateKey));
+            } else if (user.wallet) {
+                await db.upsertUser(user.id, user.wallet, null);
+            }
+        }
+
+        for (const tweet of scenario.tweets) {
+            simulatedX.addTweet({ ...tweet, text: this.withBot(tweet.text) });
+        }
+    }
+
+    private async deliverMention(sink: IngestionSink, tweet: ScenarioTweet): Promise<boolean> {
+        const text = this.withBot(tweet.text);
+        simulatedX.addTweet({ ...tweet, text });
+
+        const mention: TweetMention = {
+            tweet_id: tweet.id,
+            author_id: tweet.authorId,
+            author_username: simulatedX.getUser(tweet.authorId)?.username || 'unknown',
+            text,
+            in_reply_to_tweet_id: tweet.inReplyToId || null,
+            quoted_tweet_id: tweet.quotedId || null,
+            // Like X, only link @handles that belong to a known account
+            mentioned_users: [...text.matchAll(/@(\w{1,15})/g)]
+                .map((m) => simulatedX.findUserByUsername(m[1]))
+                .filter((u) => u !== undefined)
+                .map((u) => ({ id: u.id, username: u.username })),
+            media: tweet.media,
+            created_at: new Date().toISOString(),
+        };
+
+        console.log('\n🐦 Mock Tweet Received:', mention.text);
+        return sink.onMention(mention, this);
+    }
+
+    private printTranscript(): void {
+        const outbox = simulatedX.getOutbox();
+        console.log(`\n🎭 Scenario finished, bot sent ${outbox.length} message(s)`);
+        if (outbox.length) {
+            console.log(simulatedX.formatTranscript());
+        }
+    }
+
+    private withBot(text: string): string {
+        return text.replace(/\{bot\}/g, this.botUsername);
+    }
+}
@@ -0,0 +1,160 @@
+import { config } from '../config/index.js';
+import { backoffDelay } from '../utils/backoff.js';
+import type { IngestionSink, IngestionSource, SourceHealth } from './IngestionSource.js';
+
+const STABLE_AFTER_MS = 60 * 1000; // A connection that drops sooner counts as a failed attempt
+
+/**
+ * The stream connection being supervised; OfficialStreamSource in production
+ */
+export interface SupervisedStream extends IngestionSource {
+    onDisconnect?: (reason: string) => void;
+}
+
+export type StreamState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'stopped';
+
+/**
+ * StreamSupervisor - Keeps the filtered stream alive
+ * Reconnects with jittered exponential backoff whenever the connection
+ * fails or drops. A connection that drops within STABLE_AFTER_MS counts as
+ * a failed attempt too, so a stream that keeps connecting and dropping
+ * still fails over. After STREAM_FAILOVER_AFTER failed attempts in a row the
+ * fallback source (twitterapi.io polling) is started so mentions keep
+ * flowing; it is stopped again once the stream has stayed up. Both feed the
+ * same sink, so overlap around the switch is deduplicated there.
+ */
+export class StreamSupervisor implements IngestionSource {
+    readonly name = 'stream';
+
+    private sink?: IngestionSink;
+    private state: StreamState = 'idle';
+    private failures = 0; // Consecutive failed connection attempts
+    private failoverActive = false;
+    private retryTimer?: NodeJS.Timeout;
+    private stableTimer?: NodeJS.Timeout;
+    private nextRetryAt: Date | null = null;
+    private connectedAt: Date | null = null;
+    private disconnectedAt: Date | null = null;
+    private lastError: string | null = null;
+
+    constructor(
+        private readonly stream: SupervisedStream,
+        private readonly fallback?: IngestionSource
+    ) {
+        this.stream.onDisconnect = (reason) => this.handleDisconnect(reason);
+    }
+
+    async start(sink: IngestionSink): Promise<void> {
+        this.sink = sink;
+        await this.connect();
+    }
+
+    async stop(): Promise<void> {
+        this.state = 'stopped';
+        clearTimeout(this.retryTimer);
+        clearTimeout(this.stableTimer);
+        this.nextRetryAt = null;
+        await this.stream.stop();
+        if (this.failoverActive) {
+            await this.fallback?.stop();
+            this.failoverActive = false;
+        }
+    }
+
+    health(): SourceHealth {
+        return {
+            state: this.state,
+            healthy: this.state === 'connected',
+            consecutiveFailures: this.failures,
+            failover: this.failoverActive ? this.fallback?.name || null : null,
+            connectedAt: this.connectedAt?.toISOString() || null,
+            disconnectedAt: this.disconnectedAt?.toISOString() || null,
+            nextRetryAt: this.nextRetryAt?.toISOString() || null,
+            lastError: this.lastError,
+        };
+    }
+
+    private isStopped(): boolean {
+        return this.state === 'stopped';
+    }
+
+    private async connect(): Promise<void> {
+        if (this.isStopped() || !this.sink) return;
+        this.state = this.failures ? 'reconnecting' : 'connecting';
+        this.nextRetryAt = null;
+
+        try {
+            await this.stream.start(this.sink);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            this.failures++;
+            await this.scheduleReconnect();
+            return;
+        }
+
+        // stop() may have been called while connecting
+        if (this.isStopped()) {
+            await this.stream.stop();
+            return;
+        }
+
+        this.state = 'connected';
+        this.connectedAt = new Date();
+
+        clearTimeout(this.stableTimer);
+        this.stableTimer = setTimeout(() => void this.markStable(), STABLE_AFTER_MS);
+    }
+
+    /**
+     * The connection has stayed up long enough to trust
+     */
+    private async markStable(): Promise<void> {
+        this.stableTimer = undefined;
+        if (this.isStopped()) return;
+        this.failures = 0;
+        this.lastError = null;
+
+        if (this.failoverActive) {
+            console.log(`✅ Stream recovered, stopping ${this.fallback?.name} fallback`);
+            this.failoverActive = false;
+            await this.fallback?.stop();
+        }
+    }
+
+    private handleDisconnect(reason: string): void {
+        if (this.isStopped()) return;
+        this.disconnectedAt = new Date();
+        this.lastError = reason;
+
+        if (this.stableTimer) {
+            // Dropped before it was stable
+            clearTimeout(this.stableTimer);
+            this.stableTimer = undefined;
+            this.failures++;
+        }
+        void this.scheduleReconnect();
+    }
+
+    private async scheduleReconnect(): Promise<void> {
+        if (this.isStopped()) return;
+        this.state = 'reconnecting';
+
+        if (this.failures >= config.STREAM_FAILOVER_AFTER && this.fallback && !this.failoverActive && this.sink) {
+            console.warn(`⚠️ Stream failed ${this.failures} times, failing over to ${this.fallback.name}`);
+            this.failoverActive = true;
+            try {
+                await this.fallback.start(this.sink);
+            } catch (error) {
+                console.error(`❌ Failed to start ${this.fallback.name} fallback:`, error);
+                this.failoverActive = false;
+            }
+        }
+
+        const delay = backoffDelay(this.failures + 1, config.STREAM_RECONNECT_BASE_MS, config.STREAM_RECONNECT_MAX_MS);
+        this.nextRetryAt = new Date(Date.now() + delay);
+        console.log(`🔄 Reconnecting stream in ${Math.round(delay / 1000)}s (attempt ${this.failures + 1})`);
+
+        clearTimeout(this.retryTimer);
+        this.retryTimer = setTimeout(() => void this.connect(), delay);
+    }
+}
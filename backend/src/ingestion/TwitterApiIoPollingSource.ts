@@ -0,0 +1,220 @@
+import { config } from '../config/index.js';
+import { db } from '../db/client.js';
+import type { RateGovernor } from '../services/RateGovernor.js';
+import type { TwitterApiIoClient } from '../services/TwitterApiIoClient.js';
+import { mentionsHandle } from '../utils/mentions.js';
+import { isNewerThan, sortBySnowflake } from '../utils/snowflake.js';
+import type { IngestionSink, IngestionSource } from './IngestionSource.js';
+import { fromTwitterApiIoTweet } from './normalize.js';
+
+type PollChannel = 'mentions' | 'dms';
+
+const RATE_LIMITED_PAUSE_MS = 60 * 1000;
+
+/**
+ * TwitterApiIoPollingSource - Polls twitterapi.io for mentions and DMs
+ * Checkpoints are persisted in the DB so restarts resume where we left off.
+ */
+export class TwitterApiIoPollingSource implements IngestionSource {
+    readonly name = 'twitterapiio';
+
+    private sink?: IngestionSink;
+    private isRunning = false;
+    private lastSeenTweetId: string | null = null;
+    private lastProcessedDmId: string | null = null;
+    private backfill: { cursor: string; newestId: string } | null = null; // Catch-up that ran out of pages
+    private pollTimers = new Map<PollChannel, NodeJS.Timeout>();
+
+    /**
+     * @param rateGovernor Shared by every loop on the same twitterapi.io key (see BotRegistry)
+     * @param botUserId The bot's own user ID, to drop the DMs it sent; looked up from the handle if unset
+     */
+    constructor(
+        private readonly client: TwitterApiIoClient,
+        private readonly botUsername: string,
+        private readonly rateGovernor: RateGovernor,
+        private botUserId?: string
+    ) { }
+
+    /**
+     * Start polling twitterapi.io for mentions and DMs
+     */
+    async start(sink: IngestionSink): Promise<void> {
+        this.sink = sink;
+
+        try {
+            // Restore checkpoints from the last run
+            this.lastSeenTweetId = await db.getCheckpoint(this.mentionCheckpointKey());
+            this.lastProcessedDmId = await db.getCheckpoint(this.dmCheckpointKey());
+            if (this.lastSeenTweetId) {
+                console.log(`📍 Resuming mentions after tweet ${this.lastSeenTweetId}`);
+            }
+
+            // Register the bot username for monitoring
+            await this.client.registerUserForMonitoring(this.botUsername);
+
+            this.isRunning = true;
+            console.log(`✅ Polling twitterapi.io for @${this.botUsername} mentions every ${config.MENTION_POLL_INTERVAL_MS / 1000}s...`);
+            this.startPollLoop('mentions', config.MENTION_POLL_INTERVAL_MS, () => this.pollMentions());
+
+            if (config.DM_POLLING_ENABLED) {
+                // The DM list includes the bot's own replies; without its ID it would answer itself
+                this.botUserId ??= await this.client.getUserId(this.botUsername) ?? undefined;
+                if (this.botUserId) {
+                    console.log(`✅ Polling twitterapi.io for DMs every ${config.DM_POLL_INTERVAL_MS / 1000}s...`);
+                    this.startPollLoop('dms', config.DM_POLL_INTERVAL_MS, () => this.pollDMs());
+                } else {
+                    console.error(`❌ Not polling DMs: couldn't find @${this.botUsername}'s user ID. Set TWITTER_USER_ID (or userId in BOT_ACCOUNTS_FILE).`);
+                }
+            }
+        } catch (error) {
+            console.error('❌ Failed to start twitterapi.io polling:', error);
+            throw error;
+        }
+    }
+
+    async stop(): Promise<void> {
+        this.isRunning = false;
+        for (const timer of this.pollTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.pollTimers.clear();
+    }
+
+    /**
+     * Run a poll function on its own schedule
+     * Each tick waits for a slot from the shared governor; the next tick is
+     * pushed out when the channel's quota runs low or the API rate limits us.
+     */
+    private startPollLoop(channel: PollChannel, baseIntervalMs: number, poll: () => Promise<void>): void {
+        const tick = async () => {
+            try {
+                if (await this.rateGovernor.acquire(channel)) {
+                    await poll();
+                } else {
+                    console.warn(`⏸️ ${channel} quota exhausted, resuming in ${Math.round(this.rateGovernor.msUntilReset() / 60000)}m`);
+                }
+            } catch (error) {
+                console.error(`❌ ${channel} poll error:`, error);
+                if (error instanceof Error && error.message.includes(' 429 ')) {
+                    this.rateGovernor.pause(RATE_LIMITED_PAUSE_MS);
+                }
+            }
+
+            if (!this.isRunning) return;
+
+            const delay = this.rateGovernor.nextDelay(channel, baseIntervalMs);
+            if (delay > baseIntervalMs) {
+                console.log(`🐢 ${channel} quota low (${this.rateGovernor.remaining(channel)} left), next poll in ${Math.round(delay / 1000)}s`);
+            }
+            this.pollTimers.set(channel, setTimeout(tick, delay));
+        };
+
+        void tick();
+    }
+
+    /**
+     * Poll for new mentions
+     * A catch-up longer than the page budget is finished over the next polls;
+     * until then the checkpoint stays put so a restart can't skip the gap.
+     */
+    private async pollMentions(): Promise<void> {
+        if (!this.sink) return;
+
+        // Pages back to the checkpoint so nothing is lost after an outage or a busy minute
+        const backfill = this.backfill;
+        const { tweets, resumeCursor } = await this.client.getMentionsSince(
+            this.botUsername,
+            this.lastSeenTweetId,
+            config.TWITTERAPI_IO_MAX_PAGES,
+            this.rateGovernor,
+            backfill?.cursor
+        );
+        const holdCheckpoint = Boolean(backfill || resumeCursor);
+
+        if (tweets.length) {
+            console.log(`📬 Found ${tweets.length} tweet(s)`);
+        } else if (!holdCheckpoint) {
+            console.log('📭 No new tweets');
+            return;
+        }
+
+        // Already oldest-first, so the checkpoint only ever moves forward
+        for (const tweet of tweets) {
+            // Skip if we've already seen this tweet
+            if (!isNewerThan(tweet.id, this.lastSeenTweetId)) {
+                continue;
+            }
+
+            // Must contain our bot mention
+            if (mentionsHandle(tweet.text, this.botUsername)) {
+                const handled = await this.sink.onMention(fromTwitterApiIoTweet(tweet), this);
+                if (!handled) {
+                    // Leave the checkpoint (and any backfill) here so the next poll retries this tweet
+                    return;
+                }
+            }
+
+            if (!holdCheckpoint) {
+                await this.saveMentionCheckpoint(tweet.id);
+            }
+        }
+
+        // The newest tweet is only known on the first pass; later passes are all older
+        const newestId = backfill?.newestId ?? tweets[tweets.length - 1]?.id;
+        if (resumeCursor && newestId) {
+            this.backfill = { cursor: resumeCursor, newestId };
+            console.log(`⏳ Mention backfill continues next poll; checkpoint held at ${this.lastSeenTweetId}`);
+        } else if (backfill) {
+            this.backfill = null;
+            console.log(`✅ Mention backfill complete`);
+            await this.saveMentionCheckpoint(backfill.newestId);
+        }
+    }
+
+    /**
+     * Poll for DMs
+     * Errors reach the poll loop, which backs off on rate limits as for mentions
+     */
+    private async pollDMs(): Promise<void> {
+        if (!this.sink) return;
+
+        const dms = await this.client.getDMs();
+
+        if (!dms.length) return;
+
+        // DM event IDs are snowflakes too, so ID order is creation order
+        for (const dm of sortBySnowflake(dms, (d) => d.id)) {
+            // Skip if handled
+            if (!isNewerThan(dm.id, this.lastProcessedDmId)) {
+                continue;
+            }
+
+            // Skip the bot's own messages
+            if (dm.sender_id !== this.botUserId) {
+                const handled = await this.sink.onDirectMessage(dm, this);
+                if (!handled) break;
+            }
+
+            await this.saveDmCheckpoint(dm.id);
+        }
+    }
+
+    private mentionCheckpointKey(): string {
+        return `mentions:${this.botUsername.toLowerCase()}`;
+    }
+
+    private dmCheckpointKey(): string {
+        return `dms:${this.botUsername.toLowerCase()}`;
+    }
+
+    private async saveMentionCheckpoint(tweetId: string): Promise<void> {
+        this.lastSeenTweetId = tweetId;
+        await db.advanceCheckpoint(this.mentionCheckpointKey(), tweetId);
+    }
+
+    private async saveDmCheckpoint(dmId: string): Promise<void> {
+        this.lastProcessedDmId = dmId;
+        await db.advanceCheckpoint(this.dmCheckpointKey(), dmId);
+    }
+}
@@ -0,0 +1,81 @@
+import type { TwitterApiIoTweet } from '../services/TwitterApiIoClient.js';
+import { mentionsHandle } from '../utils/mentions.js';
+import type { IngestionSink, IngestionSource } from './IngestionSource.js';
+import { fromTwitterApiIoTweet } from './normalize.js';
+
+/**
+ * TwitterApiIoWebhookSource - Receives tweets pushed by twitterapi.io for one bot
+ * The HTTP side lives in src/api/webhooks.ts and hands payloads to
+ * `twitterApiIoWebhooks`, which fans them out to every started bot. Polling
+ * keeps running as the fallback, and the processed ledger drops whichever
+ * copy arrives second.
+ */
+export class TwitterApiIoWebhookSource implements IngestionSource {
+    readonly name = 'webhook';
+
+    private sink?: IngestionSink;
+    private readonly botUsername: string;
+
+    constructor(botUsername: string) {
+        this.botUsername = botUsername.toLowerCase();
+    }
+
+    async start(sink: IngestionSink): Promise<void> {
+        this.sink = sink;
+        twitterApiIoWebhooks.register(this);
+        console.log(`✅ Accepting twitterapi.io webhooks for @${this.botUsername}`);
+    }
+
+    async stop(): Promise<void> {
+        this.sink = undefined;
+        twitterApiIoWebhooks.unregister(this);
+    }
+
+    /**
+     * Forward pushed tweets that mention this bot
+     * @returns Number of tweets handed to the pipeline
+     */
+    async receive(tweets: TwitterApiIoTweet[]): Promise<number> {
+        const sink = this.sink;
+        if (!sink) return 0;
+
+        const mentions = tweets.filter(t => t.text && mentionsHandle(t.text, this.botUsername));
+        for (const tweet of mentions) {
+            await sink.onMention(fromTwitterApiIoTweet(tweet), this);
+        }
+        return mentions.length;
+    }
+}
+
+/**
+ * Started webhook sources, one per bot account
+ */
+class TwitterApiIoWebhooks {
+    private sources = new Set<TwitterApiIoWebhookSource>();
+
+    register(source: TwitterApiIoWebhookSource): void {
+        this.sources.add(source);
+    }
+
+    unregister(source: TwitterApiIoWebhookSource): void {
+        this.sources.delete(source);
+    }
+
+    isAccepting(): boolean {
+        return this.sources.size > 0;
+    }
+
+    /**
+     * Offer pushed tweets to every bot
+     * @returns Number of mentions handed to the pipeline across bots
+     */
+    async receive(tweets: TwitterApiIoTweet[]): Promise<number> {
+        let forwarded = 0;
+        for (const source of this.sources) {
+            forwarded += await source.receive(tweets);
+        }
+        return forwarded;
+    }
+}
+
+export const twitterApiIoWebhooks = new TwitterApiIoWebhooks();
@@ -0,0 +1,56 @@
+import type { ApiV2Includes, TweetV2, TweetV2SingleStreamResult } from 'twitter-api-v2';
+import type { TwitterApiIoTweet } from '../services/TwitterApiIoClient.js';
+import type { TweetMedia, TweetMention } from '../types/index.js';
+
+/**
+ * Map a twitterapi.io tweet into a TweetMention
+ */
+export function fromTwitterApiIoTweet(tweet: TwitterApiIoTweet): TweetMention {
+    return {
+        tweet_id: tweet.id,
+        author_id: tweet.author.id,
+        author_username: tweet.author.userName,
+        text: tweet.text,
+        in_reply_to_tweet_id: tweet.inReplyToId || null,
+        quoted_tweet_id: tweet.quotedTweet?.id || null,
+        conversation_id: tweet.conversationId || null,
+        mentioned_users: tweet.entities?.user_mentions?.map((m) => ({ id: m.id_str || null, username: m.screen_name })),
+        media: tweet.extendedEntities?.media
+            ?.filter((m) => m.type === 'photo')
+            .map((m) => ({ url: m.media_url_https, width: m.original_info?.width, height: m.original_info?.height })),
+        created_at: tweet.createdAt,
+    };
+}
+
+/**
+ * Map an official filtered stream result into a TweetMention
+ */
+export function fromStreamTweet(data: TweetV2SingleStreamResult): TweetMention {
+    const tweet = data.data;
+    return {
+        tweet_id: tweet.id,
+        author_id: tweet.author_id!,
+        author_username: data.includes?.users?.find((u) => u.id === tweet.author_id)?.username || 'unknown',
+        text: tweet.text,
+        in_reply_to_tweet_id: tweet.referenced_tweets?.find((ref) => ref.type === 'replied_to')?.id || null,
+        quoted_tweet_id: tweet.referenced_tweets?.find((ref) => ref.type === 'quoted')?.id || null,
+        conversation_id: tweet.conversation_id || null,
+        mentioned_users: tweet.entities?.mentions?.map((m) => ({ id: m.id || null, username: m.username })),
+        media: photosOf(tweet, data.includes),
+        created_at: tweet.created_at!,
+    };
+}
+
+/**
+ * Photos attached to an X API v2 tweet, from the `attachments.media_keys` expansion
+ */
+export function photosOf(tweet: TweetV2, includes?: ApiV2Includes): TweetMedia[] | undefined {
+    const keys = tweet.attachments?.media_keys;
+    if (!keys) return undefined;
+    return keys.flatMap((key) => {
+        const media = includes?.media?.find((m) => m.media_key === key);
+        return media?.type === 'photo' && media.url
+            ? [{ url: media.url, width: media.width, height: media.height }]
+            : [];
+    });
+}
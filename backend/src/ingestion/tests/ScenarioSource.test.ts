@@ -0,0 +1,57 @@
+import { ScenarioSource } from '../ScenarioSource.js';
+import { XListener } from '../../services/XListener.js';
+import { botRegistry, type BotAccount } from '../../services/BotRegistry.js';
+import type { OutgoingMessage } from '../../simulator/SimulatedX.js';
+
+describe('ScenarioSource', () => {
+    let bot: BotAccount;
+
+    // Drive a real listener with the scenario as its only source
+    const play = async (scenarioPath: string): Promise<OutgoingMessage[]> => {
+        const source = new ScenarioSource(bot.username, { scenarioPath, realtime: false });
+        const listener = new XListener(bot, [source]);
+        await listener.start();
+        const outbox = await source.done();
+        await listener.stop();
+        return outbox;
+    };
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        bot = botRegistry.primary();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should deploy a reply, correct a typo and block a copycat in the default scenario', async () => {
+        const outbox = await play('scenarios/default.json');
+        const repliesTo = (tweetId: string) => outbox.filter((m) => m.kind === 'reply' && m.to === tweetId);
+
+        expect(repliesTo('1234567889')).toHaveLength(1);
+        expect(repliesTo('1234567889')[0].text).toContain('Ticker "OJAS_COIN" can only use letters A-Z and digits 0-9');
+
+        expect(repliesTo('1234567890')).toHaveLength(1);
+        expect(repliesTo('1234567890')[0].text).toContain('@original_author Token Ojas Narang ($OJAS) Deployed!');
+
+        expect(repliesTo('1234567891')).toHaveLength(1);
+        expect(repliesTo('1234567891')[0].text).toContain('$OJAS was launched recently');
+    }, 30000);
+
+    it('should walk a user through the DM deploy wizard', async () => {
+        const outbox = await play('scenarios/dm-wizard.yaml');
+
+        const texts = outbox.map((m) => m.text);
+
+        expect(outbox.every((m) => m.kind === 'dm' && m.to === '555000222')).toBe(true);
+        expect(texts[0]).toContain('1/6 What should the token be called?');
+        // The bad ticker is refused and asked for again
+        expect(texts[2]).toContain('Ticker "STEP-1" can only use letters A-Z and digits 0-9');
+        expect(texts[2]).toContain('2/6');
+        expect(texts[7]).toContain('Name: Stepper Coin');
+        expect(texts[7]).toContain('Ticker: $STEP');
+        expect(texts[7]).toContain('Twitter: https://x.com/stepcoin');
+        expect(texts[texts.length - 1]).toContain('Deployment Successful');
+    }, 30000);
+});
@@ -0,0 +1,120 @@
+import type { IngestionSink, IngestionSource } from '../IngestionSource.js';
+import type { StreamSupervisor as StreamSupervisorClass, SupervisedStream } from '../StreamSupervisor.js';
+
+// A short backoff ceiling so failover is reached in a few steps; the supervisor is imported after this is set
+Object.assign(process.env, {
+    STREAM_RECONNECT_BASE_MS: '1000',
+    STREAM_RECONNECT_MAX_MS: '8000',
+    STREAM_FAILOVER_AFTER: '3',
+});
+
+const STABLE_MS = 60 * 1000;
+
+/**
+ * A stream whose connection attempts succeed or fail on demand
+ */
+class FakeStream implements SupervisedStream {
+    readonly name = 'fake-stream';
+    onDisconnect?: (reason: string) => void;
+    connects = 0;
+    failNext = 0; // Attempts left that should fail
+
+    async start(): Promise<void> {
+        this.connects++;
+        if (this.failNext > 0) {
+            this.failNext--;
+            throw new Error('Connection refused');
+        }
+    }
+
+    async stop(): Promise<void> { }
+
+    drop(): void {
+        this.onDisconnect?.('Connection reset');
+    }
+}
+
+describe('StreamSupervisor', () => {
+    let StreamSupervisor: typeof StreamSupervisorClass;
+    let stream: FakeStream;
+    let fallback: IngestionSource & { start: jest.Mock; stop: jest.Mock };
+    let supervisor: StreamSupervisorClass;
+    const sink = {} as IngestionSink;
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        jest.spyOn(Math, 'random').mockReturnValue(0.999999); // Backoff without jitter: 2s, 4s, 8s...
+        ({ StreamSupervisor } = await import('../StreamSupervisor.js'));
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        stream = new FakeStream();
+        fallback = { name: 'polling', start: jest.fn(async () => { }), stop: jest.fn(async () => { }) };
+        supervisor = new StreamSupervisor(stream, fallback);
+    });
+
+    afterEach(async () => {
+        await supervisor.stop();
+        jest.useRealTimers();
+    });
+
+    it('should fail over after repeated failed connects and hand back once the stream is stable', async () => {
+        stream.failNext = 3;
+        await supervisor.start(sink);
+        await jest.advanceTimersByTimeAsync(2000 + 4000);
+
+        expect(stream.connects).toBe(3);
+        expect(fallback.start).toHaveBeenCalledTimes(1);
+        expect(supervisor.health()).toMatchObject({ state: 'reconnecting', failover: 'polling', consecutiveFailures: 3 });
+
+        await jest.advanceTimersByTimeAsync(8000);
+        expect(stream.connects).toBe(4);
+        expect(supervisor.health()).toMatchObject({ state: 'connected', healthy: true, failover: 'polling' });
+
+        await jest.advanceTimersByTimeAsync(STABLE_MS);
+        expect(fallback.stop).toHaveBeenCalledTimes(1);
+        expect(supervisor.health()).toMatchObject({ failover: null, consecutiveFailures: 0 });
+    });
+
+    it('should count connections that drop straight away as failures', async () => {
+        await supervisor.start(sink);
+
+        for (let i = 0; i < 3; i++) {
+            expect(supervisor.health().state).toBe('connected');
+            stream.drop();
+            await jest.advanceTimersByTimeAsync(8000);
+        }
+
+        expect(stream.connects).toBe(4);
+        expect(fallback.start).toHaveBeenCalledTimes(1);
+        expect(supervisor.health().consecutiveFailures).toBe(3);
+    });
+
+    it('should not count a drop after the connection was stable', async () => {
+        await supervisor.start(sink);
+        await jest.advanceTimersByTimeAsync(STABLE_MS);
+
+        stream.drop();
+        expect(supervisor.health()).toMatchObject({ state: 'reconnecting', consecutiveFailures: 0, lastError: 'Connection reset' });
+
+        await jest.advanceTimersByTimeAsync(8000);
+        expect(stream.connects).toBe(2);
+        expect(fallback.start).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying once stopped', async () => {
+        stream.failNext = 1;
+        await supervisor.start(sink);
+        await supervisor.stop();
+        await jest.advanceTimersByTimeAsync(60000);
+
+        expect(stream.connects).toBe(1);
+        expect(supervisor.health().state).toBe('stopped');
+    });
+});
@@ -0,0 +1,81 @@
+import { config } from '../../config/index.js';
+import { RateGovernor } from '../../services/RateGovernor.js';
+import { TwitterApiIoClient } from '../../services/TwitterApiIoClient.js';
+import type { IngestionSink } from '../IngestionSource.js';
+import { TwitterApiIoPollingSource } from '../TwitterApiIoPollingSource.js';
+
+const LOGIN_WAIT_MS = 6000; // The client waits this long after each login
+const RATE_LIMITED_PAUSE_MS = 60 * 1000;
+
+/**
+ * A DM list with one message from a user
+ */
+function dmList() {
+    return JSON.stringify({
+        code: 0,
+        msg: 'success',
+        conversation_events: [{
+            event: {
+                type: 'message_create',
+                id: '1900000000000000001',
+                created_timestamp: String(Date.now()),
+                message_create: {
+                    target: { recipient_id: '999' },
+                    sender_id: '555000111',
+                    source_app_id: '',
+                    message_data: { text: 'balance', entities: { hashtags: [], symbols: [], user_mentions: [], urls: [] } },
+                },
+            },
+        }],
+    });
+}
+
+describe('TwitterApiIoPollingSource', () => {
+    let client: TwitterApiIoClient;
+    let governor: RateGovernor;
+    let sink: IngestionSink & { onMention: jest.Mock; onDirectMessage: jest.Mock };
+    let source: TwitterApiIoPollingSource;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+
+        client = new TwitterApiIoClient({ apiKey: 'test' });
+        jest.spyOn(client, 'registerUserForMonitoring').mockResolvedValue();
+        jest.spyOn(client, 'login').mockResolvedValue(true);
+        jest.spyOn(client, 'searchMentions').mockResolvedValue({ tweets: [], hasNextPage: false });
+
+        governor = new RateGovernor({ minIntervalMs: 0, windowMs: 24 * 60 * 60 * 1000, budgets: { mentions: 100, dms: 100 }, lowWatermark: 0 });
+        sink = { onMention: jest.fn(async () => true), onDirectMessage: jest.fn(async () => true) };
+        source = new TwitterApiIoPollingSource(client, 'mybot', governor, '999');
+    });
+
+    afterEach(async () => {
+        await source.stop();
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('should pause every loop when the DM list is rate limited', async () => {
+        jest.spyOn(global, 'fetch')
+            .mockResolvedValueOnce(new Response('slow down', { status: 429, statusText: 'Too Many Requests' }))
+            .mockImplementation(async () => new Response(dmList()));
+        const pause = jest.spyOn(governor, 'pause');
+
+        await source.start(sink);
+        await jest.advanceTimersByTimeAsync(LOGIN_WAIT_MS);
+        expect(pause).toHaveBeenCalledWith(RATE_LIMITED_PAUSE_MS);
+
+        // Mentions wait out the pause too, though their own interval came up in the meantime
+        await jest.advanceTimersByTimeAsync(RATE_LIMITED_PAUSE_MS - 1);
+        expect(config.MENTION_POLL_INTERVAL_MS).toBeLessThan(RATE_LIMITED_PAUSE_MS);
+        expect(client.searchMentions).toHaveBeenCalledTimes(1);
+        expect(sink.onDirectMessage).not.toHaveBeenCalled();
+
+        // The next DM poll after the pause goes through
+        await jest.advanceTimersByTimeAsync(config.DM_POLL_INTERVAL_MS - RATE_LIMITED_PAUSE_MS + LOGIN_WAIT_MS + 1);
+        expect(sink.onDirectMessage).toHaveBeenCalledTimes(1);
+        expect(sink.onDirectMessage.mock.calls[0][0]).toMatchObject({ id: '1900000000000000001', text: 'balance' });
+    });
+});
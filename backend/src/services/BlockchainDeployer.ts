@@ -2,24 +2,86 @@ import {
     createWalletClient,
     createPublicClient,
     http,
+    defineChain,
     parseEther,
+    parseGwei,
     keccak256,
     toBytes,
+    toHex,
+    parseAbi,
+    decodeEventLog,
+    getAddress,
+    zeroAddress,
     type Address,
     type Hash,
+    type Hex,
     type WalletClient,
     type PublicClient,
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { bsc } from 'viem/chains'; // Changed to bsc
-import { ethers } from 'ethers';
+import { ethers, isError } from 'ethers';
 import { config } from '../config/index.js';
-import type { DeploymentResult } from '../types/index.js';
+import type { ChainSettings } from '../config/botAccounts.js';
+import type { DeploymentResult, TransferResult } from '../types/index.js';
 import { fourMemeService } from './FourMemeService.js';
+import { TRANSFER_GAS_LIMIT } from '../utils/withdrawal.js';
+
+const DEFAULT_TOKEN_IMAGE = 'https://via.placeholder.com/400'; // When the command has no image
+const RECEIPT_TIMEOUT_MS = 10 * 60 * 1000; // How long a resumed deploy waits before giving up
+const FACTORY_ADDRESS = '0x5c952063c7fc8610ffdb798152d69f0b9550762b'; // Four.Meme TokenManager2
+
+// The factory announces each token; the token's own mint is the fallback
+const DEPLOY_EVENTS_ABI = parseAbi([
+    'event TokenCreate(address creator, address token, uint256 requestId, string name, string symbol, uint256 totalSupply, uint256 launchTime, uint256 launchFee)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+interface ReceiptLog {
+    address: string;
+    topics: readonly string[];
+    data: string;
+}
+
+/**
+ * Find the new token in a deploy receipt
+ * Four.Meme tokens trade on the factory's bonding curve rather than in a pool,
+ * so the launch request ID from TokenCreate is recorded as the pool ID.
+ */
+function parseDeployLogs(logs: readonly ReceiptLog[]): { tokenAddress: string; poolId?: string } | null {
+    let minted: string | undefined;
+    for (const log of logs) {
+        let event;
+        try {
+            event = decodeEventLog({ abi: DEPLOY_EVENTS_ABI, data: log.data as Hex, topics: log.topics as [Hex, ...Hex[]] });
+        } catch {
+            continue; // Some other event in the transaction
+        }
+        if (event.eventName === 'TokenCreate' && log.address.toLowerCase() === FACTORY_ADDRESS) {
+            return { tokenAddress: getAddress(event.args.token), poolId: toHex(event.args.requestId, { size: 32 }) };
+        }
+        if (event.eventName === 'Transfer' && event.args.from === zeroAddress) {
+            minted ??= getAddress(log.address);
+        }
+    }
+    return minted ? { tokenAddress: minted } : null;
+}
+
+/**
+ * The outcome of a mined deploy transaction
+ */
+function deploymentFromLogs(txHash: string, logs: readonly ReceiptLog[]): DeploymentResult {
+    const token = parseDeployLogs(logs);
+    if (!token) {
+        console.error(`❌ No token creation found in the logs of ${txHash}`);
+        return { success: false, txHash, error: 'Token address not found in the deploy receipt' };
+    }
+    return { success: true, ...token, txHash };
+}
 
 /**
  * BlockchainDeployer - Handles on-chain token deployment
  * Uses ethers for Four.Meme interaction (via Service) and viem for general ops
+ * One instance per bot account, bound to that account's chain.
  */
 export class BlockchainDeployer {
     private walletClient: any;
@@ -27,41 +89,59 @@ export class BlockchainDeployer {
     private account: ReturnType<typeof privateKeyToAccount>;
     private deployFee: bigint;
 
-    constructor() {
+    constructor(readonly chain: ChainSettings) {
         // Set up account from private key
         this.account = privateKeyToAccount(`0x${config.BOT_PRIVATE_KEY}` as `0x${string}`);
 
+        const viemChain = defineChain({
+            id: chain.chainId,
+            name: chain.name,
+            nativeCurrency: { name: chain.nativeSymbol, symbol: chain.nativeSymbol, decimals: 18 },
+            rpcUrls: { default: { http: [chain.rpcUrl] } },
+        });
+
         // Set up clients
-        // Use BSC chain
         this.publicClient = createPublicClient({
-            chain: bsc,
-            transport: http(config.RPC_URL),
+            chain: viemChain,
+            transport: http(chain.rpcUrl),
         });
 
         this.walletClient = createWalletClient({
             account: this.account,
-            chain: bsc,
-            transport: http(config.RPC_URL),
+            chain: viemChain,
+            transport: http(chain.rpcUrl),
         });
 
-        this.deployFee = config.DEPLOY_FEE_WEI;
+        this.deployFee = chain.deployFeeWei ?? config.DEPLOY_FEE_WEI;
+    }
+
+    /**
+     * Provider for signing with users' custodial wallets on this chain
+     */
+    getProvider(): ethers.JsonRpcProvider {
+        return new ethers.JsonRpcProvider(this.chain.rpcUrl);
     }
 
     /**
      * Deploy a token on Four.Meme
+     * Once the transaction is broadcast, errors fetching its receipt are thrown
+     * rather than returned: the deploy may still land, so it isn't a failure.
+     * @param onSubmitted Called once the transaction is signed and broadcast,
+     *                    before waiting for the receipt, so callers can checkpoint the hash
      */
     async deploy(
         params: {
             name: string;
             symbol: string;
             description: string;
-            image: string;
+            image?: string;
             twitter?: string;
             telegram?: string;
             website?: string;
             feeRecipient?: Address;
         },
-        signer: ethers.Wallet
+        signer: ethers.Wallet,
+        onSubmitted?: (txHash: string) => Promise<void>
     ): Promise<DeploymentResult> {
         if (config.MOCK_CHAIN) {
             console.log(`🎭 Mock Deploying: ${params.symbol} (${params.name})`);
@@ -74,6 +154,7 @@ export class BlockchainDeployer {
             };
         }
 
+        let txHash: string | undefined;
         try {
             console.log(`🚀 Deploying token on Four.Meme: ${params.symbol} (${params.name})`);
             console.log(`   Signer: ${signer.address}`);
@@ -86,20 +167,18 @@ export class BlockchainDeployer {
                 name: params.name,
                 symbol: params.symbol,
                 description: params.description,
-                image: params.image,
+                image: params.image || DEFAULT_TOKEN_IMAGE,
                 twitter: params.twitter,
                 telegram: params.telegram,
                 website: params.website
             });
 
             // 3. Execute Transaction
-            // Factory Address: 0x5c952063c7fc8610FFDB798152D69F0B9550762b
-            const factoryAddress = '0x5c952063c7fc8610ffdb798152d69f0b9550762b';
             const abi = [
                 "function createToken(bytes code, bytes poolsCode) payable returns (address token)"
             ];
 
-            const contract = new ethers.Contract(factoryAddress, abi, signer);
+            const contract = new ethers.Contract(FACTORY_ADDRESS, abi, signer);
 
             console.log('📝 Submitting createToken transaction...');
             // 0.01 BNB creation fee
@@ -107,30 +186,55 @@ export class BlockchainDeployer {
                 value: parseEther('0.01')
             });
             console.log(`✅ Transaction submitted: ${tx.hash}`);
+            txHash = tx.hash;
+            await onSubmitted?.(tx.hash);
 
             // 4. Wait for receipt
             const receipt = await tx.wait();
 
-            // 5. Success
-            // We return the hash. Token address parsing from logs can be added if needed,
-            // but for now success is sufficient.
-
-            return {
-                success: true,
-                tokenAddress: '0xPENDING_LOG_PARSE',
-                poolId: '0x0',
-                txHash: tx.hash,
-            };
+            // 5. Read the new token from the logs
+            return deploymentFromLogs(tx.hash, receipt?.logs ?? []);
 
         } catch (error: any) {
+            if (txHash && !isError(error, 'CALL_EXCEPTION')) {
+                console.error(`❌ Lost track of deployment ${txHash}:`, error);
+                throw error;
+            }
             console.error('❌ Deployment failed:', error);
             return {
                 success: false,
+                txHash,
                 error: error.message || 'Unknown error',
             };
         }
     }
 
+    /**
+     * Wait for a deploy transaction broadcast earlier, e.g. by a worker that
+     * was stopped before its receipt arrived
+     * Like deploy, throws if the receipt can't be fetched (RPC errors, timeout).
+     */
+    async waitForDeployment(txHash: string): Promise<DeploymentResult> {
+        if (config.MOCK_CHAIN) {
+            console.log(`🎭 Mock waiting for deployment: ${txHash}`);
+            return {
+                success: true,
+                tokenAddress: '0xMockTokenAddress12345678901234567890123456',
+                poolId: '0xMockPoolId12345678901234567890123456789012',
+                txHash,
+            };
+        }
+
+        const receipt = await this.publicClient.waitForTransactionReceipt({
+            hash: txHash as Hash,
+            timeout: RECEIPT_TIMEOUT_MS,
+        });
+        if (receipt.status !== 'success') {
+            return { success: false, txHash, error: 'Transaction reverted' };
+        }
+        return deploymentFromLogs(txHash, receipt.logs);
+    }
+
     /**
      * Get bot wallet balance
      */
@@ -141,6 +245,61 @@ export class BlockchainDeployer {
         return this.publicClient.getBalance({ address: this.account.address });
     }
 
+    /**
+     * Native balance of any address, e.g. a user's custodial wallet
+     */
+    async getBalanceOf(address: Address): Promise<bigint> {
+        if (config.MOCK_CHAIN) {
+            return parseEther('0.05');
+        }
+        return this.publicClient.getBalance({ address });
+    }
+
+    /**
+     * Current gas price, for pricing plain transfers
+     */
+    async getGasPrice(): Promise<bigint> {
+        if (config.MOCK_CHAIN) {
+            return parseGwei('1');
+        }
+        return this.publicClient.getGasPrice();
+    }
+
+    /**
+     * Send the native coin from a user's custodial wallet
+     * The gas price is fixed by the caller so the fee is exactly what was
+     * quoted, and a withdrawal of the whole balance leaves nothing behind.
+     * @param onSubmitted Called once the transaction is broadcast, before waiting for the receipt
+     */
+    async transfer(
+        signer: ethers.Wallet,
+        to: Address,
+        value: bigint,
+        gasPrice: bigint,
+        onSubmitted?: (txHash: string) => Promise<void>
+    ): Promise<TransferResult> {
+        if (config.MOCK_CHAIN) {
+            console.log(`🎭 Mock Transfer: ${ethers.formatEther(value)} ${this.chain.nativeSymbol} to ${to}`);
+            const txHash = '0xMockTransferHash12345678901234567890123456';
+            await onSubmitted?.(txHash);
+            return { success: true, txHash };
+        }
+
+        try {
+            const tx = await signer.sendTransaction({ to, value, gasPrice, gasLimit: TRANSFER_GAS_LIMIT });
+            console.log(`✅ Transfer submitted: ${tx.hash}`);
+            await onSubmitted?.(tx.hash);
+
+            const receipt = await tx.wait();
+            return receipt?.status === 1
+                ? { success: true, txHash: tx.hash }
+                : { success: false, txHash: tx.hash, error: 'Transaction reverted' };
+        } catch (error: any) {
+            console.error('❌ Transfer failed:', error);
+            return { success: false, error: error.shortMessage || error.message || 'Unknown error' };
+        }
+    }
+
     /**
      * Get bot wallet address
      */
@@ -148,5 +307,3 @@ export class BlockchainDeployer {
         return this.account.address;
     }
 }
-
-export const blockchainDeployer = new BlockchainDeployer();
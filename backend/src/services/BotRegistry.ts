@@ -0,0 +1,154 @@
+import path from 'path';
+import { config } from '../config/index.js';
+import { loadBotAccounts, type BotAccountSettings } from '../config/botAccounts.js';
+import { BlockchainDeployer } from './BlockchainDeployer.js';
+import { CommandParser } from './CommandParser.js';
+import { RateGovernor } from './RateGovernor.js';
+import { ReplyPublisher } from './ReplyPublisher.js';
+import { TwitterApiIoClient } from './TwitterApiIoClient.js';
+
+/**
+ * One bot account with the services bound to it
+ */
+export interface BotAccount {
+    id: string;
+    username: string;
+    settings: BotAccountSettings;
+    commandParser: CommandParser;
+    twitterApiIoClient?: TwitterApiIoClient; // Set when a twitterapi.io key is available
+    rateGovernor?: RateGovernor; // Shared by accounts on the same twitterapi.io key
+    replyPublisher: ReplyPublisher;
+    deployer: BlockchainDeployer;
+}
+
+/**
+ * The single account described by the original X_* / TWITTER_* variables
+ */
+function accountFromEnv(): BotAccountSettings {
+    return {
+        id: 'default',
+        username: config.X_BOT_USERNAME,
+        userId: config.TWITTER_USER_ID,
+        twitterApiIo: {
+            apiKey: config.TWITTERAPI_IO_KEY,
+            loginUsername: config.TWITTER_LOGIN_USERNAME,
+            loginEmail: config.TWITTER_LOGIN_EMAIL,
+            loginPassword: config.TWITTER_LOGIN_PASSWORD,
+            totpSecret: config.TWITTER_2FA_SECRET,
+            proxy: config.TWITTER_PROXY,
+        },
+        x: {
+            apiKey: config.X_API_KEY,
+            apiSecret: config.X_API_SECRET,
+            accessToken: config.X_ACCESS_TOKEN,
+            accessSecret: config.X_ACCESS_SECRET,
+            bearerToken: config.X_BEARER_TOKEN,
+        },
+        chain: {
+            name: 'BNB Smart Chain',
+            chainId: config.CHAIN_ID,
+            rpcUrl: config.RPC_URL,
+            nativeSymbol: 'BNB',
+            explorerUrl: 'https://bscscan.com',
+        },
+        replies: {},
+    };
+}
+
+/**
+ * BotRegistry - Every bot account this deployment runs
+ * Accounts come from BOT_ACCOUNTS_FILE, or a single `default` account built
+ * from the environment. Deployment jobs carry the account id so the worker
+ * replies and deploys as the bot that received the command.
+ */
+export class BotRegistry {
+    private accounts = new Map<string, BotAccount>();
+    private governors = new Map<string, RateGovernor>(); // By twitterapi.io key
+
+    constructor(settings: BotAccountSettings[]) {
+        for (const account of settings) {
+            this.accounts.set(account.id, this.build(account));
+        }
+    }
+
+    /**
+     * All accounts, in the order they were configured
+     */
+    all(): BotAccount[] {
+        return [...this.accounts.values()];
+    }
+
+    /**
+     * The first configured account
+     */
+    primary(): BotAccount {
+        return this.all()[0];
+    }
+
+    get(botId: string): BotAccount {
+        const account = this.accounts.get(botId);
+        if (!account) {
+            throw new Error(`Unknown bot account: ${botId}`);
+        }
+        return account;
+    }
+
+    private build(settings: BotAccountSettings): BotAccount {
+        // twitterapi.io is billed per platform key, so accounts share it unless they bring their own
+        const apiKey = settings.twitterApiIo.apiKey || config.TWITTERAPI_IO_KEY;
+        const twitterApiIoClient = apiKey
+            ? new TwitterApiIoClient({
+                ...settings.twitterApiIo,
+                apiKey,
+                proxy: settings.twitterApiIo.proxy || config.TWITTER_PROXY,
+                userId: settings.userId,
+            })
+            : undefined;
+
+        return {
+            id: settings.id,
+            username: settings.username,
+            settings,
+            commandParser: new CommandParser(settings.username, {
+                nameScripts: config.TOKEN_NAME_SCRIPTS,
+                tickerScripts: config.TOKEN_TICKER_SCRIPTS,
+                protectedTickers: config.PROTECTED_TICKERS,
+            }),
+            twitterApiIoClient,
+            rateGovernor: apiKey ? this.governorFor(apiKey) : undefined,
+            // Replies are simulated in mock mode
+            replyPublisher: new ReplyPublisher(
+                config.MOCK_X_API ? undefined : twitterApiIoClient,
+                settings.chain,
+                settings.replies
+            ),
+            deployer: new BlockchainDeployer(settings.chain),
+        };
+    }
+
+    /**
+     * One governor per twitterapi.io key so every polling loop on it shares the quota
+     */
+    private governorFor(apiKey: string): RateGovernor {
+        let governor = this.governors.get(apiKey);
+        if (!governor) {
+            governor = new RateGovernor({
+                minIntervalMs: config.TWITTERAPI_IO_MIN_REQUEST_INTERVAL_MS,
+                windowMs: 24 * 60 * 60 * 1000,
+                budgets: {
+                    mentions: config.MENTION_DAILY_REQUEST_BUDGET,
+                    dms: config.DM_DAILY_REQUEST_BUDGET,
+                },
+                lowWatermark: config.QUOTA_LOW_WATERMARK,
+            });
+            this.governors.set(apiKey, governor);
+        }
+        return governor;
+    }
+}
+
+const settings = config.BOT_ACCOUNTS_FILE
+    ? loadBotAccounts(path.resolve(config.BOT_ACCOUNTS_FILE), process.env)
+    : [accountFromEnv()];
+
+export const botRegistry = new BotRegistry(settings);
@@ -0,0 +1,137 @@
+import { isAddress } from 'viem';
+import type { Deployment, DeploymentStatus } from '../types/index.js';
+import { translate, type Locale } from '../i18n/index.js';
+
+/**
+ * Ways a new deploy can collide with an earlier one:
+ * - ticker: same ticker within the window
+ * - parent: the fee recipient's tweet already has a token (any time)
+ * - name: same name, ignoring case, within the window
+ */
+export const COLLISION_RULES = ['ticker', 'parent', 'name'] as const;
+
+export type CollisionRule = typeof COLLISION_RULES[number];
+
+/**
+ * What to do on a collision: refuse to deploy, deploy and say so, or ignore it
+ */
+export const COLLISION_ACTIONS = ['block', 'warn', 'allow'] as const;
+
+export type CollisionAction = typeof COLLISION_ACTIONS[number];
+
+export type CollisionActions = Record<CollisionRule, CollisionAction>;
+
+export const DEFAULT_COLLISION_ACTIONS: CollisionActions = { ticker: 'block', parent: 'block', name: 'warn' };
+
+// Earlier deployments that still count; failed ones and those waiting for a wallet don't
+export const LIVE_DEPLOYMENT_STATUSES: DeploymentStatus[] = ['pending', 'processing', 'deployed'];
+
+export interface DeployCandidate {
+    deployTweetId?: string; // Unset for deploys that don't come from a tweet
+    parentTweetId?: string; // Omit when the fee recipient isn't taken from another tweet
+    ticker: string;
+    name: string;
+}
+
+export interface Collision {
+    rule: CollisionRule;
+    action: CollisionAction;
+    existing: Deployment; // The first live deployment it collides with
+}
+
+export interface CollisionReport {
+    blocked: Collision | null;
+    warnings: Collision[];
+}
+
+/**
+ * Anything that can find earlier deployments (the database in production)
+ */
+export interface DeploymentLookup {
+    /**
+     * Live deployments, oldest first, other than `excludeTweetId`, with the
+     * parent tweet, or created since `since` with the ticker or name
+     */
+    findCollisionCandidates(params: {
+        excludeTweetId?: string;
+        parentTweetId?: string;
+        tokenSymbol: string;
+        tokenName: string;
+        since: Date;
+    }): Promise<Deployment[]>;
+}
+
+/**
+ * CollisionPolicy - Checks a deploy against earlier ones before it goes on-chain
+ * Each rule has its own action. The first blocking rule (in COLLISION_RULES
+ * order) stops the deploy; warnings are collected for the reply.
+ */
+export class CollisionPolicy {
+    constructor(
+        private readonly actions: CollisionActions,
+        private readonly windowMs: number,
+        private readonly deployments: DeploymentLookup
+    ) { }
+
+    async check(candidate: DeployCandidate, now: Date = new Date()): Promise<CollisionReport> {
+        const report: CollisionReport = { blocked: null, warnings: [] };
+        const active = COLLISION_RULES.filter((rule) => this.actions[rule] !== 'allow');
+        if (!active.length) return report;
+
+        const parentTweetId = candidate.parentTweetId !== candidate.deployTweetId ? candidate.parentTweetId : undefined;
+        const since = new Date(now.getTime() - this.windowMs);
+        const earlier = await this.deployments.findCollisionCandidates({
+            excludeTweetId: candidate.deployTweetId,
+            parentTweetId: active.includes('parent') ? parentTweetId : undefined,
+            tokenSymbol: candidate.ticker.toUpperCase(),
+            tokenName: candidate.name,
+            since,
+        });
+
+        for (const rule of active) {
+            const existing = earlier.find((deployment) => this.matches(rule, deployment, candidate, parentTweetId, since));
+            if (!existing) continue;
+
+            const collision: Collision = { rule, action: this.actions[rule], existing };
+            if (collision.action === 'block') {
+                report.blocked = collision;
+                return report;
+            }
+            report.warnings.push(collision);
+        }
+        return report;
+    }
+
+    private matches(
+        rule: CollisionRule,
+        deployment: Deployment,
+        candidate: DeployCandidate,
+        parentTweetId: string | undefined,
+        since: Date
+    ): boolean {
+        if (rule === 'parent') {
+            return !!parentTweetId && deployment.parent_tweet_id === parentTweetId;
+        }
+        if (new Date(deployment.created_at) < since) return false;
+        return rule === 'ticker'
+            ? deployment.token_symbol?.toUpperCase() === candidate.ticker.toUpperCase()
+            : deployment.token_name?.toLowerCase() === candidate.name.toLowerCase();
+    }
+}
+
+/**
+ * Why a deploy collided, and where the existing token is, for a reply
+ */
+export function describeCollision(collision: Collision, locale: Locale): string {
+    const { existing } = collision;
+    const reason = translate(locale, `collision.${collision.rule}`, {
+        ticker: existing.token_symbol ?? '',
+        name: existing.token_name ?? '',
+    });
+    if (existing.token_address && isAddress(existing.token_address)) {
+        return `${reason}\n${translate(locale, 'collision.existing', { tokenAddress: existing.token_address })}`;
+    }
+    // Deploys recorded before receipts were parsed hold a placeholder instead of their address
+    if (existing.status === 'deployed') return reason;
+    return `${reason}\n${translate(locale, 'collision.pending', { tweetId: existing.deploy_tweet_id })}`;
+}
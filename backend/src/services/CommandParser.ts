@@ -1,106 +1,492 @@
 import { z } from 'zod';
 import type { DeployCommand } from '../types/index.js';
+import { findDisallowedLetter, findImpersonated, mixesLookalikeScripts, normalizeTokenText } from '../utils/confusables.js';
+import { renderTemplate } from '../utils/template.js';
+import { handlePattern, mentionsHandle } from '../utils/mentions.js';
+import { DEFAULT_LOCALE, LOCALE_PACKS, MENTION_LEAD_IN, keywordAlternation, localePack, type HintKey, type Locale } from '../i18n/index.js';
+
+export type ParseErrorCode =
+    | 'NOT_A_COMMAND'
+    | 'MISSING_TICKER'
+    | 'MISSING_NAME'
+    | 'TICKER_TOO_LONG'
+    | 'INVALID_TICKER_CHARS'
+    | 'NAME_TOO_LONG'
+    | 'INVALID_NAME_CHARS'
+    | 'MIXED_SCRIPTS'
+    | 'PROTECTED_TICKER'
+    | 'DESCRIPTION_TOO_LONG'
+    | 'INVALID_URL'
+    | 'INVALID_FEE_RECIPIENT'
+    | 'FEE_RECIPIENT_IS_BOT';
+
+export type CommandField = 'ticker' | 'name' | 'fee' | 'description' | 'image' | 'twitter' | 'telegram' | 'website';
+
+export interface ParseError {
+    code: ParseErrorCode;
+    field?: CommandField;
+    value?: string; // The offending input, as written
+    similarTo?: string; // Protected ticker a PROTECTED_TICKER value passes for
+}
+
+/**
+ * Which scripts names and tickers may use, and which tickers can't be imitated
+ * Script names are Unicode script properties (Latin, Han, Cyrillic, ...).
+ */
+export interface TokenTextPolicy {
+    nameScripts: string[];
+    tickerScripts: string[];
+    protectedTickers: string[];
+}
+
+export const DEFAULT_TOKEN_TEXT_POLICY: TokenTextPolicy = {
+    nameScripts: ['Latin', 'Han', 'Hiragana', 'Katakana', 'Hangul'],
+    tickerScripts: ['Latin'],
+    protectedTickers: ['BNB', 'WBNB', 'BTCB', 'ETH', 'CAKE', 'USDT', 'USDC', 'BUSD', 'FDUSD', 'DAI', 'TWT', 'XVS'],
+};
+
+export type ParseResult =
+    | { ok: true; command: DeployCommand }
+    | { ok: false; error: ParseError };
+
+export type FieldResult =
+    | { ok: true; value: string }
+    | { ok: false; error: ParseError };
+
+// Fields a command can carry besides `fee:`, in the order they're checked
+export const TOKEN_FIELDS = ['ticker', 'name', 'description', 'image', 'website', 'twitter', 'telegram'] as const;
+export type TokenField = typeof TOKEN_FIELDS[number];
+
+const TICKER_MAX_LENGTH = 10;
+const NAME_MAX_LENGTH = 50;
+const DESCRIPTION_MAX_LENGTH = 500;
+
+const PACKS = Object.values(LOCALE_PACKS);
+
+// Accepted keys in every language and the field each one fills
+const FIELD_KEYS: Record<string, CommandField> = Object.assign({}, ...PACKS.map((pack) => pack.fields));
+
+const FIELD_KEY_PATTERN = new RegExp(`(^|[ \\t\\n，；])(${keywordAlternation(Object.keys(FIELD_KEYS))})[ \\t]*[:：]`, 'giu');
+const TICKER_KEY_PATTERN = new RegExp(
+    `(?:${keywordAlternation(Object.keys(FIELD_KEYS).filter((key) => FIELD_KEYS[key] === 'ticker'))})\\s*[:：]`,
+    'iu'
+);
+
+// `deploy` is always a command; casual verbs like `launch` only with a cashtag or `ticker:`
+const DEPLOY_VERBS = new Set(PACKS.flatMap((pack) => pack.verbs.deploy ?? []));
+const VERB_PATTERN = `(${keywordAlternation([...DEPLOY_VERBS, ...PACKS.flatMap((pack) => pack.casualDeployVerbs)])})`;
+const CASHTAG_PATTERN = /(^|\s)\$([A-Za-z][A-Za-z0-9_]*)/;
+const QUOTED_NAME_PATTERN = /["\u201C]([^"\u201C\u201D]+)["\u201D]/;
+// Quoted text on one line; keys inside it are part of a value
+const QUOTED_SPAN_PATTERN = /["\u201C][^"\u201C\u201D\n]*["\u201D]/g;
+// Filler between the verb and a cashtag, e.g. "launch a new token $PEPE"
+const FILLER_PATTERN = /^(?:an?\s+)?(?:new\s+)?(?:meme\s*)?(?:token|coin)\b\s*/i;
+// Hashtags, links, emoji and sentence punctuation people end tweets with
+const TRAILING_NOISE_PATTERN = /(?:#\w+|https?:\/\/\S+|[!?,;！？，；。]|\p{Extended_Pictographic}|\uFE0F)\s*$/u;
+
+// Hosts accepted for the social link fields, and where a bare @handle points
+const SOCIAL_HOSTS: Record<'twitter' | 'telegram', { hosts: string[]; base: string }> = {
+    twitter: { hosts: ['x.com', 'twitter.com'], base: 'https://x.com/' },
+    telegram: { hosts: ['t.me', 'telegram.me'], base: 'https://t.me/' },
+};
 
 /**
- * CommandParser - Strictly parses deploy commands from tweet text
- * 
- * Valid format:
+ * CommandParser - Strictly parses deploy commands from tweets and DMs
+ *
+ * Valid format (one key per line, or several inline):
  * @botname deploy
- * ticker: XXXX
+ * ticker: XXXX        (alias `symbol:`)
  * name: YYYY
+ * desc: ...           (optional, alias `description:`)
+ * image: https://...  (optional)
+ * twitter: @handle or https://x.com/...     (optional)
+ * telegram: @group or https://t.me/...      (optional)
+ * website: https://...                      (optional)
+ * fee: @handle        (optional, alias `for:`; sends fees to that account)
+ *
+ * The short form `@botname deploy TICKER Token Name` is also accepted, and
+ * may be followed by any of the optional keys. It tolerates the way people
+ * actually write: `launch` or `create` instead of `deploy`, a `$CASHTAG`
+ * anywhere as the ticker, a "quoted name", and trailing hashtags, links or
+ * emoji. With a cashtag and no name, the ticker doubles as the name.
+ * DMs use the same grammar without the mention (`deploy ...`).
+ * Verbs, "please" and keys may be written in any locale pack's language
+ * (see src/i18n), e.g. `@botname 部署 $TICKER 名称` or `名称：...`.
+ *
+ * Names and tickers are NFKC-normalized, limited to the policy's scripts,
+ * and rejected if a word mixes Latin look-alike alphabets or the whole thing
+ * passes for a protected ticker (e.g. Cyrillic "ВNВ" or "U5DT").
+ *
+ * A mention counts as a deploy attempt when the verb directly follows the
+ * bot's handle (optionally after "please"), or when it uses the verb and has
+ * a `ticker:` field. Anything else is NOT_A_COMMAND; malformed attempts get
+ * a specific error code.
  */
 export class CommandParser {
     private botUsername: string;
 
-    // Validation schemas
+    // Validation schemas; letters are further limited to the policy's scripts
     private tickerSchema = z.string()
         .min(1, 'Ticker too short')
-        .max(10, 'Ticker too long')
-        .regex(/^[A-Z0-9]+$/i, 'Ticker must be alphanumeric');
+        .max(TICKER_MAX_LENGTH, 'Ticker too long')
+        .regex(/^[\p{L}\p{Nd}]+$/u, 'Ticker must be alphanumeric');
 
     private nameSchema = z.string()
         .min(1, 'Name too short')
-        .max(50, 'Name too long')
-        .regex(/^[a-zA-Z0-9\s\-_.]+$/, 'Name contains invalid characters');
+        .max(NAME_MAX_LENGTH, 'Name too long')
+        .regex(/^[\p{L}\p{Nd}\s\-_.]+$/u, 'Name contains invalid characters');
+
+    private handleSchema = z.string()
+        .regex(/^[A-Za-z0-9_]{1,15}$/, 'Invalid handle');
 
-    constructor(botUsername: string) {
+    constructor(botUsername: string, private readonly policy: TokenTextPolicy = DEFAULT_TOKEN_TEXT_POLICY) {
         this.botUsername = botUsername.toLowerCase();
     }
 
     /**
      * Parse a deploy command from tweet text
      * @param text The tweet text
-     * @returns Parsed command or null if invalid
+     * @returns The command, or the first problem found
      */
-    parse(text: string): DeployCommand | null {
-        try {
-            // Normalize text
-            const normalized = text.trim().toLowerCase();
-
-            // Check for bot mention and deploy keyword
-            if (!normalized.includes(`@${this.botUsername}`) || !normalized.includes('deploy')) {
-                return null;
-            }
+    parse(text: string): ParseResult {
+        if (!this.isDeployAttempt(text)) {
+            return fail({ code: 'NOT_A_COMMAND' });
+        }
+        return this.parseFields(text, new RegExp(`@\\w+${MENTION_LEAD_IN}${VERB_PATTERN}(.*)`, 'iu'));
+    }
+
+    /**
+     * Parse a deploy command sent by DM (`deploy` followed by the same fields)
+     */
+    parseDirectMessage(text: string): ParseResult {
+        if (!this.isDirectMessageCommand(text)) {
+            return fail({ code: 'NOT_A_COMMAND' });
+        }
+        return this.parseFields(text, new RegExp(`^\\s*${VERB_PATTERN}(.*)`, 'iu'));
+    }
+
+    /**
+     * Whether a DM is a deploy command, before parsing it
+     */
+    isDirectMessageCommand(text: string): boolean {
+        const verb = text.match(new RegExp(`^\\s*${VERB_PATTERN}`, 'iu'));
+        return !!verb && (DEPLOY_VERBS.has(verb[1].toLowerCase()) || hasExplicitTicker(text));
+    }
+
+    /**
+     * One-line correction for a malformed command, suitable for a reply
+     * @param context Where the command came from, to show the right example
+     * @param locale Language to answer in
+     */
+    hint(error: ParseError, context: 'tweet' | 'dm' = 'tweet', locale: Locale = DEFAULT_LOCALE): string {
+        const { hints } = localePack(locale);
+        const render = (key: HintKey, vars: Record<string, string | number | undefined> = {}) =>
+            renderTemplate(hints[key], { bot: this.botUsername, value: error.value, length: error.value?.length, ...vars });
+        const example = render(context === 'dm' ? 'EXAMPLE_DM' : 'EXAMPLE_TWEET');
 
-            let ticker: string | null = null;
-            let name: string | null = null;
-
-            // Try structured format first: ticker: XXX / name: YYY
-            const tickerMatch = text.match(/ticker\s*:\s*(\S+)/i);
-            const nameMatch = text.match(/name\s*:\s*([A-Za-z0-9\s\-_.]+?)(?:\n|$)/i);
-
-            if (tickerMatch && nameMatch) {
-                ticker = tickerMatch[1].trim().toUpperCase();
-                name = nameMatch[1].trim();
-            } else {
-                // Fallback: Simple format `@bot deploy TICKER TokenName`
-                // Match: @botname deploy TICKER REST_OF_LINE
-                const simpleMatch = text.match(/@\w+\s+deploy\s+(\S+)\s+(.+)/i);
-                if (simpleMatch) {
-                    ticker = simpleMatch[1].trim().toUpperCase();
-                    name = simpleMatch[2].trim();
+        switch (error.code) {
+            case 'NOT_A_COMMAND':
+                return render(error.code, { action: render(context === 'dm' ? 'ACTION_DM' : 'ACTION_TWEET'), example });
+            case 'MISSING_TICKER':
+            case 'MISSING_NAME':
+                return render(error.code, { example });
+            case 'TICKER_TOO_LONG':
+                return render(error.code, { limit: TICKER_MAX_LENGTH });
+            case 'INVALID_TICKER_CHARS':
+                return render(error.code, { letters: describeLetters(this.policy.tickerScripts, hints) });
+            case 'NAME_TOO_LONG':
+                return render(error.code, { limit: NAME_MAX_LENGTH });
+            case 'INVALID_NAME_CHARS':
+                return render(error.code, { letters: describeLetters(this.policy.nameScripts, hints) });
+            case 'MIXED_SCRIPTS':
+                return render(error.field === 'ticker' ? 'MIXED_SCRIPTS' : 'MIXED_SCRIPTS_NAME');
+            case 'PROTECTED_TICKER':
+                return render(error.field === 'ticker' ? 'PROTECTED_TICKER' : 'PROTECTED_TICKER_NAME', { similarTo: error.similarTo });
+            case 'DESCRIPTION_TOO_LONG':
+                return render(error.code, { limit: DESCRIPTION_MAX_LENGTH });
+            case 'INVALID_URL':
+                return error.field === 'twitter' || error.field === 'telegram'
+                    ? render('INVALID_SOCIAL_URL', { field: error.field, host: SOCIAL_HOSTS[error.field].hosts[0] })
+                    : render(error.code, { field: error.field });
+            case 'INVALID_FEE_RECIPIENT':
+            case 'FEE_RECIPIENT_IS_BOT':
+                return render(error.code);
+        }
+    }
+
+    /**
+     * Check and clean a single field value, e.g. one answer in the DM deploy wizard
+     * Tickers lose a leading $ and are uppercased; links are normalized.
+     */
+    parseField(field: TokenField, input: string): FieldResult {
+        const value = input.trim();
+        switch (field) {
+            case 'ticker': {
+                const ticker = normalizeTokenText(value.replace(/^\$/, '')).toUpperCase();
+                if (!ticker) {
+                    return { ok: false, error: { code: 'MISSING_TICKER', field } };
+                }
+                const result = this.tickerSchema.safeParse(ticker);
+                if (!result.success) {
+                    const tooLong = result.error.issues.some((issue) => issue.code === 'too_big');
+                    return { ok: false, error: { code: tooLong ? 'TICKER_TOO_LONG' : 'INVALID_TICKER_CHARS', field, value: ticker } };
                 }
+                const problem = this.checkScripts(result.data, field, this.policy.tickerScripts, 'INVALID_TICKER_CHARS');
+                return problem ? { ok: false, error: problem } : { ok: true, value: result.data };
             }
-
-            if (!ticker) {
-                console.log('❌ No ticker found in command');
-                return null;
+            case 'name': {
+                const name = normalizeTokenText(value);
+                if (!name) {
+                    return { ok: false, error: { code: 'MISSING_NAME', field } };
+                }
+                const result = this.nameSchema.safeParse(name);
+                if (!result.success) {
+                    const tooLong = result.error.issues.some((issue) => issue.code === 'too_big');
+                    return { ok: false, error: { code: tooLong ? 'NAME_TOO_LONG' : 'INVALID_NAME_CHARS', field, value: name } };
+                }
+                const problem = this.checkScripts(result.data, field, this.policy.nameScripts, 'INVALID_NAME_CHARS');
+                return problem ? { ok: false, error: problem } : { ok: true, value: result.data };
             }
-            if (!name) {
-                console.log('❌ No name found in command');
-                return null;
+            case 'description':
+                return value.length > DESCRIPTION_MAX_LENGTH
+                    ? { ok: false, error: { code: 'DESCRIPTION_TOO_LONG', field, value } }
+                    : { ok: true, value };
+            case 'image':
+            case 'website':
+            case 'twitter':
+            case 'telegram': {
+                const url = field === 'image' || field === 'website' ? parseHttpUrl(value) : parseSocialLink(value, SOCIAL_HOSTS[field]);
+                return url ? { ok: true, value: url } : { ok: false, error: { code: 'INVALID_URL', field, value } };
             }
+        }
+    }
+
+    /**
+     * Validate a pre-parsed command
+     */
+    validate(command: DeployCommand): boolean {
+        const tickerValid = this.tickerSchema.safeParse(command.ticker).success;
+        const nameValid = this.nameSchema.safeParse(command.name).success;
+        return tickerValid && nameValid;
+    }
+
+    /**
+     * `@bot deploy ...` (or `launch`/`create` with a cashtag), or any mention
+     * of the verb with a `ticker:` field
+     */
+    private isDeployAttempt(text: string): boolean {
+        const normalized = text.trim().toLowerCase();
+        if (!mentionsHandle(normalized, this.botUsername)) {
+            return false;
+        }
+        const verb = normalized.match(new RegExp(`${handlePattern(this.botUsername)}${MENTION_LEAD_IN}${VERB_PATTERN}`, 'u'));
+        if (verb) {
+            return DEPLOY_VERBS.has(verb[1]) || hasExplicitTicker(text);
+        }
+        return new RegExp(VERB_PATTERN, 'u').test(normalized) && TICKER_KEY_PATTERN.test(normalized);
+    }
 
-            // Validate
-            const tickerResult = this.tickerSchema.safeParse(ticker);
-            if (!tickerResult.success) {
-                console.log(`❌ Invalid ticker: ${tickerResult.error.message}`);
-                return null;
+    /**
+     * Read key:value fields, falling back to the short form for ticker and name
+     * @param shortForm Captures the verb and the rest of its line once fields are removed
+     */
+    private parseFields(text: string, shortForm: RegExp): ParseResult {
+        const { fields, rest } = extractFields(text);
+
+        let ticker = fields.ticker?.replace(/^\$/, '') || null;
+        let name = fields.name || null;
+        if (fields.ticker === undefined && fields.name === undefined) {
+            const simpleMatch = rest.match(shortForm);
+            if (simpleMatch) {
+                ({ ticker, name } = parseShortForm(simpleMatch[2]));
             }
+        }
+        ticker = ticker && normalizeTokenText(ticker).toUpperCase();
+        name = name && normalizeTokenText(name);
 
-            const nameResult = this.nameSchema.safeParse(name);
-            if (!nameResult.success) {
-                console.log(`❌ Invalid name: ${nameResult.error.message}`);
-                return null;
+        let feeRecipientHandle: string | undefined;
+        if (fields.fee !== undefined) {
+            const handle = fields.fee.split(/\s+/)[0];
+            const handleResult = this.handleSchema.safeParse(handle.replace(/^@/, ''));
+            if (!handle.startsWith('@') || !handleResult.success) {
+                return fail({ code: 'INVALID_FEE_RECIPIENT', field: 'fee', value: handle });
             }
+            if (handleResult.data.toLowerCase() === this.botUsername) {
+                return fail({ code: 'FEE_RECIPIENT_IS_BOT', field: 'fee', value: handle });
+            }
+            feeRecipientHandle = handleResult.data;
+        }
 
-            return {
-                ticker: tickerResult.data,
-                name: nameResult.data,
-            };
+        if (!ticker) {
+            return fail({ code: 'MISSING_TICKER', field: 'ticker' });
+        }
+        if (!name) {
+            return fail({ code: 'MISSING_NAME', field: 'name' });
+        }
 
-        } catch (error) {
-            console.error('❌ Error parsing command:', error);
-            return null;
+        const command = { ticker, name } as DeployCommand;
+        const values: Partial<Record<TokenField, string>> = { ...fields, ticker, name };
+        for (const field of TOKEN_FIELDS) {
+            const value = values[field];
+            if (!value) continue;
+            const result = this.parseField(field, value);
+            if (!result.ok) {
+                return fail(result.error);
+            }
+            command[field] = result.value;
+        }
+
+        if (feeRecipientHandle) {
+            command.feeRecipientHandle = feeRecipientHandle;
         }
+        return { ok: true, command };
     }
 
     /**
-     * Validate a pre-parsed command
+     * Allowed scripts, no look-alike mixing, and no imitating a protected ticker
      */
-    validate(command: DeployCommand): boolean {
-        const tickerValid = this.tickerSchema.safeParse(command.ticker).success;
-        const nameValid = this.nameSchema.safeParse(command.name).success;
-        return tickerValid && nameValid;
+    private checkScripts(
+        value: string,
+        field: 'ticker' | 'name',
+        scripts: string[],
+        disallowedCode: ParseErrorCode
+    ): ParseError | null {
+        if (findDisallowedLetter(value, scripts)) {
+            return { code: disallowedCode, field, value };
+        }
+        if (mixesLookalikeScripts(value)) {
+            return { code: 'MIXED_SCRIPTS', field, value };
+        }
+        const similarTo = findImpersonated(value, this.policy.protectedTickers);
+        if (similarTo) {
+            return { code: 'PROTECTED_TICKER', field, value, similarTo };
+        }
+        return null;
+    }
+}
+
+function fail(error: ParseError): ParseResult {
+    return { ok: false, error };
+}
+
+function describeLetters(scripts: string[], hints: Record<HintKey, string>): string {
+    return scripts.length === 1 && scripts[0] === 'Latin'
+        ? hints.LETTERS_LATIN
+        : renderTemplate(hints.LETTERS_SCRIPTS, { scripts: scripts.join(', ') });
+}
+
+function hasExplicitTicker(text: string): boolean {
+    return CASHTAG_PATTERN.test(text) || TICKER_KEY_PATTERN.test(text);
+}
+
+/**
+ * Pick ticker and name out of the words after the verb
+ * A cashtag anywhere is the ticker, otherwise the first word is. A quoted
+ * name wins over the remaining words.
+ */
+function parseShortForm(words: string): { ticker: string | null; name: string | null } {
+    let remaining = words.trim();
+    while (TRAILING_NOISE_PATTERN.test(remaining)) {
+        remaining = remaining.replace(TRAILING_NOISE_PATTERN, '').trimEnd();
     }
+
+    let name: string | null = null;
+    const quoted = remaining.match(QUOTED_NAME_PATTERN);
+    if (quoted) {
+        name = quoted[1].trim();
+        remaining = remaining.replace(quoted[0], ' ');
+    }
+
+    let ticker: string | null;
+    const cashtag = remaining.match(CASHTAG_PATTERN);
+    if (cashtag) {
+        ticker = cashtag[2].toUpperCase();
+        remaining = remaining.replace(cashtag[0], ' ').trim().replace(FILLER_PATTERN, '');
+    } else {
+        const [first, ...others] = remaining.trim().split(/\s+/);
+        ticker = first ? first.toUpperCase() : null;
+        remaining = others.join(' ');
+    }
+
+    if (!name) {
+        // "launch $PEPE, called Pepe Coin"
+        name = remaining.replace(/^[\s,:;-]+/, '').replace(/^(?:called|named)\s+/i, '').replace(/\s+/g, ' ').trim() || null;
+    }
+    if (!name && cashtag) {
+        name = ticker;
+    }
+    return { ticker, name };
+}
+
+/**
+ * Split known `key: value` fields out of the text
+ * A value runs to the end of its line or to the next key on the same line.
+ * A description always runs to the end of its line, and keys inside quotes
+ * are ignored, so free text like `desc: made for: everyone` stays whole.
+ * The first occurrence of a field wins.
+ * @returns The fields, and the text with every field removed
+ */
+function extractFields(text: string): { fields: Partial<Record<CommandField, string>>; rest: string } {
+    const quoted = [...text.matchAll(QUOTED_SPAN_PATTERN)].map((span) => ({ start: span.index!, end: span.index! + span[0].length }));
+    const matches: { field: CommandField; keyStart: number; valueStart: number }[] = [];
+    let descriptionEnd = 0;
+    for (const match of text.matchAll(FIELD_KEY_PATTERN)) {
+        const keyStart = match.index! + match[1].length;
+        if (keyStart < descriptionEnd || quoted.some((span) => keyStart > span.start && keyStart < span.end)) {
+            continue;
+        }
+        const field = FIELD_KEYS[match[2].toLowerCase()];
+        const valueStart = match.index! + match[0].length;
+        matches.push({ field, keyStart, valueStart });
+        if (field === 'description') {
+            const lineEnd = text.indexOf('\n', valueStart);
+            descriptionEnd = lineEnd === -1 ? text.length : lineEnd;
+        }
+    }
+
+    const fields: Partial<Record<CommandField, string>> = {};
+    let rest = '';
+    let restFrom = 0;
+
+    matches.forEach((match, i) => {
+        const lineEnd = text.indexOf('\n', match.valueStart);
+        const nextKey = matches[i + 1]?.keyStart ?? text.length;
+        const valueEnd = Math.min(lineEnd === -1 ? text.length : lineEnd, nextKey);
+
+        if (fields[match.field] === undefined) {
+            fields[match.field] = text.slice(match.valueStart, valueEnd).trim().replace(/[，；]$/, '');
+        }
+        rest += text.slice(restFrom, match.keyStart);
+        restFrom = valueEnd;
+    });
+    rest += text.slice(restFrom);
+
+    return { fields, rest };
+}
+
+/**
+ * @returns The normalized URL, or null unless it is an absolute http(s) URL
+ */
+function parseHttpUrl(value: string): string | null {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Accept `@handle` or a link on one of the network's hosts
+ */
+function parseSocialLink(value: string, network: { hosts: string[]; base: string }): string | null {
+    const handle = value.match(/^@([A-Za-z0-9_]{1,32})$/);
+    if (handle) {
+        return `${network.base}${handle[1]}`;
+    }
+
+    const url = parseHttpUrl(value);
+    if (!url) return null;
+    const host = new URL(url).hostname.replace(/^www\./, '');
+    return network.hosts.includes(host) ? url : null;
 }
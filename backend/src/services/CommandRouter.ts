@@ -0,0 +1,150 @@
+import type { DirectMessage, TweetMention } from '../types/index.js';
+import {
+    DEFAULT_LOCALE,
+    LOCALE_PACKS,
+    MENTION_LEAD_IN,
+    keywordAlternation,
+    localePack,
+    translate,
+    type Locale,
+} from '../i18n/index.js';
+import { handlePattern } from '../utils/mentions.js';
+
+export type CommandChannel = 'dm' | 'mention';
+
+/**
+ * What a command handler gets to work with
+ */
+export interface CommandContext {
+    channel: CommandChannel;
+    userId: string;
+    username?: string; // Known for mentions only
+    text: string; // The whole message
+    args: string; // Text after the verb, trimmed
+    mention?: TweetMention; // Set for mentions
+    dm?: DirectMessage; // Set for DMs
+    locale: Locale; // Language to answer in
+    reply(text: string): Promise<void>;
+}
+
+/**
+ * One verb the bot understands
+ * A handler returns false when the event should be retried later.
+ */
+export interface CommandDefinition {
+    verb: string;
+    aliases?: string[];
+    usage: string; // e.g. "status <tweet or token>"
+    description: string;
+    channels: CommandChannel[];
+    handler(context: CommandContext): Promise<boolean | void>;
+}
+
+export interface RoutedCommand {
+    command: CommandDefinition;
+    args: string;
+}
+
+/**
+ * CommandRouter - Maps the verb at the start of a DM, or right after the bot's
+ * handle in a mention, to its handler
+ * Both channels share one registry, so `help` is generated from it and always
+ * matches what the bot accepts. Besides its own verb and aliases, a command
+ * answers to the keywords every locale pack lists for that verb.
+ */
+export class CommandRouter {
+    private commands: CommandDefinition[] = [];
+    private botUsername: string;
+
+    constructor(botUsername: string) {
+        this.botUsername = botUsername.toLowerCase();
+    }
+
+    register(command: CommandDefinition): this {
+        for (const verb of [command.verb, ...(command.aliases || [])]) {
+            if (this.find(verb)) {
+                throw new Error(`Command verb "${verb}" is already registered`);
+            }
+        }
+        this.commands.push(command);
+        return this;
+    }
+
+    get(verb: string): CommandDefinition | undefined {
+        return this.find(verb.toLowerCase());
+    }
+
+    /**
+     * Find the command a message invokes on a channel
+     * @returns null when there's no verb, it's unknown, or not offered on the channel
+     */
+    match(text: string, channel: CommandChannel): RoutedCommand | null {
+        const keywords = keywordAlternation(Object.keys(this.keywords()));
+        const pattern = channel === 'dm'
+            ? new RegExp(`^\\s*(${keywords})(.*)$`, 'isu')
+            : new RegExp(`${handlePattern(this.botUsername)}${MENTION_LEAD_IN}(${keywords})(.*)$`, 'isu');
+        const match = text.match(pattern);
+        if (!match) return null;
+
+        const command = this.keywords()[match[1].toLowerCase()];
+        if (!command || !command.channels.includes(channel)) return null;
+        return { command, args: match[2].trim() };
+    }
+
+    /**
+     * Command list for the channel, in registration order
+     * DMs get one command per line with its description; mentions get a
+     * compact list that fits in a reply. Locale packs may override a
+     * command's usage and description; their other keywords show as aliases.
+     */
+    help(channel: CommandChannel, locale: Locale = DEFAULT_LOCALE): string {
+        const pack = localePack(locale);
+        const available = this.commands
+            .filter((command) => command.channels.includes(channel))
+            .map((command) => {
+                const override = pack.commands[command.verb];
+                return {
+                    usage: override?.usage ?? command.usage,
+                    description: override?.description ?? command.description,
+                    aliases: override ? (pack.verbs[command.verb] ?? []).slice(1) : command.aliases ?? [],
+                };
+            });
+
+        if (channel === 'mention') {
+            return translate(locale, 'help.mention', { commands: available.map((command) => command.usage).join(' · ') });
+        }
+        return [
+            translate(locale, 'help.header'),
+            ...available.map((command) => {
+                const aliases = command.aliases.length ? translate(locale, 'help.aliases', { aliases: command.aliases.join(', ') }) : '';
+                return `• ${command.usage}${aliases} - ${command.description}`;
+            }),
+        ].join('\n');
+    }
+
+    /**
+     * Every word that invokes a registered command, lowercased
+     * Registered verbs and aliases win over locale pack keywords.
+     */
+    private keywords(): Record<string, CommandDefinition> {
+        const keywords: Record<string, CommandDefinition> = {};
+        for (const pack of Object.values(LOCALE_PACKS)) {
+            for (const [verb, words] of Object.entries(pack.verbs)) {
+                const command = this.find(verb);
+                if (command) words.forEach((word) => { keywords[word.toLowerCase()] = command; });
+            }
+            const deploy = this.find('deploy');
+            if (deploy) pack.casualDeployVerbs.forEach((word) => { keywords[word.toLowerCase()] = deploy; });
+        }
+        for (const command of this.commands) {
+            for (const verb of [command.verb, ...(command.aliases || [])]) {
+                keywords[verb] = command;
+            }
+        }
+        return keywords;
+    }
+
+    private find(verb: string): CommandDefinition | undefined {
+        return this.commands.find((command) => command.verb === verb || command.aliases?.includes(verb));
+    }
+}
@@ -0,0 +1,72 @@
+import type { Redis } from 'ioredis';
+
+/**
+ * Per-user conversation state that expires when the user goes quiet
+ */
+export interface ConversationStore<T> {
+    get(userId: string): Promise<T | null>;
+    set(userId: string, state: T, ttlSeconds: number): Promise<void>;
+    delete(userId: string): Promise<void>;
+    take(userId: string): Promise<T | null>; // Get and delete in one step; concurrent callers can't both get it
+}
+
+/**
+ * Redis-backed store; conversations survive a bot restart
+ */
+export class RedisConversationStore<T> implements ConversationStore<T> {
+    /**
+     * @param prefix Key namespace, e.g. `wizard:<botId>:`
+     */
+    constructor(private readonly redis: Redis, private readonly prefix: string) { }
+
+    async get(userId: string): Promise<T | null> {
+        const value = await this.redis.get(this.prefix + userId);
+        return value ? JSON.parse(value) as T : null;
+    }
+
+    async set(userId: string, state: T, ttlSeconds: number): Promise<void> {
+        await this.redis.set(this.prefix + userId, JSON.stringify(state), 'EX', ttlSeconds);
+    }
+
+    async delete(userId: string): Promise<void> {
+        await this.redis.del(this.prefix + userId);
+    }
+
+    async take(userId: string): Promise<T | null> {
+        const value = await this.redis.getdel(this.prefix + userId);
+        return value ? JSON.parse(value) as T : null;
+    }
+}
+
+/**
+ * In-process store for MOCK_QUEUE runs without Redis; lost on restart
+ */
+export class MemoryConversationStore<T> implements ConversationStore<T> {
+    private entries = new Map<string, { state: T; expiresAt: number }>();
+
+    constructor(private readonly now: () => number = Date.now) { }
+
+    async get(userId: string): Promise<T | null> {
+        const entry = this.entries.get(userId);
+        if (!entry) return null;
+        if (entry.expiresAt <= this.now()) {
+            this.entries.delete(userId);
+            return null;
+        }
+        return entry.state;
+    }
+
+    async set(userId: string, state: T, ttlSeconds: number): Promise<void> {
+        this.entries.set(userId, { state, expiresAt: this.now() + ttlSeconds * 1000 });
+    }
+
+    async delete(userId: string): Promise<void> {
+        this.entries.delete(userId);
+    }
+
+    async take(userId: string): Promise<T | null> {
+        const entry = this.entries.get(userId);
+        this.entries.delete(userId);
+        return entry && entry.expiresAt > this.now() ? entry.state : null;
+    }
+}
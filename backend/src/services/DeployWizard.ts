@@ -0,0 +1,127 @@
+import type { CommandParser, TokenField } from './CommandParser.js';
+import type { ConversationStore } from './ConversationStore.js';
+import type { DeployCommand } from '../types/index.js';
+import { LOCALE_PACKS, localePack, translate, type Locale } from '../i18n/index.js';
+
+// Questions in the order they're asked; the optional ones accept `skip`
+const STEPS = ['name', 'ticker', 'image', 'website', 'twitter', 'telegram'] as const satisfies readonly TokenField[];
+const OPTIONAL_STEPS: ReadonlySet<WizardStep> = new Set(['image', 'website', 'twitter', 'telegram']);
+
+export type WizardStep = typeof STEPS[number] | 'confirm';
+
+export interface WizardState {
+    step: WizardStep;
+    answers: Partial<Record<TokenField, string>>; // Validated values so far
+}
+
+export interface WizardReply {
+    text?: string; // Next question, correction or summary
+    command?: DeployCommand; // Set once the user confirms
+}
+
+type Answer = 'confirm' | 'cancel' | 'skip';
+
+/**
+ * DeployWizard - Builds a deploy command over several DMs
+ * A bare `deploy` DM starts it; each answer is validated with the same rules
+ * as one-message commands before the next question is asked. The state
+ * lives in a ConversationStore with a TTL that restarts on every answer, so
+ * a conversation continues after a bot restart and lapses when abandoned.
+ */
+export class DeployWizard {
+    /**
+     * @param ttlSeconds How long a conversation waits for the next answer
+     */
+    constructor(
+        private readonly parser: CommandParser,
+        private readonly store: ConversationStore<WizardState>,
+        private readonly ttlSeconds: number
+    ) { }
+
+    /**
+     * Start (or restart) a conversation
+     * @returns The first question
+     */
+    async start(userId: string, locale: Locale): Promise<string> {
+        const state: WizardState = { step: STEPS[0], answers: {} };
+        await this.store.set(userId, state, this.ttlSeconds);
+        return translate(locale, 'wizard.start', { prompt: this.prompt(state, locale) });
+    }
+
+    /**
+     * Drop the user's conversation, e.g. when they send a complete command instead
+     */
+    async close(userId: string): Promise<void> {
+        await this.store.delete(userId);
+    }
+
+    /**
+     * Take the user's reply to the current question
+     * @returns What to send back, or null when the user has no conversation open
+     */
+    async answer(userId: string, text: string, locale: Locale): Promise<WizardReply | null> {
+        const state = await this.store.get(userId);
+        if (!state) return null;
+
+        const answer = matchAnswer(text);
+        if (answer === 'cancel') {
+            await this.store.delete(userId);
+            return { text: translate(locale, 'wizard.cancelled') };
+        }
+
+        if (state.step === 'confirm') {
+            if (answer === 'confirm') {
+                await this.store.delete(userId);
+                return { command: { ...state.answers } as DeployCommand };
+            }
+            await this.store.set(userId, state, this.ttlSeconds);
+            return { text: this.prompt(state, locale) };
+        }
+
+        if (!(answer === 'skip' && OPTIONAL_STEPS.has(state.step))) {
+            const result = this.parser.parseField(state.step, text);
+            if (!result.ok) {
+                await this.store.set(userId, state, this.ttlSeconds);
+                return {
+                    text: translate(locale, 'wizard.invalid', {
+                        hint: this.parser.hint(result.error, 'dm', locale),
+                        prompt: this.prompt(state, locale),
+                    }),
+                };
+            }
+            state.answers[state.step] = result.value;
+        }
+
+        const next: WizardState = { step: STEPS[STEPS.indexOf(state.step) + 1] ?? 'confirm', answers: state.answers };
+        await this.store.set(userId, next, this.ttlSeconds);
+        return { text: this.prompt(next, locale) };
+    }
+
+    /**
+     * The current question, or the summary awaiting confirmation
+     */
+    private prompt(state: WizardState, locale: Locale): string {
+        if (state.step !== 'confirm') {
+            return translate(locale, `wizard.${state.step}`);
+        }
+        const { labels } = localePack(locale).wizard;
+        const summary = STEPS
+            .filter((step) => state.answers[step])
+            .map((step) => `${labels[step]}: ${step === 'ticker' ? '$' : ''}${state.answers[step]}`)
+            .join('\n');
+        return translate(locale, 'wizard.summary', { summary });
+    }
+}
+
+/**
+ * confirm / cancel / skip in any language
+ */
+export function matchAnswer(text: string): Answer | null {
+    const word = text.trim().toLowerCase();
+    for (const pack of Object.values(LOCALE_PACKS)) {
+        for (const answer of ['confirm', 'cancel', 'skip'] as const) {
+            if (pack.wizard[answer].includes(word)) return answer;
+        }
+    }
+    return null;
+}
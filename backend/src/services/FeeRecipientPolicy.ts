@@ -0,0 +1,116 @@
+import type { AttributionStep, ParentTweetInfo, TweetMention } from '../types/index.js';
+
+/**
+ * Ways a mention can pick its fee recipient:
+ * - override: an explicit recipient named in the command
+ * - parent: author of the tweet being replied to
+ * - thread_root: author of the tweet that started the conversation
+ * - quoted: author of the quoted tweet
+ * - self: the deployer
+ */
+export const FEE_RECIPIENT_RULES = ['override', 'parent', 'thread_root', 'quoted', 'self'] as const;
+
+export type FeeRecipientRule = typeof FEE_RECIPIENT_RULES[number];
+
+// Rules that point at another tweet the token would be launched from
+const SOURCE_RULES = ['parent', 'thread_root', 'quoted'] as const satisfies readonly FeeRecipientRule[];
+
+export interface FeeRecipientDecision {
+    recipient: ParentTweetInfo;
+    reason: FeeRecipientRule;
+    chain: AttributionStep[]; // Every rule tried, in order, up to the one that matched
+    sources: ParentTweetInfo[]; // Authors of the parent, thread root and quoted tweets, whichever rule matched
+}
+
+/**
+ * Anything that can look up tweet authors (ParentTweetResolver in production)
+ */
+export interface TweetAuthorLookup {
+    resolve(tweetId: string): Promise<ParentTweetInfo | null>;
+    resolveThreadRoot(mention: TweetMention): Promise<ParentTweetInfo | null>;
+    resolveQuoted(mention: TweetMention): Promise<ParentTweetInfo | null>;
+}
+
+type RuleResult = ParentTweetInfo | 'not_applicable' | 'unresolved';
+
+/**
+ * FeeRecipientPolicy - Decides who receives a deployment's fees
+ * Rules are tried in order; the first one that applies wins. A rule that
+ * doesn't apply (no parent, parent can't be resolved, ...) falls through to
+ * the next. If nothing applies the mention is not deployed.
+ */
+export class FeeRecipientPolicy {
+    constructor(
+        private readonly rules: readonly FeeRecipientRule[],
+        private readonly tweets: TweetAuthorLookup
+    ) { }
+
+    /**
+     * @param override Recipient named explicitly in the command, if any
+     */
+    async decide(mention: TweetMention, override?: ParentTweetInfo | null): Promise<FeeRecipientDecision | null> {
+        const chain: AttributionStep[] = [];
+        const tried = new Map<FeeRecipientRule, RuleResult>();
+
+        for (const rule of this.rules) {
+            const result = await this.apply(rule, mention, override);
+            tried.set(rule, result);
+            if (typeof result === 'string') {
+                chain.push({ rule, outcome: result });
+                continue;
+            }
+
+            chain.push({
+                rule,
+                outcome: 'matched',
+                tweet_id: result.tweet_id,
+                author_id: result.author_id,
+                author_username: result.author_username,
+            });
+            return { recipient: result, reason: rule, chain, sources: await this.sources(mention, tried) };
+        }
+        return null;
+    }
+
+    /**
+     * Authors of the tweets the mention builds on, for opt-out checks
+     * These count even when another rule picks the recipient, e.g. an
+     * override replying to someone's tweet. Rules already tried are reused.
+     */
+    private async sources(mention: TweetMention, tried: Map<FeeRecipientRule, RuleResult>): Promise<ParentTweetInfo[]> {
+        const authors = new Map<string, ParentTweetInfo>();
+        for (const rule of SOURCE_RULES) {
+            const result = tried.get(rule) ?? await this.apply(rule, mention);
+            if (typeof result !== 'string') authors.set(result.author_id, result);
+        }
+        return [...authors.values()];
+    }
+
+    private async apply(
+        rule: FeeRecipientRule,
+        mention: TweetMention,
+        override?: ParentTweetInfo | null
+    ): Promise<RuleResult> {
+        switch (rule) {
+            case 'override':
+                return override || 'not_applicable';
+            case 'parent':
+                if (!mention.in_reply_to_tweet_id) return 'not_applicable';
+                return (await this.tweets.resolve(mention.in_reply_to_tweet_id)) || 'unresolved';
+            case 'thread_root':
+                // A tweet that starts its own conversation has no separate root
+                if (!mention.in_reply_to_tweet_id) return 'not_applicable';
+                if (mention.conversation_id === mention.tweet_id) return 'not_applicable';
+                return (await this.tweets.resolveThreadRoot(mention)) || 'unresolved';
+            case 'quoted':
+                if (!mention.quoted_tweet_id) return 'not_applicable';
+                return (await this.tweets.resolveQuoted(mention)) || 'unresolved';
+            case 'self':
+                return {
+                    tweet_id: mention.tweet_id,
+                    author_id: mention.author_id,
+                    author_username: mention.author_username,
+                };
+        }
+    }
+}
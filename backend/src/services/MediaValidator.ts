@@ -0,0 +1,76 @@
+import axios from 'axios';
+import { config } from '../config/index.js';
+import type { TweetMedia } from '../types/index.js';
+import { imageProblem, sniffImage, type ImageLimits } from '../utils/imageInfo.js';
+
+const FETCH_TIMEOUT_MS = 10000;
+const ALLOWED_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * MediaValidator - Picks a tweet photo that Four.Meme will accept as a token image
+ * Each candidate is downloaded and checked for content type, file size and
+ * dimensions (TOKEN_IMAGE_*). The header bytes decide the type and size, not
+ * what the source reported; an image served as a different type is rejected.
+ */
+export class MediaValidator {
+    private limits: ImageLimits = {
+        maxBytes: config.TOKEN_IMAGE_MAX_BYTES,
+        minPx: config.TOKEN_IMAGE_MIN_PX,
+        maxPx: config.TOKEN_IMAGE_MAX_PX,
+    };
+
+    /**
+     * First usable image among the candidates
+     * @returns Its URL, or null if none pass
+     */
+    async pickTokenImage(candidates: TweetMedia[]): Promise<string | null> {
+        for (const media of candidates) {
+            const problem = await this.validate(media);
+            if (!problem) {
+                return media.url;
+            }
+            console.warn(`⚠️ Skipping token image ${media.url}: ${problem}`);
+        }
+        return null;
+    }
+
+    /**
+     * @returns Why the image can't be used, or null if it can
+     */
+    async validate(media: TweetMedia): Promise<string | null> {
+        if (config.MOCK_X_API) {
+            // Simulated media isn't hosted anywhere; trust the scenario's dimensions
+            console.log(`🎭 Validating mock media ${media.url}`);
+            if (!media.width || !media.height) return 'has no dimensions';
+            return imageProblem({ contentType: 'image/jpeg', width: media.width, height: media.height }, 0, this.limits);
+        }
+
+        try {
+            const response = await axios.get<ArrayBuffer>(media.url, {
+                responseType: 'arraybuffer',
+                timeout: FETCH_TIMEOUT_MS,
+                maxContentLength: this.limits.maxBytes,
+                maxRedirects: 3,
+            });
+
+            const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+            if (!ALLOWED_CONTENT_TYPES.includes(contentType)) {
+                return `has content type "${contentType || 'none'}"`;
+            }
+
+            const bytes = new Uint8Array(response.data);
+            const info = sniffImage(bytes);
+            if (!info) {
+                return 'is not a readable PNG, JPEG, GIF or WebP image';
+            }
+            if (info.contentType !== contentType) {
+                return `is ${info.contentType} but was served as "${contentType}"`;
+            }
+            return imageProblem(info, bytes.length, this.limits);
+        } catch (error) {
+            return `could not be downloaded (${error instanceof Error ? error.message : String(error)})`;
+        }
+    }
+}
+
+export const mediaValidator = new MediaValidator();
@@ -0,0 +1,82 @@
+import { db } from '../db/client.js';
+import { translate, type Locale } from '../i18n/index.js';
+import type { ModerationRule } from '../types/index.js';
+import { findViolation, type ModerationMatch } from '../utils/moderationRules.js';
+
+const RULE_CACHE_MS = 30000; // Other processes pick up admin edits within this
+
+export type ModerationVerdict =
+    | { reason: 'rule'; match: ModerationMatch }
+    | { reason: 'opted_out'; twitterId: string; username: string };
+
+/**
+ * Moderator - Refuses deploys before any on-chain work
+ * A deploy is rejected when its name or ticker breaks a moderation rule
+ * (see utils/moderationRules), or when it's launched from the tweet of, or
+ * pays its fees to, an account that opted out. Rules live in the database and
+ * are edited through the admin API.
+ */
+export class Moderator {
+    private rules: ModerationRule[] = [];
+    private loadedAt = 0;
+
+    /**
+     * @param accounts Fee recipient and authors of the tweets the token is launched from, other than the deployer
+     * @returns Why the deploy is refused, or null if it may go ahead
+     */
+    async check(params: {
+        ticker: string;
+        name: string;
+        accounts?: { id: string; username: string }[];
+    }): Promise<ModerationVerdict | null> {
+        const match = findViolation(await this.loadRules(), { ticker: params.ticker, name: params.name });
+        if (match) {
+            return { reason: 'rule', match };
+        }
+
+        for (const account of params.accounts ?? []) {
+            if (await db.isOptedOut(account.id)) {
+                return { reason: 'opted_out', twitterId: account.id, username: account.username };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Drop cached rules so the next check reads the database
+     */
+    invalidate(): void {
+        this.loadedAt = 0;
+    }
+
+    private async loadRules(): Promise<ModerationRule[]> {
+        if (Date.now() - this.loadedAt > RULE_CACHE_MS) {
+            this.rules = await db.getModerationRules();
+            this.loadedAt = Date.now();
+        }
+        return this.rules;
+    }
+}
+
+/**
+ * What to tell the user; rule details stay private
+ */
+export function describeVerdict(verdict: ModerationVerdict, locale: Locale): string {
+    return verdict.reason === 'rule'
+        ? translate(locale, 'moderation.blocked')
+        : translate(locale, 'moderation.optedOut', { username: verdict.username });
+}
+
+/**
+ * What to record on the rejected deployment, for admins
+ */
+export function auditVerdict(verdict: ModerationVerdict): string {
+    if (verdict.reason === 'opted_out') {
+        return `@${verdict.username} (${verdict.twitterId}) opted out`;
+    }
+    const { rule, field, value } = verdict.match;
+    const category = rule.category ? `, ${rule.category}` : '';
+    return `Moderation rule #${rule.id} (${rule.kind} "${rule.pattern}"${category}) matched ${field} "${value}"`;
+}
+
+export const moderator = new Moderator();
@@ -1,9 +1,13 @@
 import { TwitterApi } from 'twitter-api-v2';
-import type { ParentTweetInfo } from '../types/index.js';
+import type { MentionedUser, ParentTweetInfo, TweetMention } from '../types/index.js';
 import { config } from '../config/index.js';
+import { simulatedX } from '../simulator/SimulatedX.js';
+import { photosOf } from '../ingestion/normalize.js';
+
+const MAX_THREAD_DEPTH = 25; // Reply hops to walk when a source gives no conversation ID
 
 /**
- * ParentTweetResolver - Fetches parent tweet to identify fee recipient
+ * ParentTweetResolver - Fetches parent, quoted and thread-root tweets to identify fee recipients
  */
 export class ParentTweetResolver {
     private client: TwitterApi;
@@ -20,6 +24,16 @@ export class ParentTweetResolver {
     async resolve(tweetId: string): Promise<ParentTweetInfo | null> {
         if (config.MOCK_X_API) {
             console.log(`🎭 Resolving mock parent tweet ${tweetId}`);
+            const simulated = simulatedX.getTweet(tweetId);
+            if (simulated) {
+                return {
+                    tweet_id: tweetId,
+                    author_id: simulated.authorId,
+                    author_username: simulatedX.getUser(simulated.authorId)?.username || 'unknown',
+                    in_reply_to_tweet_id: simulated.inReplyToId || null,
+                    media: simulated.media,
+                };
+            }
             return {
                 tweet_id: tweetId,
                 author_id: '987654321', // Mock parent author
@@ -29,9 +43,10 @@ export class ParentTweetResolver {
 
         try {
             const tweet = await this.client.v2.singleTweet(tweetId, {
-                'tweet.fields': ['author_id'],
+                'tweet.fields': ['author_id', 'conversation_id', 'referenced_tweets', 'attachments'],
                 'user.fields': ['username'],
-                expansions: ['author_id'],
+                'media.fields': ['type', 'url', 'width', 'height'],
+                expansions: ['author_id', 'attachments.media_keys'],
             });
 
             if (!tweet.data) {
@@ -51,6 +66,9 @@ export class ParentTweetResolver {
                 tweet_id: tweetId,
                 author_id: authorId,
                 author_username: user?.username || 'unknown',
+                in_reply_to_tweet_id: tweet.data.referenced_tweets?.find((ref) => ref.type === 'replied_to')?.id || null,
+                conversation_id: tweet.data.conversation_id || null,
+                media: photosOf(tweet.data, tweet.includes),
             };
 
         } catch (error) {
@@ -58,4 +76,68 @@ export class ParentTweetResolver {
             return null;
         }
     }
+
+    /**
+     * Look up a user ID by handle
+     * @returns The user or null if the handle doesn't exist
+     */
+    async resolveUser(username: string): Promise<MentionedUser | null> {
+        if (config.MOCK_X_API) {
+            const simulated = simulatedX.findUserByUsername(username);
+            return simulated ? { id: simulated.id, username: simulated.username } : null;
+        }
+
+        try {
+            const user = await this.client.v2.userByUsername(username);
+            if (!user.data) {
+                console.warn(`⚠️ User @${username} not found`);
+                return null;
+            }
+            return { id: user.data.id, username: user.data.username };
+        } catch (error) {
+            console.error(`❌ Error resolving user @${username}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Resolve the author of the tweet a mention quotes
+     */
+    async resolveQuoted(mention: TweetMention): Promise<ParentTweetInfo | null> {
+        if (!mention.quoted_tweet_id) return null;
+        return this.resolve(mention.quoted_tweet_id);
+    }
+
+    /**
+     * Resolve the tweet that started a mention's conversation
+     * Uses the conversation ID when the source provides one; otherwise walks
+     * up the reply chain. If an ancestor can't be fetched (deleted, protected)
+     * the oldest tweet reached is treated as the root.
+     */
+    async resolveThreadRoot(mention: TweetMention): Promise<ParentTweetInfo | null> {
+        if (mention.conversation_id) {
+            if (mention.conversation_id === mention.tweet_id) return null;
+            return this.resolve(mention.conversation_id);
+        }
+
+        if (!mention.in_reply_to_tweet_id) return null;
+
+        let current = await this.resolve(mention.in_reply_to_tweet_id);
+        for (let depth = 1; current && depth < MAX_THREAD_DEPTH; depth++) {
+            if (current.conversation_id && current.conversation_id !== current.tweet_id) {
+                return (await this.resolve(current.conversation_id)) || current;
+            }
+            if (!current.in_reply_to_tweet_id) {
+                return current;
+            }
+
+            const next = await this.resolve(current.in_reply_to_tweet_id);
+            if (!next) {
+                console.warn(`⚠️ Thread walk stopped at ${current.tweet_id}; treating it as the root`);
+                return current;
+            }
+            current = next;
+        }
+        return current;
+    }
 }
@@ -0,0 +1,104 @@
+/**
+ * RateGovernor - Shares one twitterapi.io quota between polling loops
+ *
+ * - Spaces requests at least `minIntervalMs` apart across all channels
+ * - Tracks a per-channel request budget over a rolling window (e.g. a day)
+ * - Stretches poll intervals as a channel's remaining budget runs low
+ */
+export interface RateGovernorOptions {
+    minIntervalMs: number;
+    windowMs: number;
+    budgets: Record<string, number>;
+    lowWatermark: number; // Fraction of budget below which loops slow down
+    maxBackoffFactor?: number;
+    now?: () => number;
+}
+
+export class RateGovernor {
+    private readonly options: Required<Omit<RateGovernorOptions, 'now'>>;
+    private readonly now: () => number;
+    private nextSlotAt = 0;
+    private pausedUntil = 0;
+    private windowStartedAt: number;
+    private used = new Map<string, number>();
+
+    constructor(options: RateGovernorOptions) {
+        this.options = { maxBackoffFactor: 8, ...options };
+        this.now = options.now || Date.now;
+        this.windowStartedAt = this.now();
+    }
+
+    /**
+     * Wait for a request slot and consume one unit of the channel's budget
+     * @returns false if the channel's budget is exhausted for this window
+     */
+    async acquire(channel: string): Promise<boolean> {
+        this.rollWindow();
+
+        if (this.remaining(channel) <= 0) {
+            return false;
+        }
+        this.used.set(channel, (this.used.get(channel) || 0) + 1);
+
+        const now = this.now();
+        const slot = Math.max(now, this.nextSlotAt, this.pausedUntil);
+        this.nextSlotAt = slot + this.options.minIntervalMs;
+
+        if (slot > now) {
+            await new Promise(resolve => setTimeout(resolve, slot - now));
+        }
+        return true;
+    }
+
+    /**
+     * Requests left for a channel in the current window
+     */
+    remaining(channel: string): number {
+        this.rollWindow();
+        const budget = this.options.budgets[channel] ?? Infinity;
+        return budget - (this.used.get(channel) || 0);
+    }
+
+    /**
+     * Delay before a loop should poll again
+     * Returns the base interval while quota is healthy, scales it up as the
+     * budget drains, and waits for the window to reset once it is exhausted.
+     */
+    nextDelay(channel: string, baseIntervalMs: number): number {
+        const remaining = this.remaining(channel);
+        if (remaining <= 0) {
+            return this.msUntilReset();
+        }
+
+        const budget = this.options.budgets[channel];
+        if (budget === undefined) {
+            return baseIntervalMs;
+        }
+
+        const fraction = remaining / budget;
+        if (fraction >= this.options.lowWatermark) {
+            return baseIntervalMs;
+        }
+
+        const factor = Math.min(this.options.lowWatermark / fraction, this.options.maxBackoffFactor);
+        return Math.round(baseIntervalMs * factor);
+    }
+
+    /**
+     * Hold all channels for a while, e.g. after the API answers 429
+     */
+    pause(ms: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+    }
+
+    msUntilReset(): number {
+        return Math.max(0, this.windowStartedAt + this.options.windowMs - this.now());
+    }
+
+    private rollWindow(): void {
+        if (this.now() - this.windowStartedAt >= this.options.windowMs) {
+            this.windowStartedAt = this.now();
+            this.used.clear();
+        }
+    }
+}
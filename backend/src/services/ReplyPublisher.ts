@@ -1,19 +1,23 @@
 import { config } from '../config/index.js';
-import { TwitterApiIoClient } from './TwitterApiIoClient.js';
+import type { ChainSettings } from '../config/botAccounts.js';
+import type { TwitterApiIoClient } from './TwitterApiIoClient.js';
+import { simulatedX } from '../simulator/SimulatedX.js';
+import { renderTemplate } from '../utils/template.js';
+import { DEFAULT_LOCALE, localePack, type Locale, type ReplyTemplates } from '../i18n/index.js';
 
 /**
  * ReplyPublisher - Posts deployment confirmations back to X
- * Uses twitterapi.io to bypass X API Free tier restrictions
+ * Uses twitterapi.io to bypass X API Free tier restrictions; DMs go out the same way
+ * One instance per bot account, posting as that account. Replies use the
+ * locale pack's templates; the account's own templates replace those of the
+ * default locale only, since they're written in one language.
  */
 export class ReplyPublisher {
-    private twitterApiIoClient?: TwitterApiIoClient;
-
-    constructor() {
-        // Only initialize twitterapi.io client if key is configured
-        if (config.TWITTERAPI_IO_KEY && !config.MOCK_X_API) {
-            this.twitterApiIoClient = new TwitterApiIoClient();
-        }
-    }
+    constructor(
+        private readonly twitterApiIoClient: TwitterApiIoClient | undefined,
+        private readonly chain: ChainSettings,
+        private readonly overrides: Partial<ReplyTemplates> = {}
+    ) { }
 
     /**
      * Post a successful deployment reply
@@ -25,34 +29,11 @@ export class ReplyPublisher {
         tokenAddress: string;
         poolId: string;
         feeRecipientUsername: string;
+        notices?: string[]; // Extra lines after the template, e.g. collision warnings
+        locale?: Locale;
     }): Promise<string | null> {
         const text = this.formatSuccessReply(params);
-
-        if (config.MOCK_X_API) {
-            console.log(`🎭 MOCK REPLY [Success] to ${params.replyToTweetId}:`);
-            console.log(text);
-            return 'mock_tweet_id';
-        }
-
-        if (!this.twitterApiIoClient) {
-            console.error('❌ TwitterApiIoClient not initialized');
-            return null;
-        }
-
-        try {
-            const result = await this.twitterApiIoClient.postReply(text, params.replyToTweetId);
-
-            if (result.success) {
-                console.log(`✅ Posted success reply: ${result.tweetId}`);
-                return result.tweetId || null;
-            } else {
-                console.error(`❌ Failed to post success reply: ${result.error}`);
-                return null;
-            }
-        } catch (error) {
-            console.error('❌ Failed to post success reply:', error);
-            return null;
-        }
+        return this.post('success', params.replyToTweetId, text);
     }
 
     /**
@@ -61,37 +42,10 @@ export class ReplyPublisher {
     async postWalletRequired(params: {
         replyToTweetId: string;
         username: string;
+        locale?: Locale;
     }): Promise<string | null> {
-        const text = `@${params.username} ❌ Deployment failed
-
-The original tweet author hasn't linked their wallet yet.
-
-They need to link their wallet at [link] before tokens can be deployed.`;
-
-        if (config.MOCK_X_API) {
-            console.log(`🎭 MOCK REPLY [Wallet Required] to ${params.replyToTweetId}`);
-            return 'mock_tweet_id';
-        }
-
-        if (!this.twitterApiIoClient) {
-            console.error('❌ TwitterApiIoClient not initialized');
-            return null;
-        }
-
-        try {
-            const result = await this.twitterApiIoClient.postReply(text, params.replyToTweetId);
-
-            if (result.success) {
-                console.log(`📝 Posted wallet required reply: ${result.tweetId}`);
-                return result.tweetId || null;
-            } else {
-                console.error(`❌ Failed to post wallet required reply: ${result.error}`);
-                return null;
-            }
-        } catch (error) {
-            console.error('❌ Failed to post wallet required reply:', error);
-            return null;
-        }
+        const text = renderTemplate(this.templatesFor(params.locale).walletRequired, { username: params.username });
+        return this.post('wallet required', params.replyToTweetId, text);
     }
 
     /**
@@ -101,15 +55,78 @@ They need to link their wallet at [link] before tokens can be deployed.`;
         replyToTweetId: string;
         username: string;
         reason: string;
+        locale?: Locale;
     }): Promise<string | null> {
-        const text = `@${params.username} ❌ Deployment failed
+        const text = renderTemplate(this.templatesFor(params.locale).failure, { username: params.username, reason: params.reason });
+        return this.post('failure', params.replyToTweetId, text);
+    }
 
-${params.reason}
+    /**
+     * Reply to a malformed deploy command with how to fix it
+     */
+    async postCorrection(params: {
+        replyToTweetId: string;
+        username: string;
+        hint: string;
+        locale?: Locale;
+    }): Promise<string | null> {
+        const text = renderTemplate(this.templatesFor(params.locale).correction, { username: params.username, hint: params.hint });
+        return this.post('correction', params.replyToTweetId, text);
+    }
 
-Please try again later.`;
+    /**
+     * Reply to a deploy that collides with an earlier one
+     * @param reason Which rule blocked it and where the existing token is
+     */
+    async postCollision(params: {
+        replyToTweetId: string;
+        username: string;
+        reason: string;
+        locale?: Locale;
+    }): Promise<string | null> {
+        const text = renderTemplate(this.templatesFor(params.locale).collision, { username: params.username, reason: params.reason });
+        return this.post('collision', params.replyToTweetId, text);
+    }
 
+    /**
+     * Reply to a routed command (help, status, balance, history)
+     */
+    async postCommandReply(params: {
+        replyToTweetId: string;
+        username: string;
+        text: string;
+    }): Promise<string | null> {
+        const text = `@${params.username} ${params.text}`;
+        return this.post('command', params.replyToTweetId, text);
+    }
+
+    /**
+     * Send a DM as the bot, e.g. the outcome of a deploy requested by DM
+     * Without a twitterapi.io client the message is only logged.
+     */
+    async sendDirectMessage(recipientId: string, text: string): Promise<void> {
+        if (config.MOCK_X_API || !this.twitterApiIoClient) {
+            console.log(`[Mock DM] To ${recipientId}: ${text}`);
+            simulatedX.recordDM(recipientId, text);
+            return;
+        }
+        const result = await this.twitterApiIoClient.sendDM(recipientId, text);
+        if (!result.success) {
+            console.error(`❌ Failed to send DM to ${recipientId}: ${result.error}`);
+        }
+    }
+
+    /**
+     * Post a reply as the bot, recording it instead in mock mode
+     * Failures are logged and swallowed: a missing reply shouldn't fail the work it reports on.
+     * @param kind What the reply is for, for logs, e.g. "failure"
+     * @returns The reply's tweet ID, or null if it couldn't be posted
+     */
+    private async post(kind: string, replyToId: string, text: string): Promise<string | null> {
         if (config.MOCK_X_API) {
-            console.log(`🎭 MOCK REPLY [Failure] to ${params.replyToTweetId}: ${params.reason}`);
+            console.log(`🎭 MOCK REPLY [${kind}] to ${replyToId}:`);
+            console.log(text);
+            simulatedX.recordReply(replyToId, text);
             return 'mock_tweet_id';
         }
 
@@ -119,17 +136,17 @@ Please try again later.`;
         }
 
         try {
-            const result = await this.twitterApiIoClient.postReply(text, params.replyToTweetId);
+            const result = await this.twitterApiIoClient.postReply(text, replyToId);
 
             if (result.success) {
-                console.log(`📝 Posted failure reply: ${result.tweetId}`);
+                console.log(`📝 Posted ${kind} reply: ${result.tweetId}`);
                 return result.tweetId || null;
             } else {
-                console.error(`❌ Failed to post failure reply: ${result.error}`);
+                console.error(`❌ Failed to post ${kind} reply: ${result.error}`);
                 return null;
             }
         } catch (error) {
-            console.error('❌ Failed to post failure reply:', error);
+            console.error(`❌ Failed to post ${kind} reply:`, error);
             return null;
         }
     }
@@ -143,6 +160,8 @@ Please try again later.`;
         tokenAddress: string;
         poolId: string;
         feeRecipientUsername: string;
+        notices?: string[];
+        locale?: Locale;
     }): string {
         // Truncate addresses for display
         const shortToken = `${params.tokenAddress.slice(0, 6)}...${params.tokenAddress.slice(-4)}`;
@@ -150,16 +169,22 @@ Please try again later.`;
         // Add minimal randomness to avoid "Duplicate Content" errors during testing
         const refId = Math.random().toString(36).substring(2, 7);
 
-        // Competitor-style format (Concise)
-        return `@${params.feeRecipientUsername} Token ${params.tokenName} ($${params.tokenTicker}) Deployed! 🚀
-Send 'claim ${params.tokenAddress}' to my DM to take ownership.
-
-Tx: basescan.org/tx/${params.poolId}
-CA: ${params.tokenAddress}
-Tax Wallet: ${config.FEE_HOOK_ADDRESS}
+        const text = renderTemplate(this.templatesFor(params.locale).success, {
+            feeRecipient: params.feeRecipientUsername,
+            name: params.tokenName,
+            ticker: params.tokenTicker,
+            tokenAddress: params.tokenAddress,
+            shortTokenAddress: shortToken,
+            poolId: params.poolId,
+            explorerUrl: this.chain.explorerUrl,
+            feeHook: config.FEE_HOOK_ADDRESS || '',
+            ref: refId,
+        });
+        return [text, ...(params.notices || [])].join('\n\n');
+    }
 
-[Ref: ${refId}]`;
+    private templatesFor(locale: Locale = DEFAULT_LOCALE): ReplyTemplates {
+        const templates = localePack(locale).replies;
+        return locale === DEFAULT_LOCALE ? { ...templates, ...this.overrides } : templates;
     }
 }
-
-export const replyPublisher = new ReplyPublisher();
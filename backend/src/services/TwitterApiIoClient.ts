@@ -1,4 +1,6 @@
-import { config } from '../config/index.js';
+import { isNewerThan, sortBySnowflake } from '../utils/snowflake.js';
+import type { RateGovernor } from './RateGovernor.js';
+import type { DirectMessage } from '../types/index.js';
 
 interface TwitterApiIoTweet {
     id: string;
@@ -10,9 +12,20 @@ interface TwitterApiIoTweet {
     };
     createdAt: string;
     inReplyToId?: string | null;
+    conversationId?: string | null;
     isReply?: boolean;
     quotedTweet?: { id: string };
     retweetedTweet?: { id: string };
+    entities?: {
+        user_mentions?: { id_str: string; screen_name: string }[];
+    };
+    extendedEntities?: {
+        media?: {
+            type: string; // photo, video or animated_gif
+            media_url_https: string;
+            original_info?: { width: number; height: number };
+        }[];
+    };
 }
 
 interface TwitterApiIoResponse {
@@ -21,6 +34,17 @@ interface TwitterApiIoResponse {
     next_cursor?: string;
 }
 
+interface TweetPage {
+    tweets: TwitterApiIoTweet[];
+    hasNextPage: boolean;
+    nextCursor?: string;
+}
+
+interface MentionCatchUp {
+    tweets: TwitterApiIoTweet[]; // Oldest-first
+    resumeCursor?: string; // Set when the page budget ran out before the checkpoint; older pages continue from here
+}
+
 interface LoginV2Response {
     code?: number;
     msg?: string;
@@ -42,6 +66,19 @@ interface CreateTweetResponse {
     status?: string; // Add status field for success handling (e.g. "success")
 }
 
+/**
+ * Credentials for one bot account on twitterapi.io
+ */
+export interface TwitterApiIoCredentials {
+    apiKey?: string;
+    loginUsername?: string;
+    loginEmail?: string;
+    loginPassword?: string;
+    totpSecret?: string;
+    proxy?: string;
+    userId?: string; // Bot's Twitter ID for DM logic
+}
+
 /**
  * Client for twitterapi.io - Third-party Twitter API proxy
  * Docs: https://docs.twitterapi.io
@@ -52,15 +89,16 @@ interface CreateTweetResponse {
  */
 export class TwitterApiIoClient {
     private readonly baseUrl = 'https://api.twitterapi.io';
+    private readonly pageDelayMs = 5000; // Free tier limit: 1 req/5sec
     private readonly apiKey: string;
     private loginCookie: string | null = null;
     private loginExpiry: Date | null = null;
 
-    constructor() {
-        if (!config.TWITTERAPI_IO_KEY) {
+    constructor(private readonly credentials: TwitterApiIoCredentials) {
+        if (!credentials.apiKey) {
             throw new Error('TWITTERAPI_IO_KEY not configured');
         }
-        this.apiKey = config.TWITTERAPI_IO_KEY;
+        this.apiKey = credentials.apiKey;
     }
 
     private async request<T>(method: string, path: string, body?: object, useLoginCookie = false): Promise<T> {
@@ -109,7 +147,8 @@ export class TwitterApiIoClient {
     async login(): Promise<boolean> {
         console.log('🔐 Logging into Twitter via twitterapi.io...');
 
-        if (!config.TWITTER_LOGIN_USERNAME || !config.TWITTER_LOGIN_EMAIL || !config.TWITTER_LOGIN_PASSWORD) {
+        const { loginUsername, loginEmail, loginPassword, totpSecret, proxy } = this.credentials;
+        if (!loginUsername || !loginEmail || !loginPassword) {
             console.error('❌ Twitter login credentials not configured');
             console.error('   Required: TWITTER_LOGIN_USERNAME, TWITTER_LOGIN_EMAIL, TWITTER_LOGIN_PASSWORD');
             return false;
@@ -117,19 +156,19 @@ export class TwitterApiIoClient {
 
         try {
             const loginPayload: Record<string, string> = {
-                user_name: config.TWITTER_LOGIN_USERNAME,
-                email: config.TWITTER_LOGIN_EMAIL,
-                password: config.TWITTER_LOGIN_PASSWORD,
+                user_name: loginUsername,
+                email: loginEmail,
+                password: loginPassword,
             };
 
             // Add 2FA secret if configured and not empty
-            if (config.TWITTER_2FA_SECRET && config.TWITTER_2FA_SECRET.trim() !== '') {
-                loginPayload.totp_secret = config.TWITTER_2FA_SECRET;
+            if (totpSecret && totpSecret.trim() !== '') {
+                loginPayload.totp_secret = totpSecret;
             }
 
             // Add proxy (required by twitterapi.io)
-            if (config.TWITTER_PROXY) {
-                loginPayload.proxy = config.TWITTER_PROXY;
+            if (proxy) {
+                loginPayload.proxy = proxy;
             } else {
                 console.error('❌ TWITTER_PROXY not configured (required for login)');
                 return false;
@@ -203,6 +242,18 @@ export class TwitterApiIoClient {
         }
     }
 
+    /**
+     * Look up an account's numeric user ID by handle
+     * @returns null if the account can't be found
+     */
+    async getUserId(username: string): Promise<string | null> {
+        const result = await this.request<{ status?: string; msg?: string; data?: { id?: string } }>(
+            'GET',
+            `/twitter/user/info?userName=${encodeURIComponent(username)}`
+        );
+        return result.data?.id || null;
+    }
+
     /**
      * Get list of monitored users
      */
@@ -215,16 +266,91 @@ export class TwitterApiIoClient {
     }
 
     /**
-     * Fetch tweets mentioning the bot using advanced search
+     * Fetch the latest page of tweets mentioning the bot
      */
     async getTweets(botUsername: string): Promise<TwitterApiIoTweet[]> {
-        // Use advanced search to find mentions of the bot
-        const query = encodeURIComponent(`@${botUsername} deploy`);
-        const result = await this.request<TwitterApiIoResponse>(
-            'GET',
-            `/twitter/tweet/advanced_search?query=${query}&queryType=Latest`
-        );
-        return result.tweets || [];
+        const page = await this.searchMentions(botUsername);
+        return page.tweets;
+    }
+
+    /**
+     * Fetch a single page of mentions using advanced search
+     * @param cursor Cursor from a previous page, omitted for the latest page
+     */
+    async searchMentions(botUsername: string, cursor?: string): Promise<TweetPage> {
+        // Match any mention; CommandRouter decides which verb (in which language) it carries
+        const query = encodeURIComponent(`@${botUsername}`);
+        let path = `/twitter/tweet/advanced_search?query=${query}&queryType=Latest`;
+        if (cursor) {
+            path += `&cursor=${encodeURIComponent(cursor)}`;
+        }
+
+        const result = await this.request<TwitterApiIoResponse>('GET', path);
+        return {
+            tweets: result.tweets || [],
+            hasNextPage: Boolean(result.has_next_page),
+            nextCursor: result.next_cursor || undefined,
+        };
+    }
+
+    /**
+     * Catch up on mentions newer than a checkpoint
+     * Follows next_cursor backwards until a page reaches the checkpoint,
+     * the results run out, or the page budget is spent. A spent budget
+     * returns a resumeCursor so the next call can pick up the older pages.
+     * Without a checkpoint only the latest page is read.
+     * @param governor Optional shared governor; extra pages are charged to its 'mentions' budget
+     * @param cursor resumeCursor from an earlier call that ran out of pages
+     */
+    async getMentionsSince(
+        botUsername: string,
+        sinceId: string | null,
+        maxPages: number,
+        governor?: RateGovernor,
+        cursor?: string
+    ): Promise<MentionCatchUp> {
+        const collected = new Map<string, TwitterApiIoTweet>();
+        let reachedCheckpoint = !sinceId;
+
+        for (let page = 1; page <= maxPages; page++) {
+            if (page > 1) {
+                if (governor) {
+                    if (!(await governor.acquire('mentions'))) {
+                        console.warn('⚠️ Mention quota exhausted during catch-up');
+                        break;
+                    }
+                } else {
+                    await new Promise(resolve => setTimeout(resolve, this.pageDelayMs));
+                }
+            }
+
+            const result = await this.searchMentions(botUsername, cursor);
+            const fresh = result.tweets.filter(t => isNewerThan(t.id, sinceId));
+            for (const tweet of fresh) {
+                collected.set(tweet.id, tweet);
+            }
+
+            // A page containing already-seen tweets means we've caught up
+            if (!sinceId || fresh.length < result.tweets.length) {
+                reachedCheckpoint = true;
+                break;
+            }
+            if (!result.hasNextPage || !result.nextCursor) {
+                reachedCheckpoint = true;
+                break;
+            }
+
+            cursor = result.nextCursor;
+            console.log(`📄 Catching up: fetching mention page ${page + 1}...`);
+        }
+
+        const tweets = sortBySnowflake([...collected.values()], t => t.id);
+        if (reachedCheckpoint) {
+            return { tweets };
+        }
+
+        console.warn(`⚠️ Catch-up paused after ${maxPages} page(s) before reaching tweet ${sinceId}; continuing from there next time`);
+        return { tweets, resumeCursor: cursor };
     }
 
     /**
@@ -248,7 +374,7 @@ export class TwitterApiIoClient {
                     tweet_text: text,
                     reply_to_tweet_id: replyToTweetId,
                     login_cookies: this.loginCookie,
-                    proxy: config.TWITTER_PROXY,
+                    proxy: this.credentials.proxy,
                 },
                 true // Use login cookie in headers
             );
@@ -291,7 +417,7 @@ export class TwitterApiIoClient {
                 {
                     tweet_text: text,
                     login_cookies: this.loginCookie,
-                    proxy: config.TWITTER_PROXY,
+                    proxy: this.credentials.proxy,
                 },
                 true // Use login cookie in headers
             );
@@ -318,7 +444,7 @@ export class TwitterApiIoClient {
     /**
      * Get Direct Messages
      */
-    async getDMs(): Promise<{ id: string; sender_id: string; text: string; created_at: string }[]> {
+    async getDMs(): Promise<DirectMessage[]> {
         // Ensure we have a valid session
         const loggedIn = await this.ensureLoggedIn();
         if (!loggedIn) {
@@ -372,8 +498,8 @@ export class TwitterApiIoClient {
 
         } catch (error) {
             console.error('❌ Error fetching DMs:', error);
-            // Fallback to empty list
-            return [];
+            // Let the poll loop back off on rate limits
+            throw error;
         }
     }
 
@@ -393,11 +519,11 @@ export class TwitterApiIoClient {
                 'POST',
                 '/twitter/send_dm', // Likely endpoint
                 {
-                    conversation_id: `${recipientId}-${config.TWITTER_USER_ID}`, // Or just recipient_id depending on API
+                    conversation_id: `${recipientId}-${this.credentials.userId}`, // Or just recipient_id depending on API
                     recipient_id: recipientId,
                     text: text,
                     login_cookies: this.loginCookie,
-                    proxy: config.TWITTER_PROXY,
+                    proxy: this.credentials.proxy,
                 },
                 true
             );
@@ -1,38 +1,81 @@
-import { TwitterApi, ETwitterStreamEvent, TweetV2SingleStreamResult } from 'twitter-api-v2';
+import { TwitterApi } from 'twitter-api-v2';
 import { config } from '../config/index.js';
 import { db } from '../db/client.js';
-import { deploymentQueue } from '../workers/queue.js';
-import { CommandParser } from './CommandParser.js';
+import { deploymentQueue, redisConnection } from '../workers/queue.js';
+import type { CommandParser } from './CommandParser.js';
 import { ParentTweetResolver } from './ParentTweetResolver.js';
-import { TwitterApiIoClient, type TwitterApiIoTweet } from './TwitterApiIoClient.js';
-import type { TweetMention } from '../types/index.js';
+import { FeeRecipientPolicy } from './FeeRecipientPolicy.js';
+import { DeployWizard, matchAnswer, type WizardState } from './DeployWizard.js';
+import { MemoryConversationStore, RedisConversationStore, type ConversationStore } from './ConversationStore.js';
+import type { TwitterApiIoClient } from './TwitterApiIoClient.js';
+import { botRegistry, type BotAccount } from './BotRegistry.js';
+import type { DeployCommand, Deployment, DeploymentJob, DirectMessage, MentionedUser, ParentTweetInfo, ProcessedEventType, TweetMedia, TweetMention } from '../types/index.js';
 import { processDeploymentJob } from '../workers/deploymentWorker.js';
 import { ethers } from 'ethers';
+import type { Address } from 'viem';
+import { CommandRouter, type CommandContext } from './CommandRouter.js';
 import { walletService } from './WalletService.js';
-import { blockchainDeployer } from './BlockchainDeployer.js';
+import type { IngestionSink, IngestionSource, IngestionSourceKind, SourceHealth } from '../ingestion/IngestionSource.js';
+import { ScenarioSource } from '../ingestion/ScenarioSource.js';
+import { TwitterApiIoPollingSource } from '../ingestion/TwitterApiIoPollingSource.js';
+import { OfficialStreamSource } from '../ingestion/OfficialStreamSource.js';
+import { StreamSupervisor } from '../ingestion/StreamSupervisor.js';
+import { TwitterApiIoWebhookSource } from '../ingestion/TwitterApiIoWebhookSource.js';
+import { DEFAULT_LOCALE, detectLocale, localePack, translate, type Locale } from '../i18n/index.js';
+import {
+    CONFIRMATION_CODE_PATTERN,
+    MAX_CODE_ATTEMPTS,
+    newConfirmationCode,
+    parseWithdrawArgs,
+    planWithdrawal,
+    type PendingWithdrawal,
+} from '../utils/withdrawal.js';
+import {
+    EXPORT_CONFIRM_WINDOW_SECONDS,
+    cooldownRemaining,
+    hashExportToken,
+    matchExportPhrase,
+    newExportToken,
+    type PendingExport,
+} from '../utils/keyExport.js';
+
+const HISTORY_LIMIT = 5;
 
 /**
- * XListener - Listens for mentions of the bot on X (Twitter)
- * Supports three modes:
- * 1. Mock Mode (MOCK_X_API=true) - Simulates tweets for testing
- * 2. TwitterAPI.io Mode (TWITTERAPI_IO_KEY set) - Polls third-party API
- * 3. Official X API Mode - Uses X API v2 Filtered Stream ($100/mo)
+ * XListener - Handles mentions and DMs of one bot account on X (Twitter)
+ * Events arrive from one or more ingestion sources (see src/ingestion):
+ * 1. mock - Replays a scenario file for offline testing (MOCK_X_API=true, see MOCK_SCENARIO)
+ * 2. twitterapiio - Polls third-party API (TWITTERAPI_IO_KEY set)
+ *    webhook - Pushed tweets from twitterapi.io (TWITTERAPI_IO_WEBHOOK_SECRET set), with polling as fallback
+ * 3. stream - Uses X API v2 Filtered Stream ($100/mo), supervised with polling as failover
+ * Set INGESTION_SOURCES to run several side by side, e.g. "stream,twitterapiio".
+ * One listener runs per account in the BotRegistry. Verbs in DMs and mentions
+ * go through one CommandRouter (see createRouter), and are answered in the
+ * language the user writes commands in (see resolveLocale). A bare `deploy`
+ * DM opens a DeployWizard conversation that takes the user's next DMs.
+ * Withdrawals and key exports wait in ConversationStores for the user to
+ * confirm with a code or phrase.
  */
-export class XListener {
+export class XListener implements IngestionSink {
     private client: TwitterApi;
-    private appClient: TwitterApi;
     private botUsername: string;
     private commandParser: CommandParser;
     private parentResolver: ParentTweetResolver;
-    private isRunning = false;
-
-    // For twitterapi.io polling
+    private feeRecipientPolicy: FeeRecipientPolicy;
     private twitterApiIoClient?: TwitterApiIoClient;
-    private lastSeenTweetId?: string;
-    private lastProcessedDmId?: string;
-    private pollInterval?: NodeJS.Timeout;
+    private router: CommandRouter;
+    private wizard: DeployWizard;
+    private pendingWithdrawals: ConversationStore<PendingWithdrawal>;
+    private pendingExports: ConversationStore<PendingExport>;
+    private sources: IngestionSource[];
+    private isRunning = false;
+    private inFlight = new Set<Promise<unknown>>();
 
-    constructor() {
+    /**
+     * @param sources Where events come from; defaults to what the config selects (see resolveSourceKinds)
+     */
+    constructor(private readonly bot: BotAccount, sources?: IngestionSource[]) {
+        const x = bot.settings.x;
         if (config.MOCK_X_API) {
             this.client = new TwitterApi({
                 appKey: 'mock_key',
@@ -40,25 +83,37 @@ export class XListener {
                 accessToken: 'mock_token',
                 accessSecret: 'mock_secret',
             });
-            this.appClient = this.client;
         } else {
             this.client = new TwitterApi({
-                appKey: config.X_API_KEY!,
-                appSecret: config.X_API_SECRET!,
-                accessToken: config.X_ACCESS_TOKEN!,
-                accessSecret: config.X_ACCESS_SECRET!,
+                appKey: x.apiKey!,
+                appSecret: x.apiSecret!,
+                accessToken: x.accessToken!,
+                accessSecret: x.accessSecret!,
             });
-            this.appClient = new TwitterApi(config.X_BEARER_TOKEN!);
         }
 
-        this.botUsername = config.X_BOT_USERNAME;
-        this.commandParser = new CommandParser(this.botUsername);
+        this.botUsername = bot.username;
+        this.commandParser = bot.commandParser;
         this.parentResolver = new ParentTweetResolver(this.client);
-
-        // Initialize twitterapi.io client if key is configured
-        if (config.TWITTERAPI_IO_KEY) {
-            this.twitterApiIoClient = new TwitterApiIoClient();
-        }
+        this.feeRecipientPolicy = new FeeRecipientPolicy(config.FEE_RECIPIENT_RULES, this.parentResolver);
+        this.twitterApiIoClient = bot.twitterApiIoClient;
+        this.router = this.createRouter();
+        this.wizard = new DeployWizard(
+            this.commandParser,
+            redisConnection
+                ? new RedisConversationStore<WizardState>(redisConnection, `wizard:${bot.id}:`)
+                : new MemoryConversationStore<WizardState>(),
+            config.DM_WIZARD_TTL_MINUTES * 60
+        );
+        this.pendingWithdrawals = redisConnection
+            ? new RedisConversationStore<PendingWithdrawal>(redisConnection, `withdraw:${bot.id}:`)
+            : new MemoryConversationStore<PendingWithdrawal>();
+        this.pendingExports = redisConnection
+            ? new RedisConversationStore<PendingExport>(redisConnection, `export:${bot.id}:`)
+            : new MemoryConversationStore<PendingExport>();
+
+        const kinds = this.resolveSourceKinds();
+        this.sources = sources ?? kinds.map((kind) => this.createSource(kind, kinds));
     }
 
     async start(): Promise<void> {
@@ -67,446 +122,930 @@ export class XListener {
             return;
         }
 
-        // Priority 1: Mock Mode
-        if (config.MOCK_X_API) {
-            console.log('🎭 Starting X Listener in MOCK MODE...');
-            this.startMockStream();
-            return;
+        // Events a previous run claimed but never finished are delivered again
+        const released = await db.releaseUnfinishedEvents(this.bot.id);
+        if (released) {
+            console.log(`♻️ Released ${released} unfinished event claim(s) for @${this.botUsername}`);
         }
 
-        // Priority 2: twitterapi.io Mode (cheaper alternative)
-        if (this.twitterApiIoClient) {
-            console.log('🌐 Starting X Listener in TWITTERAPI.IO MODE...');
-            await this.startTwitterApiIoPolling();
-            return;
+        this.isRunning = true;
+        for (const source of this.sources) {
+            console.log(`📡 Starting ingestion source: ${source.name} (@${this.botUsername})`);
+            await source.start(this);
         }
-
-        // Priority 3: Official X API (requires Basic tier)
-        console.log('🐦 Starting X API Filtered Stream...');
-        await this.startOfficialStream();
     }
 
     /**
-     * Start polling twitterapi.io for tweets
+     * Stop every source and wait for events already being handled
      */
-    private async startTwitterApiIoPolling(): Promise<void> {
-        if (!this.twitterApiIoClient) return;
-
-        try {
-            // Register the bot username for monitoring
-            await this.twitterApiIoClient.registerUserForMonitoring(this.botUsername);
-
-            this.isRunning = true;
-            console.log(`✅ Polling twitterapi.io for @${this.botUsername} mentions every 12s...`);
-
-            // Poll every 12 seconds for mentions only (DMs disabled to save API quota)
-            // Free tier limit: 1 req/5sec
-            this.pollInterval = setInterval(async () => {
-                try {
-                    await this.pollTwitterApiIo();
-                } catch (error) {
-                    console.error('❌ Poll error:', error);
-                }
-            }, 12000);
+    async stop(): Promise<void> {
+        this.isRunning = false;
+        for (const source of this.sources) {
+            await source.stop();
+        }
 
-            // Initial poll
-            await this.pollTwitterApiIo();
-        } catch (error) {
-            console.error('❌ Failed to start twitterapi.io polling:', error);
-            throw error;
+        if (this.inFlight.size) {
+            console.log(`⏳ Waiting for ${this.inFlight.size} in-flight event(s)...`);
+            await Promise.allSettled(this.inFlight);
         }
     }
 
     /**
-     * Poll for new tweets from twitterapi.io
+     * Ingestion status for /health
      */
-    private async pollTwitterApiIo(): Promise<void> {
-        if (!this.twitterApiIoClient) return;
+    getHealth(): { running: boolean; inFlight: number; sources: Record<string, SourceHealth> } {
+        return {
+            running: this.isRunning,
+            inFlight: this.inFlight.size,
+            sources: Object.fromEntries(
+                this.sources.map((source) => [source.name, source.health?.() || { healthy: this.isRunning }])
+            ),
+        };
+    }
 
-        const tweets = await this.twitterApiIoClient.getTweets(this.botUsername);
+    /**
+     * Track a handler so stop() can wait for it
+     */
+    private track<T>(work: Promise<T>): Promise<T> {
+        this.inFlight.add(work);
+        return work.finally(() => this.inFlight.delete(work));
+    }
 
-        if (!tweets.length) {
-            console.log('📭 No new tweets');
-            return;
+    /**
+     * Explicit INGESTION_SOURCES wins; otherwise pick one mode by priority:
+     * mock, then twitterapi.io (cheaper), then the official stream (requires Basic tier)
+     */
+    private resolveSourceKinds(): IngestionSourceKind[] {
+        // A scenario replays once, through the primary bot
+        const isPrimary = this.bot === botRegistry.primary();
+        if (config.INGESTION_SOURCES?.length) {
+            return config.INGESTION_SOURCES.filter((kind) => kind !== 'mock' || isPrimary);
         }
+        if (config.MOCK_X_API) return isPrimary ? ['mock'] : [];
+        if (this.twitterApiIoClient) {
+            return config.TWITTERAPI_IO_WEBHOOK_SECRET ? ['webhook', 'twitterapiio'] : ['twitterapiio'];
+        }
+        return ['stream'];
+    }
 
-        console.log(`📬 Found ${tweets.length} tweet(s)`);
-
-        for (const tweet of tweets) {
-            // Skip if we've already seen this tweet
-            if (this.lastSeenTweetId && tweet.id <= this.lastSeenTweetId) {
-                continue;
+    private createSource(kind: IngestionSourceKind, kinds: IngestionSourceKind[]): IngestionSource {
+        switch (kind) {
+            case 'mock':
+                return new ScenarioSource(this.botUsername);
+            case 'twitterapiio':
+                if (!this.twitterApiIoClient) {
+                    throw new Error('twitterapiio ingestion requires TWITTERAPI_IO_KEY');
+                }
+                return new TwitterApiIoPollingSource(this.twitterApiIoClient, this.botUsername, this.bot.rateGovernor!, this.bot.settings.userId);
+            case 'webhook':
+                if (!config.TWITTERAPI_IO_WEBHOOK_SECRET) {
+                    throw new Error('webhook ingestion requires TWITTERAPI_IO_WEBHOOK_SECRET');
+                }
+                return new TwitterApiIoWebhookSource(this.botUsername);
+            case 'stream': {
+                // Poll while the stream is down, unless polling already runs alongside it
+                const fallback = this.twitterApiIoClient && !kinds.includes('twitterapiio')
+                    ? new TwitterApiIoPollingSource(this.twitterApiIoClient, this.botUsername, this.bot.rateGovernor!, this.bot.settings.userId)
+                    : undefined;
+                return new StreamSupervisor(new OfficialStreamSource(this.botUsername, this.bot.settings.x.bearerToken), fallback);
             }
+        }
+    }
 
-            // Must contain our bot mention
-            if (!tweet.text.toLowerCase().includes(`@${this.botUsername.toLowerCase()}`)) {
-                continue;
+    /**
+     * Handle a mention from any source
+     * The ledger makes this safe to call more than once per tweet, e.g. when
+     * two sources see the same mention or a stream redelivers after reconnect.
+     * It only marks the tweet done once handling succeeded, so a crash midway
+     * leaves a claim that is released at startup or taken over once stale.
+     */
+    async onMention(mention: TweetMention, source: IngestionSource): Promise<boolean> {
+        // Shutting down: leave it for the next run to pick up
+        if (!this.isRunning) return false;
+
+        return this.track((async () => {
+            if (!(await db.claimEvent(this.bot.id, 'tweet', mention.tweet_id, config.EVENT_CLAIM_TIMEOUT_MS))) {
+                console.log(`⏭️ Tweet ${mention.tweet_id} already processed`);
+                return true;
             }
 
-            await this.handleTwitterApiIoTweet(tweet);
-            this.lastSeenTweetId = tweet.id;
-        }
+            let handled: boolean;
+            try {
+                handled = await this.handleMention(mention, source);
+            } catch (error) {
+                console.error(`❌ Error processing tweet ${mention.tweet_id}:`, error);
+                return this.failEvent('tweet', mention.tweet_id, error, mention);
+            }
+            if (!handled) {
+                return this.failEvent('tweet', mention.tweet_id, 'Handler asked for a retry', mention);
+            }
+            await db.completeEvent(this.bot.id, 'tweet', mention.tweet_id);
+            return true;
+        })());
     }
 
     /**
-     * Handle a tweet from twitterapi.io
+     * Handle a DM from any source
      */
-    private async handleTwitterApiIoTweet(tweet: TwitterApiIoTweet): Promise<void> {
-        console.log(`📨 Processing tweet: ${tweet.id}`);
-        console.log(`   From: @${tweet.author.userName}`);
-        console.log(`   Text: ${tweet.text.substring(0, 100)}...`);
+    async onDirectMessage(dm: DirectMessage, _source: IngestionSource): Promise<boolean> {
+        if (!this.isRunning) return false;
+        if (dm.sender_id === this.bot.settings.userId) return true; // Our own reply
 
-        try {
-            const mention: TweetMention = {
-                tweet_id: tweet.id,
-                author_id: tweet.author.id,
-                author_username: tweet.author.userName,
-                text: tweet.text,
-                in_reply_to_tweet_id: tweet.inReplyToId || null,
-                created_at: tweet.createdAt,
-            };
-
-            // Parse deploy command
-            const command = this.commandParser.parse(mention.text);
-            if (!command) {
-                console.log(`⏭️ No valid deploy command in tweet ${tweet.id}`);
-                return;
+        return this.track((async () => {
+            if (!(await db.claimEvent(this.bot.id, 'dm', dm.id, config.EVENT_CLAIM_TIMEOUT_MS))) {
+                return true;
             }
 
-            // Determine fee recipient:
-            // - If reply: fee goes to parent tweet author
-            // - If direct mention: fee goes to tweet author (self-deploy)
-            let feeRecipient: { author_id: string; author_username: string };
-
-            if (mention.in_reply_to_tweet_id) {
-                // It's a reply - use parent tweet author
-                const parentTweet = await this.parentResolver.resolve(mention.in_reply_to_tweet_id);
-                if (!parentTweet) {
-                    console.log(`⚠️ Could not resolve parent tweet, using self as fee recipient`);
-                    feeRecipient = { author_id: tweet.author.id, author_username: tweet.author.userName };
-                } else {
-                    feeRecipient = { author_id: parentTweet.author_id, author_username: parentTweet.author_username };
-                }
-            } else {
-                // Direct mention - use tweet author as fee recipient
-                feeRecipient = { author_id: tweet.author.id, author_username: tweet.author.userName };
-                console.log(`📣 Direct mention - deployer is fee recipient`);
+            try {
+                await this.handleDM(dm);
+            } catch (error) {
+                console.error(`❌ Error processing DM ${dm.id}:`, error);
+                return this.failEvent('dm', dm.id, error, dm);
             }
+            await db.completeEvent(this.bot.id, 'dm', dm.id);
+            return true;
+        })());
+    }
 
-            console.log(`✅ Valid deploy: ${command.ticker} (${command.name})`);
-            console.log(`   Fee recipient: @${feeRecipient.author_username}`);
+    /**
+     * Count a failed attempt at an event
+     * The claim is released so the source redelivers it, until EVENT_MAX_ATTEMPTS
+     * is reached. Then the event is marked done and dead-lettered, so one
+     * event that always fails can't hold up the ones after it.
+     * @returns What to tell the source: false to redeliver, true to move past it
+     */
+    private async failEvent(eventType: ProcessedEventType, eventId: string, error: unknown, payload: TweetMention | DirectMessage): Promise<boolean> {
+        const failure = await db.recordEventFailure({
+            botId: this.bot.id,
+            eventType,
+            eventId,
+            error: error instanceof Error ? error.message : String(error),
+            payload,
+            maxAttempts: config.EVENT_MAX_ATTEMPTS,
+        });
+        if (failure.dead_lettered_at) {
+            console.error(`☠️ Giving up on ${eventType} ${eventId} after ${failure.attempts} attempts; dead-lettered`);
+            await db.completeEvent(this.bot.id, eventType, eventId);
+            return true;
+        }
+        await db.releaseEvent(this.bot.id, eventType, eventId);
+        return false;
+    }
 
-            // Create a parentTweet-like object for the queue
-            const parentTweet = {
-                tweet_id: mention.in_reply_to_tweet_id || mention.tweet_id,
-                author_id: feeRecipient.author_id,
-                author_username: feeRecipient.author_username,
-            };
+    /**
+     * Route a mention to its command
+     * @returns false (or throws) if processing failed and the mention should be retried
+     */
+    private async handleMention(mention: TweetMention, source: IngestionSource): Promise<boolean> {
+        console.log(`📨 Processing tweet: ${mention.tweet_id} (via ${source.name})`);
+        console.log(`   From: @${mention.author_username}`);
+        console.log(`   Text: ${mention.text.substring(0, 100)}...`);
+
+        // Deploys are also recognized without a leading verb (`ticker:` fields), so they're the fallback
+        const routed = this.router.match(mention.text, 'mention');
+        const command = routed?.command ?? this.router.get('deploy')!;
+        const handled = await command.handler({
+            channel: 'mention',
+            userId: mention.author_id,
+            username: mention.author_username,
+            text: mention.text,
+            args: routed?.args ?? '',
+            mention,
+            locale: await this.resolveLocale(mention.author_id, mention.text),
+            reply: async (text) => {
+                await this.bot.replyPublisher.postCommandReply({
+                    replyToTweetId: mention.tweet_id,
+                    username: mention.author_username,
+                    text,
+                });
+            },
+        });
+        return handled !== false;
+    }
 
-            // Queue or process directly
-            if (config.MOCK_QUEUE) {
-                await processDeploymentJob({ mention, command, parentTweet });
-            } else {
-                await deploymentQueue.add('deploy', { mention, command, parentTweet });
-                console.log(`📤 Queued deployment job for tweet ${tweet.id}`);
+    /**
+     * Parse a deploy mention and queue its deployment
+     */
+    private async handleDeployMention(mention: TweetMention, locale: Locale): Promise<boolean> {
+        // Parse deploy command
+        const parsed = this.commandParser.parse(mention.text);
+        if (!parsed.ok) {
+            if (parsed.error.code === 'NOT_A_COMMAND') {
+                console.log(`⏭️ No deploy command in tweet ${mention.tweet_id}`);
+                return true;
             }
-        } catch (error) {
-            console.error(`❌ Error processing tweet ${tweet.id}:`, error);
+
+            // They meant to deploy; tell them exactly what to fix
+            console.log(`⏭️ Malformed deploy command in tweet ${mention.tweet_id}: ${parsed.error.code}`);
+            await this.bot.replyPublisher.postCorrection({
+                replyToTweetId: mention.tweet_id,
+                username: mention.author_username,
+                hint: this.commandParser.hint(parsed.error, 'tweet', locale),
+                locale,
+            });
+            return true;
         }
+        const command = parsed.command;
+
+        let override: ParentTweetInfo | null = null;
+        if (command.feeRecipientHandle) {
+            override = await this.resolveFeeOverride(mention, command.feeRecipientHandle);
+            if (!override) {
+                await this.bot.replyPublisher.postFailure({
+                    replyToTweetId: mention.tweet_id,
+                    username: mention.author_username,
+                    reason: translate(locale, 'failure.feeOverride', { handle: command.feeRecipientHandle }),
+                    locale,
+                });
+                return true;
+            }
+        }
+
+        // Same fee recipient rules for every source (see FEE_RECIPIENT_RULES)
+        const decision = await this.feeRecipientPolicy.decide(mention, override);
+        if (!decision) {
+            console.log(`⏭️ No fee recipient rule applies to tweet ${mention.tweet_id}`);
+            return true;
+        }
+        const parentTweet = decision.recipient;
+        const attribution = { reason: decision.reason, chain: decision.chain, sources: decision.sources };
+        const media = await this.imageCandidates(mention, command, parentTweet);
+
+        console.log(`✅ Valid deploy: ${command.ticker} (${command.name})`);
+        console.log(`   Fee recipient: @${parentTweet.author_username} (${decision.reason})`);
+
+        await this.enqueueDeployment(
+            { source: 'tweet', botId: this.bot.id, mention, command, parentTweet, attribution, media, locale },
+            mention.tweet_id
+        );
+        return true;
     }
 
     /**
-     * Poll for DMs
+     * Photos to try as the token image when the command has no `image:` field
+     * The deploy tweet's own photos come first, then (with TOKEN_IMAGE_FROM_PARENT)
+     * those of the tweet it replies to. The worker validates them in order.
      */
-    private async pollDMs(): Promise<void> {
-        if (!this.twitterApiIoClient) return;
+    private async imageCandidates(mention: TweetMention, command: DeployCommand, recipient: ParentTweetInfo): Promise<TweetMedia[]> {
+        if (command.image) return [];
+
+        const media = [...(mention.media || [])];
+        if (config.TOKEN_IMAGE_FROM_PARENT && mention.in_reply_to_tweet_id) {
+            // The fee recipient is usually the parent, already fetched with its media
+            const parent = recipient.tweet_id === mention.in_reply_to_tweet_id
+                ? recipient
+                : await this.parentResolver.resolve(mention.in_reply_to_tweet_id);
+            media.push(...(parent?.media || []));
+        }
+        return media;
+    }
 
-        try {
-            const dms = await this.twitterApiIoClient.getDMs();
+    /**
+     * Resolve a `fee: @handle` override to an account
+     * Where the source reports which @mentions X linked to accounts, the handle
+     * must be one of them (so the recipient is notified and typo'd or made-up
+     * handles are rejected) and its ID is used directly. Otherwise the handle
+     * is looked up through the X client.
+     */
+    private async resolveFeeOverride(mention: TweetMention, handle: string): Promise<ParentTweetInfo | null> {
+        if (!config.FEE_RECIPIENT_RULES.includes('override')) {
+            console.log(`⏭️ Fee override @${handle} ignored, override rule is disabled`);
+            return null;
+        }
 
-            if (!dms.length) return;
+        const wanted = handle.toLowerCase();
+        let user: MentionedUser | null | undefined;
+        if (mention.mentioned_users) {
+            user = mention.mentioned_users.find((u) => u.username.toLowerCase() === wanted);
+            if (!user) {
+                console.log(`⏭️ Fee override @${handle} is not a linked mention in tweet ${mention.tweet_id}`);
+                return null;
+            }
+        }
 
-            // Sort by creation time ascending (oldest first)
-            dms.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+        if (!user?.id) {
+            user = await this.parentResolver.resolveUser(handle);
+        }
+        if (!user?.id) {
+            console.log(`⏭️ Fee override @${handle} could not be resolved`);
+            return null;
+        }
 
-            for (const dm of dms) {
-                // Skip if handled
-                if (this.lastProcessedDmId && dm.id <= this.lastProcessedDmId) {
-                    continue;
-                }
+        return {
+            tweet_id: mention.tweet_id,
+            author_id: user.id,
+            author_username: user.username,
+        };
+    }
 
-                await this.handleDM(dm);
-                this.lastProcessedDmId = dm.id;
-            }
-        } catch (error) {
-            console.error('❌ Error polling DMs:', error);
-        }
+    /**
+     * Every verb the bot answers, for DMs and mentions
+     */
+    private createRouter(): CommandRouter {
+        return new CommandRouter(this.botUsername)
+            .register({
+                verb: 'start',
+                usage: 'start',
+                description: 'Create your deposit wallet',
+                channels: ['dm'],
+                handler: (ctx) => this.handleStartCommand(ctx.userId, ctx.locale),
+            })
+            .register({
+                verb: 'deploy',
+                aliases: ['launch', 'create'],
+                usage: 'deploy $TICKER Token Name',
+                description: 'Launch a token (desc:, image:, website:, twitter:, telegram: on extra lines)',
+                channels: ['dm', 'mention'],
+                handler: (ctx) => {
+                    if (ctx.mention) return this.handleDeployMention(ctx.mention, ctx.locale);
+                    return ctx.args
+                        ? this.handleDeployCommand(ctx.dm!, ctx.text, ctx.locale)
+                        : this.startDeployWizard(ctx.userId, ctx.locale);
+                },
+            })
+            .register({
+                verb: 'status',
+                usage: 'status <tweet or token>',
+                description: 'Look up a deployment by tweet link, token address or $TICKER',
+                channels: ['dm', 'mention'],
+                handler: (ctx) => this.handleStatusCommand(ctx),
+            })
+            .register({
+                verb: 'balance',
+                usage: 'balance',
+                description: 'Show your wallet balance',
+                channels: ['dm', 'mention'],
+                handler: (ctx) => this.handleBalanceCommand(ctx),
+            })
+            .register({
+                verb: 'history',
+                usage: 'history',
+                description: `Your last ${HISTORY_LIMIT} deployments`,
+                channels: ['dm', 'mention'],
+                handler: (ctx) => this.handleHistoryCommand(ctx),
+            })
+            .register({
+                verb: 'link',
+                usage: 'link 0x...',
+                description: 'Use an external wallet instead',
+                channels: ['dm'],
+                handler: (ctx) => this.handleLinkCommand(ctx),
+            })
+            .register({
+                verb: 'withdraw',
+                usage: 'withdraw <amount|all> 0x...',
+                description: 'Send funds out of your deposit wallet',
+                channels: ['dm'],
+                handler: (ctx) => this.handleWithdrawCommand(ctx),
+            })
+            .register({
+                verb: 'export',
+                usage: 'export',
+                description: 'Get your private key, e.g. for MetaMask',
+                channels: ['dm'],
+                handler: (ctx) => this.handleExportCommand(ctx),
+            })
+            .register({
+                verb: 'help',
+                usage: 'help',
+                description: 'This list',
+                channels: ['dm', 'mention'],
+                handler: (ctx) => ctx.reply(this.router.help(ctx.channel, ctx.locale)),
+            });
     }
 
     /**
-     * Handle a parsed DM
+     * Route a DM to its command; anything unrecognized gets the command list
+     * A bare code confirms a pending withdrawal, and the bare phrase a pending
+     * key export. While a deploy wizard is open, every other DM but a new
+     * deploy answers it.
      */
-    private async handleDM(dm: { id: string; sender_id: string; text: string; created_at: string }): Promise<void> {
+    private async handleDM(dm: DirectMessage): Promise<void> {
         const text = dm.text.trim();
-
-        // 1. START Command
-        if (text.toLowerCase() === 'start') {
-            await this.handleStartCommand(dm.sender_id);
+        const locale = await this.resolveLocale(dm.sender_id, text);
+        if (CONFIRMATION_CODE_PATTERN.test(text) && await this.confirmWithdrawal(dm.sender_id, text, locale)) {
             return;
         }
-
-        // 2. DEPLOY Command
-        // Format: "deploy" (interactive not supported yet) or multiline
-        if (text.toLowerCase().startsWith('deploy')) {
-            await this.handleDeployCommand(dm.sender_id, text);
+        if (matchExportPhrase(text) && await this.confirmExport(dm.sender_id, locale)) {
+            return;
+        }
+        const routed = this.router.match(text, 'dm');
+        if (routed?.command.verb !== 'deploy' && await this.continueDeployWizard(dm, text, locale)) {
+            return;
+        }
+        if (!routed) {
+            console.log(`📩 Unknown DM from ${dm.sender_id}: "${text.substring(0, 50)}..."`);
+            await this.sendDM(dm.sender_id, translate(locale, 'dm.unknown', { help: this.router.help('dm', locale) }));
             return;
         }
 
-        // 3. LINK Command (Legacy/Optional)
-        // Regex: /link\s+(0x[a-fA-F0-9]{40})/i
-        const match = text.match(/link\s+(0x[a-fA-F0-9]{40})/i);
-        if (match) {
-            const walletAddress = match[1];
-            console.log(`📩 Processing DM from ${dm.sender_id}: Link request for ${walletAddress}`);
+        console.log(`📩 ${routed.command.verb.toUpperCase()} command by DM from ${dm.sender_id}`);
+        await routed.command.handler({
+            channel: 'dm',
+            userId: dm.sender_id,
+            text,
+            args: routed.args,
+            dm,
+            locale,
+            reply: (reply) => this.sendDM(dm.sender_id, reply),
+        });
+    }
 
-            try {
-                // If linking external wallet, we might wipe encrypted key? 
-                // For now, let's allow linking external but prefer internal if 'start' used.
-                await db.upsertUser(dm.sender_id, walletAddress, null); // Nullifies encrypted key
-                console.log(`✅ Wallet linked: ${dm.sender_id} -> ${walletAddress}`);
-                await this.sendDM(dm.sender_id, `✅ External wallet linked: ${walletAddress}`);
-            } catch (error) {
-                console.error('❌ Error handling DM link:', error);
-                await this.sendDM(dm.sender_id, `❌ Failed to link wallet.`);
-            }
+    /**
+     * Language to answer a user in
+     * What the message itself is written in wins and is remembered; messages
+     * with no language cues (a bare $TICKER, a link) fall back to the last one.
+     */
+    private async resolveLocale(userId: string, text: string): Promise<Locale> {
+        const detected = detectLocale(text);
+        const stored = await db.getUserLocale(userId);
+        if (detected && detected !== stored) {
+            await db.setUserLocale(userId, detected);
+        }
+        return detected ?? stored ?? DEFAULT_LOCALE;
+    }
+
+    private async handleLinkCommand(ctx: CommandContext): Promise<void> {
+        const match = ctx.args.match(/^(0x[a-fA-F0-9]{40})$/);
+        if (!match) {
+            await ctx.reply(translate(ctx.locale, 'link.usage'));
             return;
         }
+        const walletAddress = match[1];
+        console.log(`📩 Processing DM from ${ctx.userId}: Link request for ${walletAddress}`);
 
-        console.log(`📩 Ignoring unknown DM from ${dm.sender_id}: "${text.substring(0, 50)}..."`);
+        try {
+            // If linking external wallet, we might wipe encrypted key? 
+            // For now, let's allow linking external but prefer internal if 'start' used.
+            await db.upsertUser(ctx.userId, walletAddress, null); // Nullifies encrypted key
+            console.log(`✅ Wallet linked: ${ctx.userId} -> ${walletAddress}`);
+            await ctx.reply(translate(ctx.locale, 'link.success', { address: walletAddress }));
+        } catch (error) {
+            console.error('❌ Error handling DM link:', error);
+            await ctx.reply(translate(ctx.locale, 'link.failed'));
+        }
     }
 
-    private async handleStartCommand(senderId: string): Promise<void> {
-        console.log(`🚀 Processing START command for ${senderId}`);
-        try {
-            const user = await db.getUserByTwitterId(senderId);
-            if (user?.private_key_encrypted) {
-                await this.sendDM(senderId, `ℹ️ You already have a wallet.\nAddress: ${user.wallet_address}\n\nTo deploy, send:\ndeploy\nname: <Token Name>\nsymbol: <Ticker>\ndesc: <Description>\nimage: <Image URL>`);
-                return;
+    /**
+     * `withdraw <amount|all> <0x address>` from a custodial wallet
+     * Nothing is sent until the user echoes back a one-time code, either on
+     * its own or as `withdraw <code>`. `withdraw cancel` drops the request.
+     */
+    private async handleWithdrawCommand(ctx: CommandContext): Promise<void> {
+        if (CONFIRMATION_CODE_PATTERN.test(ctx.args)) {
+            if (!(await this.confirmWithdrawal(ctx.userId, ctx.args, ctx.locale))) {
+                await ctx.reply(translate(ctx.locale, 'withdraw.noPending'));
             }
+            return;
+        }
+        if (matchAnswer(ctx.args) === 'cancel') {
+            const pending = await this.pendingWithdrawals.take(ctx.userId);
+            await ctx.reply(translate(ctx.locale, pending ? 'withdraw.cancelled' : 'withdraw.noPending'));
+            return;
+        }
 
-            const { address, privateKey } = walletService.createWallet();
-            const encryptedKey = walletService.encrypt(privateKey);
+        const request = parseWithdrawArgs(ctx.args);
+        if (!request) {
+            await ctx.reply(translate(ctx.locale, 'withdraw.usage'));
+            return;
+        }
 
-            await db.upsertUser(senderId, address, encryptedKey);
+        const user = await db.getUserByTwitterId(ctx.userId);
+        if (!user?.private_key_encrypted) {
+            await ctx.reply(translate(ctx.locale, 'withdraw.noWallet'));
+            return;
+        }
+        if (request.to.toLowerCase() === user.wallet_address.toLowerCase()) {
+            await ctx.reply(translate(ctx.locale, 'withdraw.ownAddress'));
+            return;
+        }
 
-            await this.sendDM(senderId, `✅ Wallet Generated!\n\nAddress: ${address}\n\nPlease deposit ~0.02 BNB to cover deployment fees.\n\nTo deploy, send:\ndeploy\nname: Your Token\nsymbol: TICKER\ndesc: Description\nimage: https://...`);
-        } catch (error) {
-            console.error('❌ Error in start command:', error);
-            await this.sendDM(senderId, '❌ Failed to create wallet. Please try again.');
+        const { deployer } = this.bot;
+        const [balance, gasPrice] = await Promise.all([
+            deployer.getBalanceOf(user.wallet_address as Address),
+            deployer.getGasPrice(),
+        ]);
+        const plan = planWithdrawal(balance, gasPrice, request.amount);
+        if (!plan.ok) {
+            await ctx.reply(this.insufficientForWithdrawal(ctx.locale, balance, plan));
+            return;
         }
-    }
 
-    private async handleDeployCommand(senderId: string, text: string): Promise<void> {
-        console.log(`🚀 Processing DEPLOY command for ${senderId}`);
+        const code = newConfirmationCode();
+        const amount = request.amount === 'all' ? 'all' : request.amount.toString();
+        await this.pendingWithdrawals.set(ctx.userId, { code, to: request.to, amount, attempts: 0 }, config.WITHDRAW_CODE_TTL_MINUTES * 60);
+        console.log(`💸 Withdrawal of ${ethers.formatEther(plan.amount)} requested by ${ctx.userId}, awaiting code`);
+        await ctx.reply(translate(ctx.locale, 'withdraw.confirm', {
+            amount: ethers.formatEther(plan.amount),
+            symbol: deployer.chain.nativeSymbol,
+            to: request.to,
+            fee: ethers.formatEther(plan.fee),
+            code,
+            minutes: config.WITHDRAW_CODE_TTL_MINUTES,
+        }));
+    }
 
-        // Parse params from text
-        // Expecting key: value format
-        const lines = text.split('\n');
-        const params: any = {};
-        for (const line of lines) {
-            const [key, ...parts] = line.split(':');
-            if (key && parts.length > 0) {
-                params[key.trim().toLowerCase()] = parts.join(':').trim();
+    /**
+     * Check a confirmation code and, if it matches, send the withdrawal
+     * Codes are single use: the request is taken out of the store before the
+     * code is checked, so the same code sent twice can't send twice. A wrong
+     * code puts it back, until too many of them drop the request.
+     * @returns false if the user has no withdrawal waiting
+     */
+    private async confirmWithdrawal(userId: string, code: string, locale: Locale): Promise<boolean> {
+        const pending = await this.pendingWithdrawals.take(userId);
+        if (!pending) return false;
+
+        if (code !== pending.code) {
+            const attempts = pending.attempts + 1;
+            if (attempts >= MAX_CODE_ATTEMPTS) {
+                await this.sendDM(userId, translate(locale, 'withdraw.locked'));
+            } else {
+                await this.pendingWithdrawals.set(userId, { ...pending, attempts }, config.WITHDRAW_CODE_TTL_MINUTES * 60);
+                await this.sendDM(userId, translate(locale, 'withdraw.wrongCode', { attempts: MAX_CODE_ATTEMPTS - attempts }));
             }
+            return true;
         }
 
-        if (!params.name || !params.symbol || !params.image) {
-            await this.sendDM(senderId, `❌ Missing required fields.\nPlease provide:\nname: ...\nsymbol: ...\nimage: ...\n(desc is optional)`);
-            return;
-        }
+        await this.sendWithdrawal(userId, pending, locale);
+        return true;
+    }
 
+    /**
+     * Sign and send a confirmed withdrawal, recording it in the withdrawals ledger
+     * The balance and gas price are read again, since either may have moved
+     * while the code was outstanding.
+     */
+    private async sendWithdrawal(userId: string, pending: PendingWithdrawal, locale: Locale): Promise<void> {
+        let withdrawalId: number | undefined;
         try {
-            const user = await db.getUserByTwitterId(senderId);
-            if (!user || !user.private_key_encrypted) {
-                await this.sendDM(senderId, `❌ No wallet found. Send 'start' to create one.`);
+            const user = await db.getUserByTwitterId(userId);
+            if (!user?.private_key_encrypted) {
+                await this.sendDM(userId, translate(locale, 'withdraw.noWallet'));
                 return;
             }
 
-            const provider = new ethers.JsonRpcProvider(config.RPC_URL);
-            const wallet = walletService.getWallet(user.private_key_encrypted, provider);
-
-            // Check balance
-            const balance = await provider.getBalance(wallet.address);
-            const required = ethers.parseEther('0.015'); // 0.01 fee + gas
-            if (balance < required) {
-                await this.sendDM(senderId, `❌ Insufficient funds.\nBalance: ${ethers.formatEther(balance)} BNB\nRequired: 0.015 BNB`);
+            const { deployer } = this.bot;
+            const { chain } = deployer;
+            const wallet = walletService.getWallet(user.private_key_encrypted, deployer.getProvider());
+            const [balance, gasPrice] = await Promise.all([
+                deployer.getBalanceOf(wallet.address as Address),
+                deployer.getGasPrice(),
+            ]);
+            const plan = planWithdrawal(balance, gasPrice, pending.amount === 'all' ? 'all' : BigInt(pending.amount));
+            if (!plan.ok) {
+                await this.sendDM(userId, this.insufficientForWithdrawal(locale, balance, plan));
                 return;
             }
 
-            await this.sendDM(senderId, `⏳ Deploying ${params.symbol}... This may take a moment.`);
+            const withdrawal = await db.createWithdrawal({
+                botId: this.bot.id,
+                twitterId: userId,
+                fromAddress: wallet.address,
+                toAddress: pending.to,
+                amountWei: plan.amount,
+                feeWei: plan.fee,
+            });
+            withdrawalId = withdrawal.id;
+
+            const amount = ethers.formatEther(plan.amount);
+            console.log(`💸 Sending withdrawal #${withdrawal.id}: ${amount} ${chain.nativeSymbol} to ${pending.to}`);
+            await this.sendDM(userId, translate(locale, 'withdraw.sending', { amount, symbol: chain.nativeSymbol, to: pending.to }));
 
-            const result = await blockchainDeployer.deploy({
-                name: params.name,
-                symbol: params.symbol,
-                description: params.desc || '',
-                image: params.image,
-                twitter: params.twitter,
-                telegram: params.telegram,
-                website: params.website
-            }, wallet);
+            const result = await deployer.transfer(wallet, pending.to as Address, plan.amount, gasPrice, async (txHash) => {
+                await db.updateWithdrawalStatus(withdrawal.id, 'submitted', { txHash });
+            });
 
             if (result.success) {
-                await this.sendDM(senderId, `✅ Deployment Successful!\n\nToken: ${result.tokenAddress}\nHash: ${result.txHash}\n\nView on BscScan: https://bscscan.com/tx/${result.txHash}`);
+                await db.updateWithdrawalStatus(withdrawal.id, 'confirmed', { txHash: result.txHash });
+                await this.sendDM(userId, translate(locale, 'withdraw.success', {
+                    amount,
+                    symbol: chain.nativeSymbol,
+                    to: pending.to,
+                    txHash: result.txHash,
+                    explorerUrl: chain.explorerUrl,
+                }));
             } else {
-                await this.sendDM(senderId, `❌ Deployment Failed: ${result.error}`);
+                await db.updateWithdrawalStatus(withdrawal.id, 'failed', { txHash: result.txHash, errorMessage: result.error });
+                await this.sendDM(userId, translate(locale, 'withdraw.failed', { error: result.error }));
             }
-
-        } catch (error: any) {
-            console.error('❌ Error in deploy command:', error);
-            await this.sendDM(senderId, `❌ Error: ${error.message}`);
+        } catch (error) {
+            console.error('❌ Error in withdrawal:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            if (withdrawalId) {
+                await db.updateWithdrawalStatus(withdrawalId, 'failed', { errorMessage: message });
+            }
+            await this.sendDM(userId, translate(locale, 'withdraw.failed', { error: message }));
         }
     }
 
-    private async sendDM(recipientId: string, text: string): Promise<void> {
-        if (!this.twitterApiIoClient) {
-            console.log(`[Mock DM] To ${recipientId}: ${text}`);
+    /**
+     * `export` sends a custodial wallet's private key through a one-time link
+     * The first DM only warns. The link is sent once the user types the
+     * confirmation phrase, no sooner than EXPORT_COOLDOWN_SECONDS later, either
+     * on its own or as `export <phrase>`. `export cancel` drops the request.
+     */
+    private async handleExportCommand(ctx: CommandContext): Promise<void> {
+        if (matchAnswer(ctx.args) === 'cancel') {
+            const pending = await this.pendingExports.get(ctx.userId);
+            await this.pendingExports.delete(ctx.userId);
+            await ctx.reply(translate(ctx.locale, pending ? 'export.cancelled' : 'export.noPending'));
+            return;
+        }
+        if (ctx.args) {
+            if (!matchExportPhrase(ctx.args)) {
+                await ctx.reply(translate(ctx.locale, 'export.wrongPhrase', { phrase: localePack(ctx.locale).exportPhrase }));
+            } else if (!(await this.confirmExport(ctx.userId, ctx.locale))) {
+                await ctx.reply(translate(ctx.locale, 'export.noPending'));
+            }
             return;
         }
-        await this.twitterApiIoClient.sendDM(recipientId, text);
+
+        const refusal = await this.exportRefusal(ctx.userId, ctx.locale);
+        if (refusal) {
+            await ctx.reply(refusal);
+            return;
+        }
+
+        await this.pendingExports.set(
+            ctx.userId,
+            { requestedAt: Date.now() },
+            config.EXPORT_COOLDOWN_SECONDS + EXPORT_CONFIRM_WINDOW_SECONDS
+        );
+        console.log(`🔑 Key export requested by ${ctx.userId}, warning sent`);
+        await ctx.reply(translate(ctx.locale, 'export.warning', {
+            phrase: localePack(ctx.locale).exportPhrase,
+            seconds: config.EXPORT_COOLDOWN_SECONDS,
+            minutes: Math.ceil((config.EXPORT_COOLDOWN_SECONDS + EXPORT_CONFIRM_WINDOW_SECONDS) / 60),
+        }));
     }
 
     /**
-     * Start official X API filtered stream
+     * Take the confirmation phrase and, once the cooldown is over, send the link
+     * The token only ever appears in the DM; the audit row keeps its hash.
+     * @returns false if the user has no export waiting
      */
-    private async startOfficialStream(): Promise<void> {
-        try {
-            if (!config.X_API_KEY || !config.X_BEARER_TOKEN) {
-                throw new Error('Missing X API credentials');
-            }
+    private async confirmExport(userId: string, locale: Locale): Promise<boolean> {
+        const pending = await this.pendingExports.get(userId);
+        if (!pending) return false;
+
+        const seconds = cooldownRemaining(pending, config.EXPORT_COOLDOWN_SECONDS);
+        if (seconds > 0) {
+            await this.sendDM(userId, translate(locale, 'export.tooSoon', { seconds }));
+            return true;
+        }
+        await this.pendingExports.delete(userId);
 
-            await this.setupStreamRules();
+        // Checked again: another export may have gone out while this one cooled down
+        const refusal = await this.exportRefusal(userId, locale);
+        if (refusal) {
+            await this.sendDM(userId, refusal);
+            return true;
+        }
 
-            const stream = await this.appClient.v2.searchStream({
-                'tweet.fields': ['author_id', 'created_at', 'in_reply_to_user_id', 'referenced_tweets'],
-                'user.fields': ['username'],
-                expansions: ['author_id', 'referenced_tweets.id'],
-            });
+        const user = (await db.getUserByTwitterId(userId))!;
+        const token = newExportToken();
+        const keyExport = await db.createKeyExport({
+            botId: this.bot.id,
+            twitterId: userId,
+            walletAddress: user.wallet_address,
+            tokenHash: hashExportToken(token),
+            requestedAt: new Date(pending.requestedAt),
+            expiresAt: new Date(Date.now() + config.EXPORT_LINK_TTL_MINUTES * 60 * 1000),
+        });
+        console.log(`🔑 Key export #${keyExport.id} link sent to ${userId}`);
+        await this.sendDM(userId, translate(locale, 'export.link', {
+            url: `${config.PUBLIC_BASE_URL!.replace(/\/+$/, '')}/api/export/${token}`,
+            minutes: config.EXPORT_LINK_TTL_MINUTES,
+        }));
+        return true;
+    }
 
-            this.isRunning = true;
-            console.log('✅ Filtered stream connected.');
+    /**
+     * Why the user can't export a key right now, if they can't
+     */
+    private async exportRefusal(userId: string, locale: Locale): Promise<string | null> {
+        if (!config.PUBLIC_BASE_URL) {
+            return translate(locale, 'export.unavailable');
+        }
+        const user = await db.getUserByTwitterId(userId);
+        if (!user?.private_key_encrypted) {
+            return translate(locale, 'export.noWallet');
+        }
+        const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        if (await db.countKeyExportsSince(userId, since) >= config.EXPORT_MAX_PER_DAY) {
+            return translate(locale, 'export.rateLimited', { max: config.EXPORT_MAX_PER_DAY });
+        }
+        return null;
+    }
 
-            stream.on(ETwitterStreamEvent.Data, (tweet) => this.handleTweet(tweet));
-            stream.on(ETwitterStreamEvent.Error, (error) => this.handleError(error));
-            stream.on(ETwitterStreamEvent.ConnectionClosed, () => this.handleDisconnect());
-            stream.autoReconnect = true;
+    private insufficientForWithdrawal(locale: Locale, balance: bigint, plan: { max: bigint; fee: bigint }): string {
+        return translate(locale, 'withdraw.insufficient', {
+            balance: ethers.formatEther(balance),
+            fee: ethers.formatEther(plan.fee),
+            max: ethers.formatEther(plan.max),
+            symbol: this.bot.deployer.chain.nativeSymbol,
+        });
+    }
 
-        } catch (error) {
-            console.error('❌ Failed to start stream:', error);
-            throw error;
+    /**
+     * `status <tweet or token>`; in a reply, defaults to the tweet being replied to
+     */
+    private async handleStatusCommand(ctx: CommandContext): Promise<void> {
+        const ref = ctx.args.split(/\s+/)[0] || ctx.mention?.in_reply_to_tweet_id || '';
+        if (!ref) {
+            await ctx.reply(translate(ctx.locale, 'status.usage'));
+            return;
         }
+
+        const deployment = await this.findDeployment(ref);
+        if (!deployment) {
+            await ctx.reply(translate(ctx.locale, 'status.notFound', { ref }));
+            return;
+        }
+
+        const { explorerUrl } = this.bot.deployer.chain;
+        const lines = [translate(ctx.locale, 'status.summary', {
+            ticker: deployment.token_symbol ?? '',
+            name: deployment.token_name ?? '',
+            status: translate(ctx.locale, `status.${deployment.status}`),
+        })];
+        if (deployment.token_address) lines.push(`CA: ${deployment.token_address}`);
+        if (deployment.tx_hash) lines.push(`Tx: ${explorerUrl}/tx/${deployment.tx_hash}`);
+        if (deployment.status === 'failed' && deployment.error_message) lines.push(translate(ctx.locale, 'status.reason', { reason: deployment.error_message }));
+        await ctx.reply(lines.join('\n'));
     }
 
-    private startMockStream() {
-        this.isRunning = true;
-        console.log('🎭 Starting X Listener in MOCK MODE...');
-        console.log('   (Simulating incoming tweets. ONE-SHOT mode.)');
-
-        setTimeout(() => {
-            const mockTweet: TweetV2SingleStreamResult = {
-                data: {
-                    id: '1234567890',
-                    text: `@${this.botUsername} deploy\nticker: OJAS\nname: Ojas Narang`,
-                    author_id: '123456789',
-                    created_at: new Date().toISOString(),
-                    referenced_tweets: [{ type: 'replied_to', id: '987654321' }],
-                    edit_history_tweet_ids: ['1234567890'],
-                },
-                includes: {
-                    users: [
-                        { id: '123456789', name: 'Test User', username: 'testuser', verified: false, protected: false, created_at: new Date().toISOString() },
-                        { id: '987654321', username: 'original_author', name: 'Original Author', verified: false, protected: false, created_at: new Date().toISOString() }
-                    ]
-                },
-                matching_rules: [{ id: 'mock_rule', tag: 'deploy_command' }]
-            };
+    /**
+     * A deployment by deploy tweet (ID or link), token address or ticker
+     */
+    private async findDeployment(ref: string): Promise<Deployment | null> {
+        if (/^0x[a-fA-F0-9]{40}$/.test(ref)) {
+            return db.getDeploymentByTokenAddress(ref);
+        }
+        const tweetId = ref.match(/^(\d+)$/)?.[1] || ref.match(/\/status(?:es)?\/(\d+)/)?.[1];
+        if (tweetId) {
+            return db.getDeploymentByTweetId(tweetId);
+        }
+        const ticker = ref.match(/^\$?([A-Za-z0-9]{1,10})$/)?.[1];
+        return ticker ? db.getLatestDeploymentBySymbol(ticker.toUpperCase()) : null;
+    }
 
-            console.log('\n🐦 Mock Tweet Received:', mockTweet.data.text);
-            this.handleTweet(mockTweet);
-        }, 10000);
+    private async handleBalanceCommand(ctx: CommandContext): Promise<void> {
+        const user = await db.getUserByTwitterId(ctx.userId);
+        if (!user) {
+            await ctx.reply(translate(ctx.locale, 'balance.noWallet'));
+            return;
+        }
+
+        const { nativeSymbol } = this.bot.deployer.chain;
+        const balance = await this.bot.deployer.getBalanceOf(user.wallet_address as Address);
+        await ctx.reply(translate(ctx.locale, user.private_key_encrypted ? 'balance.custodial' : 'balance.linked', {
+            balance: ethers.formatEther(balance),
+            symbol: nativeSymbol,
+            address: user.wallet_address,
+        }));
     }
 
-    private async setupStreamRules(): Promise<void> {
-        const rules = await this.appClient.v2.streamRules();
-        if (rules.data?.length) {
-            await this.appClient.v2.updateStreamRules({
-                delete: { ids: rules.data.map((rule) => rule.id) },
-            });
+    private async handleHistoryCommand(ctx: CommandContext): Promise<void> {
+        const deployments = await db.getDeploymentsByDeployer(ctx.userId, HISTORY_LIMIT);
+        if (!deployments.length) {
+            await ctx.reply(translate(ctx.locale, 'history.empty'));
+            return;
         }
-        await this.appClient.v2.updateStreamRules({
-            add: [{ value: `@${this.botUsername} deploy`, tag: 'deploy_command' }],
+
+        const lines = deployments.map((d, i) => {
+            const address = d.token_address ? ` ${d.token_address.slice(0, 6)}...${d.token_address.slice(-4)}` : '';
+            return `${i + 1}. $${d.token_symbol} ${d.token_name} - ${translate(ctx.locale, `status.${d.status}`)}${address}`;
         });
-        console.log(`📋 Stream rules set for @${this.botUsername}`);
+        await ctx.reply(`${translate(ctx.locale, 'history.header')}\n${lines.join('\n')}`);
     }
 
-    private async handleTweet(data: TweetV2SingleStreamResult): Promise<void> {
-        const tweet = data.data;
-        console.log(`📨 Received tweet: ${tweet.id}`);
-
+    private async handleStartCommand(senderId: string, locale: Locale): Promise<void> {
+        console.log(`🚀 Processing START command for ${senderId}`);
+        const chain = this.bot.deployer.chain;
         try {
-            const mention: TweetMention = {
-                tweet_id: tweet.id,
-                author_id: tweet.author_id!,
-                author_username: this.extractUsername(data, tweet.author_id!),
-                text: tweet.text,
-                in_reply_to_tweet_id: this.extractParentTweetId(tweet),
-                created_at: tweet.created_at!,
-            };
-
-            if (!mention.in_reply_to_tweet_id) {
-                console.log(`⏭️ Skipping non-reply tweet ${tweet.id}`);
+            const user = await db.getUserByTwitterId(senderId);
+            if (user?.private_key_encrypted) {
+                await this.sendDM(senderId, translate(locale, 'start.exists', { address: user.wallet_address }));
                 return;
             }
 
-            const command = this.commandParser.parse(mention.text);
-            if (!command) {
-                console.log(`⏭️ Skipping invalid command in tweet ${tweet.id}`);
+            const { address, privateKey } = walletService.createWallet();
+            const encryptedKey = walletService.encrypt(privateKey);
+
+            await db.upsertUser(senderId, address, encryptedKey);
+
+            await this.sendDM(senderId, translate(locale, 'start.created', { address, symbol: chain.nativeSymbol }));
+        } catch (error) {
+            console.error('❌ Error in start command:', error);
+            await this.sendDM(senderId, translate(locale, 'start.failed'));
+        }
+    }
+
+    /**
+     * Open the deploy wizard, unless there's no wallet to deploy from
+     */
+    private async startDeployWizard(senderId: string, locale: Locale): Promise<void> {
+        const user = await db.getUserByTwitterId(senderId);
+        if (!user?.private_key_encrypted) {
+            await this.sendDM(senderId, translate(locale, 'deploy.noWallet'));
+            return;
+        }
+        console.log(`🧙 Deploy wizard started for ${senderId}`);
+        await this.sendDM(senderId, await this.wizard.start(senderId, locale));
+    }
+
+    /**
+     * Pass a DM to the user's open wizard, deploying once they confirm
+     * @returns false if the user has no wizard open
+     */
+    private async continueDeployWizard(dm: DirectMessage, text: string, locale: Locale): Promise<boolean> {
+        const senderId = dm.sender_id;
+        const reply = await this.wizard.answer(senderId, text, locale);
+        if (!reply) return false;
+
+        if (reply.text) {
+            await this.sendDM(senderId, reply.text);
+        }
+        if (reply.command) {
+            console.log(`🧙 Deploy wizard confirmed by ${senderId}`);
+            await this.deployFromDM(dm, reply.command, locale);
+        }
+        return true;
+    }
+
+    private async handleDeployCommand(dm: DirectMessage, text: string, locale: Locale): Promise<void> {
+        const senderId = dm.sender_id;
+        console.log(`🚀 Processing DEPLOY command for ${senderId}`);
+
+        // Same key:value grammar as tweets
+        const parsed = this.commandParser.parseDirectMessage(text);
+        if (!parsed.ok) {
+            await this.sendDM(senderId, translate(locale, 'deploy.invalid', { hint: this.commandParser.hint(parsed.error, 'dm', locale) }));
+            return;
+        }
+        await this.wizard.close(senderId);
+        await this.deployFromDM(dm, parsed.command, locale);
+    }
+
+    /**
+     * Deploy a DM command from the sender's custodial wallet
+     */
+    private async deployFromDM(dm: DirectMessage, command: DeployCommand, locale: Locale): Promise<void> {
+        const senderId = dm.sender_id;
+        try {
+            const user = await db.getUserByTwitterId(senderId);
+            if (!user || !user.private_key_encrypted) {
+                await this.sendDM(senderId, translate(locale, 'deploy.noWallet'));
                 return;
             }
 
-            const parentTweet = await this.parentResolver.resolve(mention.in_reply_to_tweet_id);
-            if (!parentTweet) {
-                console.log(`❌ Could not resolve parent tweet for ${tweet.id}`);
+            // Check balance up front; the worker would only fail on-chain
+            const balance = await this.bot.deployer.getBalanceOf(user.wallet_address as Address);
+            const required = ethers.parseEther('0.015'); // 0.01 fee + gas
+            if (balance < required) {
+                await this.sendDM(senderId, translate(locale, 'deploy.insufficientFunds', {
+                    balance: ethers.formatEther(balance),
+                    required: ethers.formatEther(required),
+                    symbol: this.bot.deployer.chain.nativeSymbol,
+                }));
                 return;
             }
 
-            console.log(`✅ Valid deploy command: ${command.ticker} (${command.name})`);
-            console.log(`   Fee recipient: @${parentTweet.author_username}`);
+            await this.sendDM(senderId, translate(locale, 'deploy.deploying', { ticker: command.ticker }));
 
-            if (config.MOCK_QUEUE) {
-                processDeploymentJob({ mention, command, parentTweet }).catch(err => console.error('Error:', err));
-            } else {
-                await deploymentQueue.add('deploy', { mention, command, parentTweet });
-                console.log(`📤 Queued deployment job for tweet ${tweet.id}`);
-            }
+            // Moderation, collisions, rate limits and the outcome DM are the worker's
+            await this.enqueueDeployment({
+                source: 'dm',
+                botId: this.bot.id,
+                dm: { id: dm.id, sender_id: senderId },
+                command,
+                locale,
+            }, dm.id);
         } catch (error) {
-            console.error(`❌ Error processing tweet ${tweet.id}:`, error);
+            console.error('❌ Error in deploy command:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            await this.sendDM(senderId, translate(locale, 'deploy.error', { error: message }));
         }
     }
 
-    private extractUsername(data: TweetV2SingleStreamResult, authorId: string): string {
-        return data.includes?.users?.find((u) => u.id === authorId)?.username || 'unknown';
-    }
-
-    private extractParentTweetId(tweet: TweetV2SingleStreamResult['data']): string | null {
-        return tweet.referenced_tweets?.find((ref) => ref.type === 'replied_to')?.id || null;
-    }
-
-    private handleError(error: any): void {
-        console.error('❌ Stream error:', error.message || error);
+    /**
+     * Queue a deployment, or process it directly with MOCK_QUEUE
+     * @param eventId The deploy tweet or DM; makes the enqueue idempotent per event
+     */
+    private async enqueueDeployment(job: DeploymentJob, eventId: string): Promise<void> {
+        if (config.MOCK_QUEUE) {
+            await processDeploymentJob(job);
+            return;
+        }
+        // BullMQ refuses job IDs that look like integers, which a bare snowflake can
+        const source = job.source ?? 'tweet';
+        await deploymentQueue.add('deploy', job, { jobId: `${job.botId}-${source}-${eventId}` });
+        console.log(`📤 Queued deployment job for ${source === 'dm' ? 'DM' : 'tweet'} ${eventId}`);
     }
 
-    private handleDisconnect(): void {
-        console.log('🔌 Stream disconnected');
-        this.isRunning = false;
+    private async sendDM(recipientId: string, text: string): Promise<void> {
+        await this.bot.replyPublisher.sendDirectMessage(recipientId, text);
     }
 }
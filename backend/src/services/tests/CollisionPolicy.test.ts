@@ -0,0 +1,90 @@
+import { CollisionPolicy, DEFAULT_COLLISION_ACTIONS, describeCollision, type DeploymentLookup } from '../CollisionPolicy.js';
+import type { Deployment } from '../../types/index.js';
+
+describe('CollisionPolicy', () => {
+    const now = new Date('2026-01-02T12:00:00Z');
+    const hour = 60 * 60 * 1000;
+
+    const deployment = (overrides: Partial<Deployment>): Deployment => ({
+        id: 1,
+        bot_id: 'default',
+        deploy_tweet_id: '100',
+        parent_tweet_id: '50',
+        deployer_twitter_id: 'd1',
+        fee_recipient_twitter_id: 'p1',
+        fee_recipient_wallet: '0xabc',
+        token_name: 'Pepe',
+        token_symbol: 'PEPE',
+        token_address: '0x1111111111111111111111111111111111111111',
+        pool_id: null,
+        tx_hash: null,
+        status: 'deployed',
+        error_message: null,
+        moderation_rule_id: null,
+        source: 'tweet',
+        fee_recipient_reason: 'parent',
+        attribution_chain: null,
+        created_at: new Date(now.getTime() - hour),
+        deployed_at: null,
+        ...overrides,
+    });
+
+    // Returns whatever it's given; the policy decides which rule each row matches
+    const lookup = (rows: Deployment[]): DeploymentLookup => ({
+        findCollisionCandidates: async () => rows,
+    });
+
+    it('should block a recent ticker and point at the existing token', async () => {
+        const policy = new CollisionPolicy(DEFAULT_COLLISION_ACTIONS, 24 * hour, lookup([deployment({})]));
+        const report = await policy.check({ deployTweetId: '200', ticker: 'pepe', name: 'Pepe Two' }, now);
+        expect(report.blocked?.rule).toBe('ticker');
+        expect(describeCollision(report.blocked!, 'en')).toBe(
+            '$PEPE was launched recently.\nExisting token: 0x1111111111111111111111111111111111111111'
+        );
+    });
+
+    it('should leave out the address of a deploy that only recorded a placeholder', async () => {
+        const policy = new CollisionPolicy(DEFAULT_COLLISION_ACTIONS, 24 * hour, lookup([deployment({ token_address: '0xPENDING_LOG_PARSE' })]));
+        const report = await policy.check({ deployTweetId: '200', ticker: 'PEPE', name: 'Pepe Two' }, now);
+        expect(describeCollision(report.blocked!, 'en')).toBe('$PEPE was launched recently.');
+    });
+
+    it('should ignore tickers and names outside the window', async () => {
+        const old = deployment({ created_at: new Date(now.getTime() - 48 * hour) });
+        const policy = new CollisionPolicy(DEFAULT_COLLISION_ACTIONS, 24 * hour, lookup([old]));
+        const report = await policy.check({ deployTweetId: '200', ticker: 'PEPE', name: 'pepe' }, now);
+        expect(report).toEqual({ blocked: null, warnings: [] });
+    });
+
+    it('should block a second token for the same parent tweet at any age', async () => {
+        const old = deployment({ token_symbol: 'FROG', token_name: 'Frog', created_at: new Date(now.getTime() - 48 * hour) });
+        const policy = new CollisionPolicy(DEFAULT_COLLISION_ACTIONS, 24 * hour, lookup([old]));
+        const report = await policy.check({ deployTweetId: '200', parentTweetId: '50', ticker: 'PEPE', name: 'Pepe' }, now);
+        expect(report.blocked?.rule).toBe('parent');
+    });
+
+    it('should not treat self-deploys as sharing a parent', async () => {
+        const self = deployment({ deploy_tweet_id: '200', parent_tweet_id: '200', token_symbol: 'FROG', token_name: 'Frog' });
+        const policy = new CollisionPolicy(DEFAULT_COLLISION_ACTIONS, 24 * hour, lookup([self]));
+        const report = await policy.check({ deployTweetId: '300', parentTweetId: '300', ticker: 'PEPE', name: 'Pepe' }, now);
+        expect(report.blocked).toBeNull();
+    });
+
+    it('should warn and continue on a name collision', async () => {
+        const pending = deployment({ token_symbol: 'PEPE2', token_address: null, status: 'processing' });
+        const policy = new CollisionPolicy(DEFAULT_COLLISION_ACTIONS, 24 * hour, lookup([pending]));
+        const report = await policy.check({ deployTweetId: '200', ticker: 'PEPE3', name: 'PEPE' }, now);
+        expect(report.blocked).toBeNull();
+        expect(report.warnings.map((w) => w.rule)).toEqual(['name']);
+        expect(describeCollision(report.warnings[0], 'en')).toBe(
+            'A token named "Pepe" was launched recently.\nThe earlier one is still deploying: https://x.com/i/status/100'
+        );
+    });
+
+    it('should skip the lookup when every rule is allowed', async () => {
+        const findCollisionCandidates = jest.fn(async () => [deployment({})]);
+        const policy = new CollisionPolicy({ ticker: 'allow', parent: 'allow', name: 'allow' }, 24 * hour, { findCollisionCandidates });
+        expect(await policy.check({ deployTweetId: '200', ticker: 'PEPE', name: 'Pepe' }, now)).toEqual({ blocked: null, warnings: [] });
+        expect(findCollisionCandidates).not.toHaveBeenCalled();
+    });
+});
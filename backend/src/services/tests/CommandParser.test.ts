@@ -1,4 +1,4 @@
-import { CommandParser } from '../CommandParser.js';
+import { CommandParser, type ParseErrorCode } from '../CommandParser.js';
 
 describe('CommandParser', () => {
     let parser: CommandParser;
@@ -7,12 +7,21 @@ describe('CommandParser', () => {
         parser = new CommandParser('MyBot');
     });
 
+    const expectError = (text: string, code: ParseErrorCode, field?: string) => {
+        const result = parser.parse(text);
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error.code).toBe(code);
+            expect(result.error.field).toBe(field);
+        }
+    };
+
     it('should parse valid command case-insensitive', () => {
         const text = '@MyBot deploy\nTicker: TEST\nName: Test Token';
         const result = parser.parse(text);
         expect(result).toEqual({
-            ticker: 'TEST',
-            name: 'Test Token'
+            ok: true,
+            command: { ticker: 'TEST', name: 'Test Token' }
         });
     });
 
@@ -20,33 +29,262 @@ describe('CommandParser', () => {
         const text = '  @mybot   deploy  \n  ticker:   OJAS  \n  name:   Ojas Narang  ';
         const result = parser.parse(text);
         expect(result).toEqual({
-            ticker: 'OJAS',
-            name: 'Ojas Narang'
+            ok: true,
+            command: { ticker: 'OJAS', name: 'Ojas Narang' }
         });
     });
 
     it('should fail if bot mention is missing', () => {
-        const text = 'deploy\nticker: TEST\nname: Test Token';
-        expect(parser.parse(text)).toBeNull();
+        expectError('deploy\nticker: TEST\nname: Test Token', 'NOT_A_COMMAND');
+    });
+
+    it('should not take a mention of a longer handle for the bot', () => {
+        expectError('@MyBotFan deploy\nticker: ABC\nname: Abc', 'NOT_A_COMMAND');
+        expectError('@MyBot_2 deploy $ABC Abc', 'NOT_A_COMMAND');
     });
 
     it('should fail if deploy keyword is missing', () => {
-        const text = '@MyBot hello\nticker: TEST\nname: Test Token';
-        expect(parser.parse(text)).toBeNull();
+        expectError('@MyBot hello\nticker: TEST\nname: Test Token', 'NOT_A_COMMAND');
+    });
+
+    it('should not treat chatter about deploying as a command', () => {
+        expectError('@MyBot how do I deploy a token?', 'NOT_A_COMMAND');
     });
 
     it('should fail if ticker is missing', () => {
-        const text = '@MyBot deploy\nname: Test Token';
-        expect(parser.parse(text)).toBeNull();
+        expectError('@MyBot deploy\nname: Test Token', 'MISSING_TICKER', 'ticker');
     });
 
     it('should fail if name is missing', () => {
-        const text = '@MyBot deploy\nticker: TEST';
-        expect(parser.parse(text)).toBeNull();
+        expectError('@MyBot deploy\nticker: TEST', 'MISSING_NAME', 'name');
+        expectError('@MyBot deploy PEPE', 'MISSING_NAME', 'name');
     });
 
     it('should fail if ticker has invalid characters', () => {
-        const text = '@MyBot deploy\nticker: TE$T\nname: Test Token';
-        expect(parser.parse(text)).toBeNull();
+        expectError('@MyBot deploy\nticker: TE$T\nname: Test Token', 'INVALID_TICKER_CHARS', 'ticker');
+    });
+
+    it('should fail if ticker is too long', () => {
+        expectError('@MyBot deploy WAYTOOLONGTICKER Some Token', 'TICKER_TOO_LONG', 'ticker');
+    });
+
+    it('should report invalid name characters with the offending value', () => {
+        const result = parser.parse('@MyBot deploy\nticker: PEPE\nname: Pepe 🐸 Coin');
+        expect(result).toEqual({
+            ok: false,
+            error: { code: 'INVALID_NAME_CHARS', field: 'name', value: 'Pepe 🐸 Coin' }
+        });
+    });
+
+    it('should parse an optional fee recipient override', () => {
+        const text = '@MyBot deploy\nticker: TEST\nname: Test Token\nfee: @Alice_1';
+        expect(parser.parse(text)).toEqual({
+            ok: true,
+            command: { ticker: 'TEST', name: 'Test Token', feeRecipientHandle: 'Alice_1' }
+        });
+    });
+
+    it('should accept `for:` on the simple format without it leaking into the name', () => {
+        const text = '@MyBot deploy PEPE Pepe Coin for: @alice';
+        expect(parser.parse(text)).toEqual({
+            ok: true,
+            command: { ticker: 'PEPE', name: 'Pepe Coin', feeRecipientHandle: 'alice' }
+        });
+    });
+
+    it('should reject the bot as fee recipient', () => {
+        expectError('@MyBot deploy\nticker: TEST\nname: Test Token\nfee: @mybot', 'FEE_RECIPIENT_IS_BOT', 'fee');
+    });
+
+    it('should reject an invalid fee recipient handle', () => {
+        expectError('@MyBot deploy\nticker: TEST\nname: Test Token\nfee: @this_handle_is_too_long', 'INVALID_FEE_RECIPIENT', 'fee');
+    });
+
+    it('should explain how to fix a malformed command', () => {
+        const result = parser.parse('@MyBot deploy WAYTOOLONGTICKER Some Token');
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(parser.hint(result.error)).toBe('Ticker "WAYTOOLONGTICKER" is 16 characters; the limit is 10.');
+        }
+    });
+
+    it('should parse full metadata in the structured format', () => {
+        const text = [
+            '@MyBot deploy',
+            'ticker: PEPE',
+            'name: Pepe Coin',
+            'desc: The frog: reborn',
+            'image: https://cdn.example.com/pepe.png',
+            'twitter: @pepecoin',
+            'telegram: https://t.me/pepecoin',
+            'website: https://pepe.example.com/',
+        ].join('\n');
+        expect(parser.parse(text)).toEqual({
+            ok: true,
+            command: {
+                ticker: 'PEPE',
+                name: 'Pepe Coin',
+                description: 'The frog: reborn',
+                image: 'https://cdn.example.com/pepe.png',
+                twitter: 'https://x.com/pepecoin',
+                telegram: 'https://t.me/pepecoin',
+                website: 'https://pepe.example.com/',
+            }
+        });
+    });
+
+    it('should keep keys inside a description or quotes as part of the value', () => {
+        expect(parser.parse('@MyBot deploy PEPE Pepe\ndesc: best coin for: everyone, fee: none\nfee: @alice')).toEqual({
+            ok: true,
+            command: { ticker: 'PEPE', name: 'Pepe', description: 'best coin for: everyone, fee: none', feeRecipientHandle: 'alice' }
+        });
+        // The quoted name is kept whole (and refused for its colon) rather than read as `for: all"`
+        expectError('@MyBot launch $FROG "Frog for: all"', 'INVALID_NAME_CHARS', 'name');
+    });
+
+    it('should accept metadata keys after the short form', () => {
+        const result = parser.parse('@MyBot deploy PEPE Pepe Coin image: https://cdn.example.com/p.png fee: @alice');
+        expect(result).toEqual({
+            ok: true,
+            command: { ticker: 'PEPE', name: 'Pepe Coin', image: 'https://cdn.example.com/p.png', feeRecipientHandle: 'alice' }
+        });
+    });
+
+    it('should validate URLs per field', () => {
+        expectError('@MyBot deploy PEPE Pepe\nimage: ftp://cdn.example.com/p.png', 'INVALID_URL', 'image');
+        expectError('@MyBot deploy PEPE Pepe\nwebsite: pepe dot com', 'INVALID_URL', 'website');
+        expectError('@MyBot deploy PEPE Pepe\ntwitter: https://evil.example.com/pepe', 'INVALID_URL', 'twitter');
+        expectError('@MyBot deploy PEPE Pepe\ntelegram: https://x.com/pepe', 'INVALID_URL', 'telegram');
+    });
+
+    it('should reject overlong descriptions', () => {
+        expectError(`@MyBot deploy PEPE Pepe\ndesc: ${'a'.repeat(501)}`, 'DESCRIPTION_TOO_LONG', 'description');
+    });
+
+    it('should parse DM deploys with the same grammar', () => {
+        const text = 'deploy\nname: Pepe Coin\nsymbol: pepe\ndesc: frogs\nimage: https://cdn.example.com/pepe.png';
+        expect(parser.parseDirectMessage(text)).toEqual({
+            ok: true,
+            command: { ticker: 'PEPE', name: 'Pepe Coin', description: 'frogs', image: 'https://cdn.example.com/pepe.png' }
+        });
+        expect(parser.parseDirectMessage('deploy PEPE Pepe Coin')).toEqual({
+            ok: true,
+            command: { ticker: 'PEPE', name: 'Pepe Coin' }
+        });
+        expect(parser.parseDirectMessage('hello')).toEqual({ ok: false, error: { code: 'NOT_A_COMMAND' } });
+    });
+
+    describe('real-world phrasings', () => {
+        const accepted: [string, { ticker: string; name: string }][] = [
+            ['@MyBot deploy $PEPE Pepe Coin', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot launch $PEPE', { ticker: 'PEPE', name: 'PEPE' }],
+            ['@MyBot create $pepe Pepe Coin', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@mybot Deploy $PEPE "Pepe Coin"', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot deploy PEPE \u201CPepe Coin\u201D', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot launch "Pepe Coin" $PEPE', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot launch Pepe Coin $PEPE', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot launch $PEPE called Pepe Coin', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot launch $PEPE, named Pepe Coin', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot please deploy $PEPE Pepe Coin', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot, launch a new token $PEPE', { ticker: 'PEPE', name: 'PEPE' }],
+            ['@MyBot create a memecoin $FROG Frog Town', { ticker: 'FROG', name: 'Frog Town' }],
+            ['@MyBot deploy $PEPE Pepe Coin #memecoin #bsc', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot deploy $PEPE Pepe Coin https://t.co/abc123', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot deploy $PEPE Pepe Coin!! \u{1F680}\u{1F438}', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot deploy PEPE Pepe Coin #frogs https://t.co/abc123', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['gm @alice look \n@MyBot launch $WAGMI We All Gonna Make It', { ticker: 'WAGMI', name: 'We All Gonna Make It' }],
+            ['@alice @MyBot deploy $PEPE Pepe Coin', { ticker: 'PEPE', name: 'Pepe Coin' }],
+            ['@MyBot launch\nticker: $PEPE\nname: Pepe Coin', { ticker: 'PEPE', name: 'Pepe Coin' }],
+        ];
+
+        it.each(accepted)('should accept %j', (text, expected) => {
+            expect(parser.parse(text)).toEqual({ ok: true, command: expected });
+        });
+
+        const ignored = [
+            '@MyBot create a wallet for me',
+            '@MyBot launch when?',
+            '@MyBot when will you launch $PEPE?',
+            '@MyBot I want to deploy $PEPE',
+            '$PEPE to the moon @MyBot',
+        ];
+
+        it.each(ignored)('should ignore %j', (text) => {
+            expectError(text, 'NOT_A_COMMAND');
+        });
+
+        it('should still report problems with cashtag tickers', () => {
+            expectError('@MyBot deploy $OJAS_COIN Ojas', 'INVALID_TICKER_CHARS', 'ticker');
+            expectError('@MyBot launch $WAYTOOLONGTICKER', 'TICKER_TOO_LONG', 'ticker');
+        });
+
+        it('should accept the same phrasings by DM', () => {
+            expect(parser.parseDirectMessage('launch $PEPE "Pepe Coin" #bsc')).toEqual({
+                ok: true,
+                command: { ticker: 'PEPE', name: 'Pepe Coin' }
+            });
+            expect(parser.isDirectMessageCommand('create $PEPE')).toBe(true);
+            expect(parser.isDirectMessageCommand('create a wallet')).toBe(false);
+        });
+    });
+
+    describe('unicode names', () => {
+        it('should accept CJK names', () => {
+            expect(parser.parse('@MyBot deploy $PEPE 佩佩币')).toEqual({ ok: true, command: { ticker: 'PEPE', name: '佩佩币' } });
+            expect(parser.parse('@MyBot deploy\nticker: DOGE2\nname: 도지 コイン')).toEqual({ ok: true, command: { ticker: 'DOGE2', name: '도지 コイン' } });
+        });
+
+        it('should normalize fullwidth tickers', () => {
+            expect(parser.parse('@MyBot deploy \uFF30\uFF25\uFF30\uFF25 Pepe')).toEqual({ ok: true, command: { ticker: 'PEPE', name: 'Pepe' } });
+        });
+
+        it('should keep tickers to the allowed scripts', () => {
+            expectError('@MyBot deploy 佩佩 Pepe', 'INVALID_TICKER_CHARS', 'ticker');
+            expectError('@MyBot deploy \u0412N\u0412 Fake', 'INVALID_TICKER_CHARS', 'ticker');
+        });
+
+        it('should reject protected tickers and their look-alikes', () => {
+            const result = parser.parse('@MyBot deploy U5DT Tether');
+            expect(result).toEqual({ ok: false, error: { code: 'PROTECTED_TICKER', field: 'ticker', value: 'U5DT', similarTo: 'USDT' } });
+            if (!result.ok) {
+                expect(parser.hint(result.error)).toBe(`"U5DT" looks like USDT, which can't be imitated. Pick another ticker.`);
+            }
+            expectError('@MyBot deploy BNB Binance Coin', 'PROTECTED_TICKER', 'ticker');
+            expectError('@MyBot deploy PEPE C\u00C1KE', 'PROTECTED_TICKER', 'name');
+        });
+
+        it('should follow a custom script policy', () => {
+            const cyrillic = new CommandParser('MyBot', { nameScripts: ['Latin', 'Cyrillic'], tickerScripts: ['Latin', 'Han'], protectedTickers: ['BNB'] });
+            expect(cyrillic.parse('@MyBot deploy 佩佩 Пепе')).toEqual({ ok: true, command: { ticker: '佩佩', name: 'Пепе' } });
+            const mixed = cyrillic.parse('@MyBot deploy PEPE P\u0435pe');
+            expect(mixed.ok).toBe(false);
+            if (!mixed.ok) expect(mixed.error.code).toBe('MIXED_SCRIPTS');
+            expect(parser.parse('@MyBot deploy PEPE Пепе')).toMatchObject({ ok: false, error: { code: 'INVALID_NAME_CHARS' } });
+        });
+    });
+
+    describe('localized keywords', () => {
+        it('should accept Chinese verbs and politeness', () => {
+            expect(parser.parse('@MyBot 部署 $FROG 青蛙币')).toEqual({ ok: true, command: { ticker: 'FROG', name: '青蛙币' } });
+            expect(parser.parse('@MyBot 请发币 FROG 青蛙币')).toEqual({ ok: true, command: { ticker: 'FROG', name: '青蛙币' } });
+            expect(parser.parse('@MyBot 创建 青蛙币').ok).toBe(false);
+        });
+
+        it('should accept Chinese field names and full-width colons', () => {
+            expect(parser.parse('@MyBot 部署\n代码：FROG\n名称：青蛙币\n官网：https://frog.io')).toEqual({
+                ok: true,
+                command: { ticker: 'FROG', name: '青蛙币', website: 'https://frog.io/' },
+            });
+            expect(parser.parseDirectMessage('发射 代码：FROG，名称：青蛙币')).toEqual({ ok: true, command: { ticker: 'FROG', name: '青蛙币' } });
+        });
+
+        it('should explain mistakes in the requested language', () => {
+            const result = parser.parse('@MyBot 部署 ABCDEFGHIJK 青蛙币');
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(parser.hint(result.error, 'tweet', 'zh')).toBe('代码“ABCDEFGHIJK”有 11 个字符，上限是 10。');
+                expect(parser.hint({ code: 'NOT_A_COMMAND' }, 'dm', 'zh')).toBe('发币请发送：部署 $代码 代币名称');
+            }
+        });
     });
 });
@@ -0,0 +1,74 @@
+import { CommandRouter, type CommandDefinition } from '../CommandRouter.js';
+
+describe('CommandRouter', () => {
+    let router: CommandRouter;
+
+    const command = (verb: string, overrides: Partial<CommandDefinition> = {}): CommandDefinition => ({
+        verb,
+        usage: verb,
+        description: `Does ${verb}`,
+        channels: ['dm', 'mention'],
+        handler: async () => { },
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        router = new CommandRouter('MyBot')
+            .register(command('start', { channels: ['dm'] }))
+            .register(command('deploy', { aliases: ['launch', 'create'], usage: 'deploy $TICKER Token Name' }))
+            .register(command('status', { usage: 'status <tweet or token>' }))
+            .register(command('help'));
+    });
+
+    it('should match the leading verb of a DM', () => {
+        const routed = router.match('  Status https://x.com/a/status/123 ', 'dm');
+        expect(routed?.command.verb).toBe('status');
+        expect(routed?.args).toBe('https://x.com/a/status/123');
+    });
+
+    it('should match the verb right after the bot handle in a mention', () => {
+        expect(router.match('gm @alice @mybot please status $PEPE', 'mention')).toMatchObject({
+            command: { verb: 'status' },
+            args: '$PEPE',
+        });
+        expect(router.match('@MyBot launch $PEPE', 'mention')?.command.verb).toBe('deploy');
+    });
+
+    it('should not match unknown verbs, other handles or other channels', () => {
+        expect(router.match('hello there', 'dm')).toBeNull();
+        expect(router.match('@MyBot what is this', 'mention')).toBeNull();
+        expect(router.match('@otherbot status 123', 'mention')).toBeNull();
+        expect(router.match('@mybotfan status 123', 'mention')).toBeNull();
+        expect(router.match('@MyBot start', 'mention')).toBeNull();
+        expect(router.match('statuses', 'dm')).toBeNull();
+    });
+
+    it('should reject duplicate verbs and aliases', () => {
+        expect(() => router.register(command('launch'))).toThrow('Command verb "launch" is already registered');
+    });
+
+    it('should generate help from the registry', () => {
+        expect(router.help('dm')).toBe([
+            'Commands:',
+            '• start - Does start',
+            '• deploy $TICKER Token Name (or launch, create) - Does deploy',
+            '• status <tweet or token> - Does status',
+            '• help - Does help',
+        ].join('\n'));
+        expect(router.help('mention')).toBe('Mention me with: deploy $TICKER Token Name · status <tweet or token> · help');
+    });
+
+    it('should route keywords from every locale pack', () => {
+        expect(router.match('状态 $FROG', 'dm')).toMatchObject({ command: { verb: 'status' }, args: '$FROG' });
+        expect(router.match('@MyBot 请部署 $FROG 青蛙币', 'mention')).toMatchObject({ command: { verb: 'deploy' }, args: '$FROG 青蛙币' });
+        expect(router.match('余额', 'dm')).toBeNull(); // No balance command registered
+    });
+
+    it('should generate help in the requested language', () => {
+        expect(router.help('dm', 'zh').split('\n').slice(0, 3)).toEqual([
+            '指令：',
+            '• 开始 - 创建你的充值钱包',
+            '• 部署 $代码 代币名称（或 发币, 发行） - 发行代币（可另起一行加 简介：、图片：、网站：、推特：、电报：）',
+        ]);
+    });
+});
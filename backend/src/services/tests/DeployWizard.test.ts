@@ -0,0 +1,77 @@
+import { CommandParser } from '../CommandParser.js';
+import { MemoryConversationStore } from '../ConversationStore.js';
+import { DeployWizard, type WizardState } from '../DeployWizard.js';
+
+describe('DeployWizard', () => {
+    const TTL_SECONDS = 60;
+    let now: number;
+    let store: MemoryConversationStore<WizardState>;
+    let wizard: DeployWizard;
+
+    beforeEach(() => {
+        now = 0;
+        store = new MemoryConversationStore<WizardState>(() => now);
+        wizard = new DeployWizard(new CommandParser('MyBot'), store, TTL_SECONDS);
+    });
+
+    it('should ask for each field in turn and return the command on confirm', async () => {
+        expect(await wizard.start('u1', 'en')).toContain('What should the token be called?');
+
+        expect((await wizard.answer('u1', 'Pepe Coin', 'en'))?.text).toContain('ticker');
+        expect((await wizard.answer('u1', '$pepe', 'en'))?.text).toContain('image');
+        await wizard.answer('u1', 'https://example.com/pepe.png', 'en');
+        await wizard.answer('u1', 'skip', 'en');
+        await wizard.answer('u1', '@pepecoin', 'en');
+        const summary = await wizard.answer('u1', 'SKIP', 'en');
+        expect(summary?.text).toContain('Name: Pepe Coin\nTicker: $PEPE\nImage: https://example.com/pepe.png\nTwitter: https://x.com/pepecoin');
+
+        const confirmed = await wizard.answer('u1', 'confirm', 'en');
+        expect(confirmed?.command).toEqual({
+            name: 'Pepe Coin',
+            ticker: 'PEPE',
+            image: 'https://example.com/pepe.png',
+            twitter: 'https://x.com/pepecoin',
+        });
+        expect(await wizard.answer('u1', 'hello', 'en')).toBeNull();
+    });
+
+    it('should repeat the question after an invalid answer', async () => {
+        await wizard.start('u1', 'en');
+        await wizard.answer('u1', 'Pepe Coin', 'en');
+
+        const reply = await wizard.answer('u1', 'WAYTOOLONGTICKER', 'en');
+        expect(reply?.text).toContain('the limit is 10');
+        expect(reply?.text).toContain('What ticker');
+        expect((await store.get('u1'))?.step).toBe('ticker');
+    });
+
+    it('should take skip literally for required questions', async () => {
+        await wizard.start('u1', 'en');
+        await wizard.answer('u1', 'Pepe', 'en');
+        expect((await wizard.answer('u1', 'skip', 'en'))?.text).toContain('image');
+        expect((await store.get('u1'))?.answers.ticker).toBe('SKIP');
+    });
+
+    it('should cancel in any language', async () => {
+        await wizard.start('u1', 'zh');
+        expect((await wizard.answer('u1', '取消', 'zh'))?.text).toBe('已取消，没有部署任何代币。');
+        expect(await store.get('u1')).toBeNull();
+    });
+
+    it('should re-send the summary until the user confirms or cancels', async () => {
+        await store.set('u1', { step: 'confirm', answers: { name: 'Pepe', ticker: 'PEPE' } }, TTL_SECONDS);
+        const reply = await wizard.answer('u1', 'wait what', 'en');
+        expect(reply?.command).toBeUndefined();
+        expect(reply?.text).toContain(`Send 'confirm' to deploy`);
+    });
+
+    it('should forget a conversation once its TTL passes without an answer', async () => {
+        await wizard.start('u1', 'en');
+        now = 59_000;
+        await wizard.answer('u1', 'Pepe', 'en'); // Restarts the TTL
+        now = 118_000;
+        expect(await wizard.answer('u1', 'PEPE', 'en')).not.toBeNull();
+        now = 178_000;
+        expect(await wizard.answer('u1', 'https://example.com/a.png', 'en')).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+import { FeeRecipientPolicy, type TweetAuthorLookup } from '../FeeRecipientPolicy.js';
+import type { ParentTweetInfo, TweetMention } from '../../types/index.js';
+
+describe('FeeRecipientPolicy', () => {
+    const authors: Record<string, ParentTweetInfo> = {
+        '100': { tweet_id: '100', author_id: 'p1', author_username: 'parent' },
+        '50': { tweet_id: '50', author_id: 'r1', author_username: 'root' },
+        '70': { tweet_id: '70', author_id: 'q1', author_username: 'quoted' },
+    };
+    const lookup: TweetAuthorLookup = {
+        resolve: async (tweetId) => authors[tweetId] || null,
+        resolveThreadRoot: async (m) => (m.conversation_id && authors[m.conversation_id]) || null,
+        resolveQuoted: async (m) => (m.quoted_tweet_id && authors[m.quoted_tweet_id]) || null,
+    };
+
+    const mention = (overrides: Partial<TweetMention> = {}): TweetMention => ({
+        tweet_id: '200',
+        author_id: 'd1',
+        author_username: 'deployer',
+        text: '@bot deploy',
+        in_reply_to_tweet_id: null,
+        created_at: new Date().toISOString(),
+        ...overrides,
+    });
+
+    it('should pick the parent author for replies', async () => {
+        const policy = new FeeRecipientPolicy(['parent', 'self'], lookup);
+        const decision = await policy.decide(mention({ in_reply_to_tweet_id: '100' }));
+        expect(decision?.recipient).toEqual(authors['100']);
+        expect(decision?.reason).toBe('parent');
+    });
+
+    it('should fall back to self when the parent cannot be resolved', async () => {
+        const policy = new FeeRecipientPolicy(['parent', 'self'], lookup);
+        const decision = await policy.decide(mention({ in_reply_to_tweet_id: '999' }));
+        expect(decision?.reason).toBe('self');
+        expect(decision?.recipient.author_id).toBe('d1');
+    });
+
+    it('should drop mentions when no rule applies', async () => {
+        const policy = new FeeRecipientPolicy(['parent'], lookup);
+        expect(await policy.decide(mention())).toBeNull();
+    });
+
+    it('should prefer an explicit override', async () => {
+        const policy = new FeeRecipientPolicy(['override', 'parent', 'self'], lookup);
+        const override = { tweet_id: '200', author_id: 'o1', author_username: 'someone' };
+        const decision = await policy.decide(mention({ in_reply_to_tweet_id: '100' }), override);
+        expect(decision?.recipient).toEqual(override);
+        expect(decision?.reason).toBe('override');
+    });
+
+    it('should report the tweets a mention builds on even when an override picks the recipient', async () => {
+        const policy = new FeeRecipientPolicy(['override', 'parent', 'self'], lookup);
+        const self = { tweet_id: '200', author_id: 'd1', author_username: 'deployer' };
+        const decision = await policy.decide(mention({ in_reply_to_tweet_id: '100', quoted_tweet_id: '70' }), self);
+        expect(decision?.reason).toBe('override');
+        expect(decision?.chain).toHaveLength(1);
+        // Checked against opt-outs, so `fee: @self` can't launch from an opted-out parent
+        expect(decision?.sources).toEqual([authors['100'], authors['70']]);
+    });
+
+    it('should reuse rules already tried when reporting sources', async () => {
+        const resolve = jest.fn(lookup.resolve);
+        const policy = new FeeRecipientPolicy(['parent', 'self'], { ...lookup, resolve });
+        const decision = await policy.decide(mention({ in_reply_to_tweet_id: '100' }));
+        expect(decision?.sources).toEqual([authors['100']]);
+        expect(resolve).toHaveBeenCalledTimes(1);
+    });
+
+    it('should attribute quote tweets to the quoted author', async () => {
+        const policy = new FeeRecipientPolicy(['quoted', 'parent', 'self'], lookup);
+        const decision = await policy.decide(mention({ quoted_tweet_id: '70', in_reply_to_tweet_id: '100' }));
+        expect(decision?.reason).toBe('quoted');
+        expect(decision?.recipient.author_username).toBe('quoted');
+    });
+
+    it('should attribute to the thread root', async () => {
+        const policy = new FeeRecipientPolicy(['thread_root', 'parent'], lookup);
+        const decision = await policy.decide(mention({ conversation_id: '50', in_reply_to_tweet_id: '100' }));
+        expect(decision?.reason).toBe('thread_root');
+    });
+
+    it('should skip thread_root when the mention starts the conversation', async () => {
+        const policy = new FeeRecipientPolicy(['thread_root', 'self'], lookup);
+        const decision = await policy.decide(mention({ conversation_id: '200' }));
+        expect(decision?.reason).toBe('self');
+    });
+
+    it('should record every rule tried in the attribution chain', async () => {
+        const policy = new FeeRecipientPolicy(['override', 'quoted', 'parent', 'self'], lookup);
+        const decision = await policy.decide(mention({ in_reply_to_tweet_id: '999', quoted_tweet_id: '70' }));
+        expect(decision?.chain).toEqual([
+            { rule: 'override', outcome: 'not_applicable' },
+            { rule: 'quoted', outcome: 'matched', tweet_id: '70', author_id: 'q1', author_username: 'quoted' },
+        ]);
+
+        const fallback = await new FeeRecipientPolicy(['parent', 'self'], lookup)
+            .decide(mention({ in_reply_to_tweet_id: '999' }));
+        expect(fallback?.chain.map(step => step.outcome)).toEqual(['unresolved', 'matched']);
+    });
+});
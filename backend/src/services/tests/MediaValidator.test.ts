@@ -0,0 +1,87 @@
+import axios from 'axios';
+import { MediaValidator } from '../MediaValidator.js';
+import { config } from '../../config/index.js';
+
+function png(width: number, height: number, length = 33): Uint8Array {
+    const bytes = new Uint8Array(length);
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    bytes.set([0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52], 8); // IHDR
+    const view = new DataView(bytes.buffer);
+    view.setUint32(16, width);
+    view.setUint32(20, height);
+    return bytes;
+}
+
+describe('MediaValidator', () => {
+    let validator: MediaValidator;
+    let get: jest.SpyInstance;
+    const hosted = new Map<string, { contentType: string; bytes: Uint8Array }>();
+
+    // Serve `bytes` from `url` as the given content type
+    const host = (url: string, contentType: string, bytes: Uint8Array): { url: string } => {
+        hosted.set(url, { contentType, bytes });
+        return { url };
+    };
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        // Real downloads, against a small size limit so oversized files stay small
+        jest.replaceProperty(config, 'MOCK_X_API', false);
+        jest.replaceProperty(config, 'TOKEN_IMAGE_MAX_BYTES', 1000);
+        get = jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+            const file = hosted.get(url);
+            if (!file) throw new Error('Request failed with status code 404');
+            return { data: file.bytes.buffer, headers: { 'content-type': file.contentType } };
+        });
+        validator = new MediaValidator();
+    });
+
+    afterEach(() => {
+        hosted.clear();
+        jest.restoreAllMocks();
+    });
+
+    it('should accept an image whose header bytes match its content type', async () => {
+        const media = host('https://pbs.twimg.com/media/ok.png', 'image/png; charset=binary', png(400, 300));
+        await expect(validator.validate(media)).resolves.toBeNull();
+        expect(get).toHaveBeenCalledWith(media.url, expect.objectContaining({ maxContentLength: 1000 }));
+    });
+
+    it('should reject an image served as a different type than its bytes', async () => {
+        const media = host('https://pbs.twimg.com/media/fake.jpg', 'image/jpeg', png(400, 300));
+        await expect(validator.validate(media)).resolves.toBe('is image/png but was served as "image/jpeg"');
+    });
+
+    it('should reject content types that are not images', async () => {
+        const media = host('https://example.com/page', 'text/html', png(400, 300));
+        await expect(validator.validate(media)).resolves.toBe('has content type "text/html"');
+    });
+
+    it('should reject files over the size limit', async () => {
+        const media = host('https://pbs.twimg.com/media/big.png', 'image/png', png(400, 300, 1001));
+        await expect(validator.validate(media)).resolves.toBe('is 1001 bytes, over the 1000 byte limit');
+    });
+
+    it('should reject images outside the pixel limits', async () => {
+        const small = host('https://pbs.twimg.com/media/small.png', 'image/png', png(99, 400));
+        const large = host('https://pbs.twimg.com/media/large.png', 'image/png', png(4097, 400));
+        await expect(validator.validate(small)).resolves.toBe('is 99x400, smaller than 100px');
+        await expect(validator.validate(large)).resolves.toBe('is 4097x400, larger than 4096px');
+    });
+
+    it('should report a failed download', async () => {
+        await expect(validator.validate({ url: 'https://pbs.twimg.com/media/gone.png' }))
+            .resolves.toBe('could not be downloaded (Request failed with status code 404)');
+    });
+
+    it('should pick the first candidate that passes', async () => {
+        const candidates = [
+            host('https://pbs.twimg.com/media/small.png', 'image/png', png(50, 50)),
+            host('https://pbs.twimg.com/media/fake.jpg', 'image/jpeg', png(400, 300)),
+            host('https://pbs.twimg.com/media/ok.png', 'image/png', png(400, 300)),
+            host('https://pbs.twimg.com/media/also-ok.png', 'image/png', png(400, 300)),
+        ];
+        await expect(validator.pickTokenImage(candidates)).resolves.toBe('https://pbs.twimg.com/media/ok.png');
+        expect(get).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,60 @@
+import { RateGovernor } from '../RateGovernor.js';
+
+describe('RateGovernor', () => {
+    let now: number;
+    let governor: RateGovernor;
+
+    beforeEach(() => {
+        now = 1_000_000;
+        governor = new RateGovernor({
+            minIntervalMs: 0,
+            windowMs: 60_000,
+            budgets: { mentions: 10, dms: 4 },
+            lowWatermark: 0.5,
+            now: () => now,
+        });
+    });
+
+    it('should consume budget per channel', async () => {
+        expect(await governor.acquire('dms')).toBe(true);
+        expect(governor.remaining('dms')).toBe(3);
+        expect(governor.remaining('mentions')).toBe(10);
+    });
+
+    it('should refuse requests once a channel is exhausted', async () => {
+        for (let i = 0; i < 4; i++) {
+            expect(await governor.acquire('dms')).toBe(true);
+        }
+        expect(await governor.acquire('dms')).toBe(false);
+        expect(await governor.acquire('mentions')).toBe(true);
+    });
+
+    it('should keep the base interval while quota is healthy', async () => {
+        await governor.acquire('mentions');
+        expect(governor.nextDelay('mentions', 12_000)).toBe(12_000);
+    });
+
+    it('should back off as the budget drains', async () => {
+        for (let i = 0; i < 8; i++) {
+            await governor.acquire('mentions');
+        }
+        // 2 of 10 left: 0.5 / 0.2 = 2.5x
+        expect(governor.nextDelay('mentions', 12_000)).toBe(30_000);
+    });
+
+    it('should wait for the window to reset when exhausted', async () => {
+        for (let i = 0; i < 4; i++) {
+            await governor.acquire('dms');
+        }
+        now += 20_000;
+        expect(governor.nextDelay('dms', 5_000)).toBe(40_000);
+    });
+
+    it('should restore budgets after the window rolls over', async () => {
+        for (let i = 0; i < 4; i++) {
+            await governor.acquire('dms');
+        }
+        now += 60_000;
+        expect(governor.remaining('dms')).toBe(4);
+    });
+});
@@ -0,0 +1,78 @@
+import { TwitterApiIoClient } from '../TwitterApiIoClient.js';
+
+/**
+ * Search results for tweets 101-110, newest first, two to a page, ending at the checkpoint (100)
+ */
+function mentionPages() {
+    const tweet = (id: number) => ({
+        id: String(id),
+        text: `@mybot deploy $T${id}`,
+        author: { id: '42', userName: 'alice', name: 'Alice' },
+        createdAt: new Date().toISOString(),
+    });
+    const ids = [110, 109, 108, 107, 106, 105, 104, 103, 102, 101, 100];
+    return Array.from({ length: Math.ceil(ids.length / 2) }, (_, page) => ({
+        tweets: ids.slice(page * 2, page * 2 + 2).map(tweet),
+        hasNextPage: page * 2 + 2 < ids.length,
+        nextCursor: page * 2 + 2 < ids.length ? `page-${page + 1}` : undefined,
+    }));
+}
+
+describe('TwitterApiIoClient', () => {
+    let client: TwitterApiIoClient;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        client = new TwitterApiIoClient({ apiKey: 'test' });
+        const pages = mentionPages();
+        jest.spyOn(client, 'searchMentions').mockImplementation(async (_username, cursor) =>
+            pages[cursor ? Number(cursor.split('-')[1]) : 0]);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    // Page delays run on fake timers
+    const catchUp = async (maxPages: number, cursor?: string) => {
+        const pending = client.getMentionsSince('mybot', '100', maxPages, undefined, cursor);
+        await jest.runAllTimersAsync();
+        return pending;
+    };
+
+    it('should stop at the checkpoint', async () => {
+        const { tweets, resumeCursor } = await catchUp(10);
+        expect(tweets.map((t) => t.id)).toEqual(['101', '102', '103', '104', '105', '106', '107', '108', '109', '110']);
+        expect(resumeCursor).toBeUndefined();
+    });
+
+    it('should hand back a cursor when the backfill spans more than the page budget', async () => {
+        const first = await catchUp(2);
+        expect(first.tweets.map((t) => t.id)).toEqual(['107', '108', '109', '110']);
+        expect(first.resumeCursor).toBe('page-2');
+
+        const second = await catchUp(2, first.resumeCursor);
+        expect(second.tweets.map((t) => t.id)).toEqual(['103', '104', '105', '106']);
+        expect(second.resumeCursor).toBe('page-4');
+
+        const third = await catchUp(2, second.resumeCursor);
+        expect(third.tweets.map((t) => t.id)).toEqual(['101', '102']);
+        expect(third.resumeCursor).toBeUndefined();
+    });
+
+    it('should search for every mention of the handle and leave verbs to the router', async () => {
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(JSON.stringify({ tweets: [], has_next_page: false })));
+        (client.searchMentions as jest.Mock).mockRestore();
+
+        await client.searchMentions('mybot', 'page-1');
+
+        const url = new URL(String(fetchMock.mock.calls[0][0]));
+        expect(url.pathname).toBe('/twitter/tweet/advanced_search');
+        expect(url.searchParams.get('query')).toBe('@mybot');
+        expect(url.searchParams.get('cursor')).toBe('page-1');
+    });
+});
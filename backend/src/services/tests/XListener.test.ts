@@ -0,0 +1,204 @@
+import { XListener } from '../XListener.js';
+import { botRegistry } from '../BotRegistry.js';
+import type { IngestionSource } from '../../ingestion/IngestionSource.js';
+import { config } from '../../config/index.js';
+import { localePack } from '../../i18n/index.js';
+import { db } from '../../db/client.js';
+import { walletService } from '../WalletService.js';
+import { simulatedX } from '../../simulator/SimulatedX.js';
+import type { TweetMedia } from '../../types/index.js';
+
+const USER_ID = '555000333';
+const DESTINATION = '0x' + '56'.repeat(20);
+
+describe('XListener', () => {
+    const bot = botRegistry.primary();
+    const source: IngestionSource = { name: 'test', start: async () => { }, stop: async () => { } };
+    let listener: XListener;
+    let dms: string[];
+    let nextDmId = 1;
+
+    // DM the bot and collect what it answers
+    const send = async (text: string): Promise<string[]> => {
+        const before = dms.length;
+        await listener.onDirectMessage({ id: String(nextDmId++), sender_id: USER_ID, text, created_at: new Date().toISOString() }, source);
+        return dms.slice(before);
+    };
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(bot.replyPublisher, 'sendDirectMessage').mockImplementation(async (_to, text) => { dms.push(text); });
+        listener = new XListener(bot, [source]);
+        await listener.start();
+        dms = [];
+        await send('start');
+    });
+
+    afterAll(async () => {
+        await listener.stop();
+        jest.restoreAllMocks();
+    });
+
+    describe('withdraw', () => {
+        let transfer: jest.SpyInstance;
+
+        // Ask for a withdrawal and read the code out of the confirmation prompt
+        const requestWithdrawal = async (): Promise<string> => {
+            const [prompt] = await send(`withdraw 0.01 ${DESTINATION}`);
+            const code = prompt.match(/\n(\d{6})\n/)?.[1];
+            expect(code).toBeDefined();
+            return code!;
+        };
+
+        beforeEach(() => {
+            transfer = jest.spyOn(bot.deployer, 'transfer');
+        });
+
+        afterEach(() => {
+            transfer.mockRestore();
+        });
+
+        it('should send once the code comes back, and not again for the same code', async () => {
+            const code = await requestWithdrawal();
+
+            const replies = await send(code);
+            expect(replies[0]).toContain(`Sending 0.01 ${bot.deployer.chain.nativeSymbol} to ${DESTINATION}`);
+            expect(replies[1]).toContain('✅ Withdrawal sent!');
+            expect(transfer).toHaveBeenCalledTimes(1);
+
+            expect(await send(`withdraw ${code}`)).toEqual([expect.stringContaining('No withdrawal is waiting for a code')]);
+            expect(transfer).toHaveBeenCalledTimes(1);
+        });
+
+        it('should drop the request after too many wrong codes', async () => {
+            const code = await requestWithdrawal();
+            const wrong = code === '000000' ? '111111' : '000000';
+
+            expect(await send(wrong)).toEqual(['❌ Wrong code. 2 attempt(s) left.']);
+            expect(await send(wrong)).toEqual(['❌ Wrong code. 1 attempt(s) left.']);
+            expect(await send(wrong)).toEqual([expect.stringContaining('Too many wrong codes')]);
+
+            // The right code no longer works either
+            expect(await send(`withdraw ${code}`)).toEqual([expect.stringContaining('No withdrawal is waiting for a code')]);
+            expect(transfer).not.toHaveBeenCalled();
+        });
+
+        it('should forget the request when cancelled', async () => {
+            const code = await requestWithdrawal();
+
+            expect(await send('withdraw cancel')).toEqual(['Withdrawal cancelled.']);
+            expect(await send(`withdraw ${code}`)).toEqual([expect.stringContaining('No withdrawal is waiting for a code')]);
+            expect(transfer).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('export', () => {
+        const phrase = localePack('en').exportPhrase;
+        let now: number;
+
+        beforeEach(() => {
+            now = Date.now();
+            jest.spyOn(Date, 'now').mockImplementation(() => now);
+        });
+
+        afterEach(() => {
+            jest.mocked(Date.now).mockRestore();
+        });
+
+        it('should warn, hold the link through the cooldown, then stop after the daily limit', async () => {
+            for (let link = 1; link <= config.EXPORT_MAX_PER_DAY; link++) {
+                const [warning] = await send('export');
+                expect(warning).toContain('STOP AND READ');
+                expect(warning).toContain(phrase);
+
+                // Typed straight away, the phrase only earns a reminder to read the warning
+                expect(await send(phrase)).toEqual([expect.stringContaining(`again in ${config.EXPORT_COOLDOWN_SECONDS} seconds`)]);
+
+                now += config.EXPORT_COOLDOWN_SECONDS * 1000;
+                const [sent] = await send(phrase);
+                expect(sent).toMatch(new RegExp(`${config.PUBLIC_BASE_URL}/api/export/[A-Za-z0-9_-]{43}`));
+
+                // The link went out, so the phrase doesn't work a second time
+                expect(await send(`export ${phrase}`)).toEqual([expect.stringContaining('No key export is waiting')]);
+            }
+
+            expect(await send('export')).toEqual([expect.stringContaining(`${config.EXPORT_MAX_PER_DAY} time(s) a day`)]);
+        });
+    });
+
+    describe('token image', () => {
+        const PARENT_PHOTO: TweetMedia = { url: 'https://pbs.twimg.com/media/parent.jpg', width: 800, height: 800 };
+        const OWN_PHOTO: TweetMedia = { url: 'https://pbs.twimg.com/media/own.jpg', width: 800, height: 800 };
+        const PHOTOGRAPHER_ID = '555009400';
+        let deploy: jest.SpyInstance;
+        let nextTweetId = 9500;
+
+        // Reply to a fresh photo tweet asking for a deploy, and return the image the token went out with
+        const deployReply = async (text: string, media?: TweetMedia[]): Promise<string | undefined> => {
+            const parentId = String(nextTweetId++);
+            simulatedX.addTweet({ id: parentId, authorId: PHOTOGRAPHER_ID, text: 'look at this frog', media: [PARENT_PHOTO] });
+
+            const authorId = String(555000000 + nextTweetId);
+            const wallet = walletService.createWallet();
+            await db.upsertUser(authorId, wallet.address, walletService.encrypt(wallet.privateKey));
+
+            await listener.onMention({
+                tweet_id: String(nextTweetId++),
+                author_id: authorId,
+                author_username: `deployer${authorId}`,
+                text,
+                in_reply_to_tweet_id: parentId,
+                media,
+                created_at: new Date().toISOString(),
+            }, source);
+
+            expect(deploy).toHaveBeenCalledTimes(1);
+            return deploy.mock.calls[0][0].image;
+        };
+
+        beforeAll(async () => {
+            simulatedX.addUser({ id: PHOTOGRAPHER_ID, username: 'photographer', custodialWallet: false });
+            await db.upsertUser(PHOTOGRAPHER_ID, '0x' + '78'.repeat(20), null);
+        });
+
+        beforeEach(() => {
+            deploy = jest.spyOn(bot.deployer, 'deploy');
+        });
+
+        afterEach(() => {
+            deploy.mockRestore();
+        });
+
+        it('should fall back to the parent tweet\'s photo with TOKEN_IMAGE_FROM_PARENT', async () => {
+            const fromParent = jest.replaceProperty(config, 'TOKEN_IMAGE_FROM_PARENT', true);
+            try {
+                expect(await deployReply('@mybot deploy $PFRG Parent Frog')).toBe(PARENT_PHOTO.url);
+            } finally {
+                fromParent.restore();
+            }
+        });
+
+        it('should leave the parent tweet\'s photo alone by default', async () => {
+            expect(await deployReply('@mybot deploy $NFRG No Frog')).toBeUndefined();
+        });
+
+        it('should prefer the tweet\'s own photo to the parent\'s', async () => {
+            const fromParent = jest.replaceProperty(config, 'TOKEN_IMAGE_FROM_PARENT', true);
+            try {
+                expect(await deployReply('@mybot deploy $OFRG Own Frog', [OWN_PHOTO])).toBe(OWN_PHOTO.url);
+            } finally {
+                fromParent.restore();
+            }
+        });
+
+        it('should use an image: field over any photo', async () => {
+            const fromParent = jest.replaceProperty(config, 'TOKEN_IMAGE_FROM_PARENT', true);
+            try {
+                const image = await deployReply('@mybot deploy $IFRG Image Frog\nimage: https://example.com/frog.png', [OWN_PHOTO]);
+                expect(image).toBe('https://example.com/frog.png');
+            } finally {
+                fromParent.restore();
+            }
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+
+/**
+ * Scenario files describe an offline X conversation for the mock simulator:
+ * user profiles, pre-existing tweets (e.g. parents of deploy replies) and a
+ * timeline of mentions and DMs delivered to the bot.
+ *
+ * `{bot}` in any text is replaced with the configured bot username.
+ */
+const userSchema = z.object({
+    id: z.string().min(1),
+    username: z.string().min(1),
+    name: z.string().optional(),
+    wallet: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(), // Linked external wallet
+    custodialWallet: z.boolean().default(false), // Generate a custodial wallet like `start` does
+});
+
+const mediaSchema = z.object({
+    url: z.string().url(),
+    width: z.number().int().positive().optional(),
+    height: z.number().int().positive().optional(),
+});
+
+const tweetSchema = z.object({
+    id: z.string().min(1),
+    authorId: z.string().min(1),
+    text: z.string(),
+    inReplyToId: z.string().optional(),
+    quotedId: z.string().optional(),
+    media: z.array(mediaSchema).optional(), // Attached photos
+});
+
+const eventSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('mention'),
+        at: z.number().int().nonnegative(),
+        tweet: tweetSchema,
+    }),
+    z.object({
+        type: z.literal('dm'),
+        at: z.number().int().nonnegative(),
+        dm: z.object({
+            id: z.string().min(1),
+            senderId: z.string().min(1),
+            text: z.string(),
+        }),
+    }),
+]);
+
+const scenarioSchema = z.object({
+    name: z.string().default('unnamed'),
+    description: z.string().optional(),
+    users: z.array(userSchema).default([]),
+    tweets: z.array(tweetSchema).default([]),
+    events: z.array(eventSchema).min(1, 'Scenario needs at least one event'),
+});
+
+export type ScenarioUser = z.infer<typeof userSchema>;
+export type ScenarioTweet = z.infer<typeof tweetSchema>;
+export type ScenarioEvent = z.infer<typeof eventSchema>;
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+/**
+ * Validate a raw scenario object
+ * Every tweet and event must reference a declared user.
+ */
+export function parseScenario(raw: unknown): Scenario {
+    const scenario = scenarioSchema.parse(raw);
+
+    const userIds = new Set(scenario.users.map(u => u.id));
+    const authorIds = [
+        ...scenario.tweets.map(t => t.authorId),
+        ...scenario.events.map(e => e.type === 'mention' ? e.tweet.authorId : e.dm.senderId),
+    ];
+    const unknown = authorIds.filter(id => !userIds.has(id));
+    if (unknown.length) {
+        throw new Error(`Scenario "${scenario.name}" references undeclared users: ${[...new Set(unknown)].join(', ')}`);
+    }
+
+    return {
+        ...scenario,
+        events: [...scenario.events].sort((a, b) => a.at - b.at),
+    };
+}
+
+/**
+ * Load a scenario from a .json, .yaml or .yml file
+ */
+export function loadScenario(filePath: string): Scenario {
+    const contents = fs.readFileSync(filePath, 'utf8');
+    const ext = path.extname(filePath).toLowerCase();
+    const raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(contents) : JSON.parse(contents);
+    return parseScenario(raw);
+}
@@ -0,0 +1,75 @@
+import type { ScenarioTweet, ScenarioUser } from './Scenario.js';
+
+export interface OutgoingMessage {
+    kind: 'reply' | 'dm';
+    to: string; // Tweet ID for replies, user ID for DMs
+    text: string;
+    at: Date;
+}
+
+/**
+ * SimulatedX - In-memory stand-in for X used in mock mode
+ * Holds the scenario's users and tweets so resolvers can look them up, and
+ * records every reply and DM the bot sends so conversations can be asserted on.
+ */
+export class SimulatedX {
+    private users = new Map<string, ScenarioUser>();
+    private tweets = new Map<string, ScenarioTweet>();
+    private outbox: OutgoingMessage[] = [];
+
+    reset(): void {
+        this.users.clear();
+        this.tweets.clear();
+        this.outbox = [];
+    }
+
+    addUser(user: ScenarioUser): void {
+        this.users.set(user.id, user);
+    }
+
+    addTweet(tweet: ScenarioTweet): void {
+        this.tweets.set(tweet.id, tweet);
+    }
+
+    getUser(userId: string): ScenarioUser | undefined {
+        return this.users.get(userId);
+    }
+
+    findUserByUsername(username: string): ScenarioUser | undefined {
+        const wanted = username.toLowerCase();
+        return [...this.users.values()].find((u) => u.username.toLowerCase() === wanted);
+    }
+
+    getTweet(tweetId: string): ScenarioTweet | undefined {
+        return this.tweets.get(tweetId);
+    }
+
+    recordReply(replyToTweetId: string, text: string): void {
+        this.outbox.push({ kind: 'reply', to: replyToTweetId, text, at: new Date() });
+    }
+
+    recordDM(recipientId: string, text: string): void {
+        this.outbox.push({ kind: 'dm', to: recipientId, text, at: new Date() });
+    }
+
+    /**
+     * Everything the bot has sent, oldest first
+     */
+    getOutbox(): OutgoingMessage[] {
+        return [...this.outbox];
+    }
+
+    /**
+     * Human-readable transcript of outgoing messages
+     */
+    formatTranscript(): string {
+        return this.outbox
+            .map((msg) => {
+                const target = msg.kind === 'reply' ? `reply → tweet ${msg.to}` : `DM → @${this.users.get(msg.to)?.username || msg.to}`;
+                return `[${target}]\n${msg.text}`;
+            })
+            .join('\n\n');
+    }
+}
+
+export const simulatedX = new SimulatedX();
@@ -0,0 +1,47 @@
+import path from 'path';
+import { loadScenario, parseScenario } from '../Scenario.js';
+
+describe('Scenario', () => {
+    const users = [
+        { id: '1', username: 'alice' },
+        { id: '2', username: 'bob' },
+    ];
+
+    it('should sort events by their offset', () => {
+        const scenario = parseScenario({
+            users,
+            events: [
+                { type: 'dm', at: 5000, dm: { id: '11', senderId: '1', text: 'start' } },
+                { type: 'mention', at: 1000, tweet: { id: '10', authorId: '2', text: '@{bot} deploy A B' } },
+            ],
+        });
+        expect(scenario.events.map(e => e.at)).toEqual([1000, 5000]);
+        expect(scenario.name).toBe('unnamed');
+    });
+
+    it('should reject events from undeclared users', () => {
+        expect(() => parseScenario({
+            users,
+            events: [{ type: 'dm', at: 0, dm: { id: '11', senderId: '3', text: 'start' } }],
+        })).toThrow('undeclared users: 3');
+    });
+
+    it('should reject an empty timeline', () => {
+        expect(() => parseScenario({ users, events: [] })).toThrow();
+    });
+
+    it('should reject malformed wallets', () => {
+        expect(() => parseScenario({
+            users: [{ id: '1', username: 'alice', wallet: '0x123' }],
+            events: [{ type: 'dm', at: 0, dm: { id: '11', senderId: '1', text: 'start' } }],
+        })).toThrow();
+    });
+
+    it('should load the bundled JSON and YAML scenarios', () => {
+        const json = loadScenario(path.resolve('scenarios/default.json'));
+        expect(json.events[0].type).toBe('mention');
+
+        const yaml = loadScenario(path.resolve('scenarios/dm-onboarding.yaml'));
+        expect(yaml.events.map(e => e.type)).toEqual(['dm', 'dm', 'dm', 'mention', 'mention', 'dm', 'dm']);
+    });
+});
@@ -0,0 +1,23 @@
+import type { Express } from 'express';
+import type { AddressInfo } from 'net';
+
+export interface TestServer {
+    url: string;
+    close(): Promise<void>;
+}
+
+/**
+ * Serve an express app on a free local port, for route tests
+ */
+export async function serve(app: Express): Promise<TestServer> {
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        }),
+    };
+}
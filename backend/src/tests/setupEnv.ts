@@ -0,0 +1,17 @@
+/**
+ * Jest setup: config is validated on import, so every test file starts with a
+ * complete environment that keeps the database, queue, chain and X API mocked
+ */
+Object.assign(process.env, {
+    BOT_PRIVATE_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+    ENCRYPTION_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+    DATABASE_URL: 'postgres://localhost:5432/unused',
+    REDIS_URL: 'redis://localhost:6379',
+    RPC_URL: 'http://127.0.0.1:8545',
+    X_BOT_USERNAME: 'mybot',
+    PUBLIC_BASE_URL: 'https://bot.example.com',
+    MOCK_X_API: 'true',
+    MOCK_DB: 'true',
+    MOCK_QUEUE: 'true',
+    MOCK_CHAIN: 'true',
+});
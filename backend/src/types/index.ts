@@ -1,3 +1,5 @@
+import type { Locale } from '../i18n/index.js';
+
 export interface User {
     twitter_id: string;
     wallet_address: string;
@@ -7,16 +9,25 @@ export interface User {
 
 export interface Deployment {
     id: number;
+    bot_id: string;
     deploy_tweet_id: string;
     parent_tweet_id: string;
     deployer_twitter_id: string;
     fee_recipient_twitter_id: string;
     fee_recipient_wallet: string;
+    token_name: string | null;
+    token_symbol: string | null;
     token_address: string | null;
     pool_id: string | null;
     tx_hash: string | null;
     status: DeploymentStatus;
+    error_message: string | null;
+    moderation_rule_id: number | null; // Rule that rejected it, if any
+    source: DeploymentSource; // For DM deploys, deploy_tweet_id and parent_tweet_id hold the DM's ID
+    fee_recipient_reason: string | null;
+    attribution_chain: AttributionStep[] | null;
     created_at: Date;
+    deployed_at: Date | null;
 }
 
 export type DeploymentStatus =
@@ -24,11 +35,109 @@ export type DeploymentStatus =
     | 'processing'
     | 'deployed'
     | 'failed'
-    | 'wallet_missing';
+    | 'wallet_missing'
+    | 'rejected';
+
+/**
+ * How a moderation rule's pattern is compared with names and tickers:
+ * - exact: the term as a whole word, ignoring case
+ * - regex: a case-insensitive regular expression
+ * - fuzzy: the term's look-alike skeleton, allowing a typo or two
+ */
+export type ModerationRuleKind = 'exact' | 'regex' | 'fuzzy';
+
+export type ModerationTarget = 'name' | 'ticker' | 'both';
+
+export interface ModerationRule {
+    id: number;
+    kind: ModerationRuleKind;
+    pattern: string;
+    applies_to: ModerationTarget;
+    category: string | null; // e.g. slur, trademark, impersonation
+    note: string | null;
+    enabled: boolean;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * An account that doesn't want tokens deployed from its tweets
+ */
+export interface ModerationOptOut {
+    twitter_id: string;
+    username: string | null;
+    reason: string | null;
+    created_at: Date;
+}
+
+/**
+ * A transfer out of a user's custodial wallet
+ */
+export interface Withdrawal {
+    id: number;
+    bot_id: string;
+    twitter_id: string;
+    from_address: string;
+    to_address: string;
+    amount_wei: string; // NUMERIC comes back from pg as a string
+    fee_wei: string;
+    tx_hash: string | null;
+    status: WithdrawalStatus;
+    error_message: string | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export type WithdrawalStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+/**
+ * A one-time link to a custodial wallet's private key, kept as an audit record
+ */
+export interface KeyExport {
+    id: number;
+    bot_id: string;
+    twitter_id: string;
+    wallet_address: string;
+    token_hash: string; // SHA-256 of the link token; the token itself is only ever in the DM
+    status: KeyExportStatus;
+    requested_at: Date; // When the warning was sent
+    expires_at: Date;
+    viewed_at: Date | null;
+    viewer_ip: string | null;
+    viewer_user_agent: string | null;
+    created_at: Date; // When the link was sent
+}
+
+export type KeyExportStatus = 'issued' | 'viewed';
+
+export type ProcessedEventType = 'tweet' | 'dm';
+
+export type ProcessedEventStatus = 'processing' | 'done';
+
+/**
+ * Failed attempts at handling a mention or DM; dead-lettered once retries run out
+ */
+export interface EventFailure {
+    bot_id: string;
+    event_type: ProcessedEventType;
+    event_id: string;
+    attempts: number;
+    last_error: string | null;
+    payload: unknown; // The mention or DM as received
+    first_failed_at: Date;
+    last_failed_at: Date;
+    dead_lettered_at: Date | null; // Set when the bot stopped retrying
+}
 
 export interface DeployCommand {
     ticker: string;
     name: string;
+    description?: string;
+    image?: string; // Validated http(s) URLs from here down
+    twitter?: string;
+    telegram?: string;
+    website?: string;
+    feeRecipientHandle?: string; // From `fee: @handle`, without the @
 }
 
 export interface TweetMention {
@@ -37,6 +146,32 @@ export interface TweetMention {
     author_username: string;
     text: string;
     in_reply_to_tweet_id: string | null;
+    quoted_tweet_id?: string | null;
+    conversation_id?: string | null; // ID of the tweet that started the thread
+    mentioned_users?: MentionedUser[]; // @mentions X linked to an account
+    media?: TweetMedia[]; // Attached photos, in tweet order
+    created_at: string;
+}
+
+/**
+ * A photo attached to a tweet
+ * Dimensions are as reported by the source and re-checked on download.
+ */
+export interface TweetMedia {
+    url: string;
+    width?: number;
+    height?: number;
+}
+
+export interface MentionedUser {
+    id: string | null;
+    username: string;
+}
+
+export interface DirectMessage {
+    id: string;
+    sender_id: string;
+    text: string;
     created_at: string;
 }
 
@@ -44,14 +179,60 @@ export interface ParentTweetInfo {
     tweet_id: string;
     author_id: string;
     author_username: string;
+    in_reply_to_tweet_id?: string | null;
+    conversation_id?: string | null;
+    media?: TweetMedia[];
 }
 
-export interface DeploymentJob {
-    mention: TweetMention;
+/**
+ * One fee recipient rule evaluated for a mention
+ */
+export interface AttributionStep {
+    rule: string;
+    outcome: 'matched' | 'not_applicable' | 'unresolved';
+    tweet_id?: string;
+    author_id?: string;
+    author_username?: string;
+}
+
+/**
+ * Why a deployment's fees go where they go, kept for dispute audits
+ */
+export interface FeeAttribution {
+    reason: string;
+    chain: AttributionStep[];
+    sources?: ParentTweetInfo[]; // Authors of the tweets the token is launched from; absent on older jobs
+}
+
+export type DeploymentSource = 'tweet' | 'dm';
+
+interface DeploymentJobBase {
+    botId: string; // BotRegistry account that received the command
     command: DeployCommand;
+    locale?: Locale; // Language to reply in
+}
+
+/**
+ * A deploy mention; fees go to the author of the parent tweet
+ */
+export interface TweetDeploymentJob extends DeploymentJobBase {
+    source?: 'tweet'; // Absent on jobs queued before DM deploys were queued too
+    mention: TweetMention;
     parentTweet: ParentTweetInfo;
+    attribution?: FeeAttribution;
+    media?: TweetMedia[]; // Token image candidates when the command has no `image:`
+}
+
+/**
+ * A deploy sent by DM; the sender deploys for themselves and is answered by DM
+ */
+export interface DmDeploymentJob extends DeploymentJobBase {
+    source: 'dm';
+    dm: Pick<DirectMessage, 'id' | 'sender_id'>;
 }
 
+export type DeploymentJob = TweetDeploymentJob | DmDeploymentJob;
+
 export interface DeploymentResult {
     success: boolean;
     tokenAddress?: string;
@@ -59,3 +240,9 @@ export interface DeploymentResult {
     txHash?: string;
     error?: string;
 }
+
+export interface TransferResult {
+    success: boolean;
+    txHash?: string;
+    error?: string;
+}
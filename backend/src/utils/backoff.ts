@@ -0,0 +1,16 @@
+/**
+ * Exponential backoff with full jitter
+ * @param attempt 1 for the first retry
+ * @param random Source of randomness in [0, 1), injectable for tests
+ * @returns Delay in ms, uniformly spread over [base/2, min(max, base * 2^(attempt-1))]
+ */
+export function backoffDelay(
+    attempt: number,
+    baseMs: number,
+    maxMs: number,
+    random: () => number = Math.random
+): number {
+    const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+    const floor = Math.min(ceiling, baseMs / 2);
+    return Math.round(floor + random() * (ceiling - floor));
+}
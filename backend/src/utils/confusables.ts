@@ -0,0 +1,102 @@
+/**
+ * Unicode helpers for token names and tickers: normalization, script checks
+ * and homoglyph skeletons for spotting look-alikes of protected tickers.
+ */
+
+// Scripts whose letters pass for Latin ones; a single word mixing them is a spoof signal
+const LATIN_LOOKALIKE_SCRIPTS = ['Latin', 'Cyrillic', 'Greek', 'Armenian', 'Cherokee'];
+
+// Characters that render like a Latin capital or digit, mapped to it. Covers the
+// Cyrillic, Greek and digit look-alikes used against tickers; anything that
+// NFKD already folds (fullwidth, math alphanumerics, accents) isn't listed.
+const CONFUSABLES: Record<string, string> = {
+    // Cyrillic
+    'А': 'A', 'а': 'A', 'В': 'B', 'в': 'B', 'Е': 'E', 'е': 'E', 'Ё': 'E', 'ё': 'E',
+    'К': 'K', 'к': 'K', 'М': 'M', 'м': 'M', 'Н': 'H', 'н': 'H', 'О': 'O', 'о': 'O',
+    'Р': 'P', 'р': 'P', 'С': 'C', 'с': 'C', 'Т': 'T', 'т': 'T', 'У': 'Y', 'у': 'Y',
+    'Х': 'X', 'х': 'X', 'Ѕ': 'S', 'ѕ': 'S', 'І': 'I', 'і': 'I', 'Ј': 'J', 'ј': 'J',
+    'Ԛ': 'Q', 'ԛ': 'Q', 'Ԝ': 'W', 'ԝ': 'W', 'Ь': 'B', 'ь': 'B',
+    // Greek
+    'Α': 'A', 'α': 'A', 'Β': 'B', 'β': 'B', 'Ε': 'E', 'ε': 'E', 'Ζ': 'Z', 'Η': 'H',
+    'Ι': 'I', 'ι': 'I', 'Κ': 'K', 'κ': 'K', 'Μ': 'M', 'Ν': 'N', 'ν': 'V', 'Ο': 'O',
+    'ο': 'O', 'Ρ': 'P', 'ρ': 'P', 'Τ': 'T', 'τ': 'T', 'Υ': 'Y', 'υ': 'U', 'Χ': 'X',
+    'χ': 'X',
+    // Latin and digits that pass for each other
+    'l': 'I', '|': 'I', '0': 'O', '1': 'I', '5': 'S', '8': 'B', '$': 'S',
+};
+
+const INVISIBLE_PATTERN = /[\u00AD\u034F\u061C\u115F\u1160\u17B4\u17B5\u180B-\u180F\u200B-\u200F\u202A-\u202E\u2060-\u206F\uFE00-\uFE0F\uFEFF]/g; // Zero-width, bidi and variation marks
+
+/**
+ * Whether `name` is a Unicode script property JavaScript regexes understand
+ */
+export function isKnownScript(name: string): boolean {
+    try {
+        new RegExp(`\\p{Script=${name}}`, 'u');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * NFKC-normalize user input, drop invisible characters and collapse whitespace
+ * Folds fullwidth and styled letters (ＰＥＰＥ, 𝐏𝐄𝐏𝐄) into their plain forms.
+ */
+export function normalizeTokenText(text: string): string {
+    return text.normalize('NFKC').replace(INVISIBLE_PATTERN, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The script of every letter, or null for non-letters
+ */
+function scriptOf(char: string, scripts: string[]): string | null {
+    if (!/\p{L}/u.test(char)) return null;
+    return scripts.find((script) => new RegExp(`\\p{Script=${script}}`, 'u').test(char)) || 'Other';
+}
+
+/**
+ * First letter outside the allowed scripts
+ * @returns The character, or null if every letter is allowed
+ */
+export function findDisallowedLetter(text: string, scripts: string[]): string | null {
+    for (const char of text) {
+        if (scriptOf(char, scripts) === 'Other') return char;
+    }
+    return null;
+}
+
+/**
+ * Whether any word mixes letters from scripts that look like Latin, e.g. "Pеpe" with a Cyrillic е
+ * Words in different scripts ("PEPE 佩佩") are fine.
+ */
+export function mixesLookalikeScripts(text: string): boolean {
+    return text.split(/\s+/).some((word) => {
+        const scripts = new Set<string>();
+        for (const char of word) {
+            const script = scriptOf(char, LATIN_LOOKALIKE_SCRIPTS);
+            if (script && script !== 'Other') scripts.add(script);
+        }
+        return scripts.size > 1;
+    });
+}
+
+/**
+ * What a string looks like, reduced to Latin capitals and digits
+ * Two strings with the same skeleton are visually confusable.
+ */
+export function skeleton(text: string): string {
+    const stripped = text.normalize('NFKD').replace(/\p{M}/gu, '').replace(INVISIBLE_PATTERN, '');
+    return [...stripped]
+        .map((char) => CONFUSABLES[char] ?? char.toUpperCase())
+        .join('')
+        .replace(/[\s\-_.]/g, '');
+}
+
+/**
+ * The protected ticker that `text` would pass for, if any
+ */
+export function findImpersonated(text: string, protectedTickers: string[]): string | null {
+    const target = skeleton(text);
+    return protectedTickers.find((ticker) => skeleton(ticker) === target) || null;
+}
@@ -0,0 +1,107 @@
+/**
+ * Content type and pixel size read from an image's header bytes
+ */
+export interface ImageInfo {
+    contentType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+    width: number;
+    height: number;
+}
+
+export interface ImageLimits {
+    maxBytes: number;
+    minPx: number; // Shortest side
+    maxPx: number; // Longest side
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function be16(bytes: Uint8Array, at: number): number {
+    return (bytes[at] << 8) | bytes[at + 1];
+}
+
+function le16(bytes: Uint8Array, at: number): number {
+    return bytes[at] | (bytes[at + 1] << 8);
+}
+
+function le24(bytes: Uint8Array, at: number): number {
+    return bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+}
+
+function jpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        // SOFn frames carry the size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but don't
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: be16(bytes, offset + 5), width: be16(bytes, offset + 7) };
+        }
+        offset += 2 + be16(bytes, offset + 2);
+    }
+    return null;
+}
+
+function webpSize(bytes: Uint8Array): { width: number; height: number } | null {
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === 'VP8 ' && bytes.length >= 30) {
+        return { width: le16(bytes, 26) & 0x3fff, height: le16(bytes, 28) & 0x3fff };
+    }
+    if (chunk === 'VP8L' && bytes.length >= 25) {
+        const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+        return {
+            width: 1 + (((b1 & 0x3f) << 8) | b0),
+            height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+        };
+    }
+    if (chunk === 'VP8X' && bytes.length >= 30) {
+        return { width: 1 + le24(bytes, 24), height: 1 + le24(bytes, 27) };
+    }
+    return null;
+}
+
+/**
+ * Identify a PNG, JPEG, GIF or WebP image from its bytes
+ * @returns null for anything else, or a header too short to read
+ */
+export function sniffImage(bytes: Uint8Array): ImageInfo | null {
+    if (bytes.length >= 24 && PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+        return {
+            contentType: 'image/png',
+            width: new DataView(bytes.buffer, bytes.byteOffset).getUint32(16),
+            height: new DataView(bytes.buffer, bytes.byteOffset).getUint32(20),
+        };
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        const size = jpegSize(bytes);
+        return size && { contentType: 'image/jpeg', ...size };
+    }
+    if (bytes.length >= 10 && (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a')) {
+        return { contentType: 'image/gif', width: le16(bytes, 6), height: le16(bytes, 8) };
+    }
+    if (bytes.length >= 16 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+        const size = webpSize(bytes);
+        return size && { contentType: 'image/webp', ...size };
+    }
+    return null;
+}
+
+/**
+ * Check an image against the token image limits
+ * @returns Why the image can't be used, or null if it can
+ */
+export function imageProblem(info: ImageInfo, byteLength: number, limits: ImageLimits): string | null {
+    if (byteLength > limits.maxBytes) {
+        return `is ${byteLength} bytes, over the ${limits.maxBytes} byte limit`;
+    }
+    if (Math.min(info.width, info.height) < limits.minPx) {
+        return `is ${info.width}x${info.height}, smaller than ${limits.minPx}px`;
+    }
+    if (Math.max(info.width, info.height) > limits.maxPx) {
+        return `is ${info.width}x${info.height}, larger than ${limits.maxPx}px`;
+    }
+    return null;
+}
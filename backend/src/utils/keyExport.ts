@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { LOCALE_PACKS } from '../i18n/index.js';
+
+export const EXPORT_CONFIRM_WINDOW_SECONDS = 15 * 60; // How long the phrase is accepted once the cooldown is over
+export const EXPORT_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/; // 32 random bytes, base64url
+
+// The confirmation phrase in any language
+const PHRASES = new Set(Object.values(LOCALE_PACKS).map((pack) => normalizePhrase(pack.exportPhrase)));
+
+/**
+ * A key export waiting for the user to type the confirmation phrase
+ */
+export interface PendingExport {
+    requestedAt: number; // Epoch ms when the warning was sent
+}
+
+/**
+ * Whether the text is the confirmation phrase, ignoring case, spacing and a trailing full stop
+ */
+export function matchExportPhrase(text: string): boolean {
+    return PHRASES.has(normalizePhrase(text));
+}
+
+/**
+ * Seconds left before the phrase is accepted, rounded up
+ */
+export function cooldownRemaining(pending: PendingExport, cooldownSeconds: number, now: number = Date.now()): number {
+    const elapsedMs = now - pending.requestedAt;
+    return Math.max(0, Math.ceil((cooldownSeconds * 1000 - elapsedMs) / 1000));
+}
+
+/**
+ * Random token for a one-time link
+ */
+export function newExportToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * What the audit table stores instead of the token, so a database leak doesn't open any links
+ */
+export function hashExportToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function normalizePhrase(text: string): string {
+    return text.trim().replace(/[.!。！]+$/u, '').replace(/\s+/g, ' ').toLowerCase();
+}
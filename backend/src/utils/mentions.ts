@@ -0,0 +1,14 @@
+/**
+ * Regex source for `@handle` as a whole handle, so `@pepe` doesn't match
+ * inside `@pepebot` or an email address like `me@pepe.com`
+ */
+export function handlePattern(handle: string): string {
+    return `(?<![A-Za-z0-9_])@${handle}(?![A-Za-z0-9_])`;
+}
+
+/**
+ * Whether the text mentions the handle, ignoring case
+ */
+export function mentionsHandle(text: string, handle: string): boolean {
+    return new RegExp(handlePattern(handle), 'i').test(text);
+}
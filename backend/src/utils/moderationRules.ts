@@ -0,0 +1,94 @@
+import type { ModerationRule, ModerationRuleKind } from '../types/index.js';
+import { normalizeTokenText, skeleton } from './confusables.js';
+
+export type ModerationCandidate = { name: string; ticker: string };
+
+export interface ModerationMatch {
+    rule: ModerationRule;
+    field: 'name' | 'ticker';
+    value: string;
+}
+
+/**
+ * Why a pattern can't be used with its kind
+ * @returns The problem, or null if the rule is usable
+ */
+export function patternProblem(kind: ModerationRuleKind, pattern: string): string | null {
+    if (!pattern.trim()) return 'pattern is empty';
+    if (kind === 'regex') {
+        try {
+            new RegExp(pattern, 'iu');
+        } catch (error) {
+            return error instanceof Error ? error.message : 'invalid regular expression';
+        }
+    }
+    if (kind === 'fuzzy' && !fuzzyKey(pattern)) return 'pattern has no letters or digits';
+    return null;
+}
+
+/**
+ * First enabled rule the name or ticker breaks, checking the ticker first
+ */
+export function findViolation(rules: ModerationRule[], candidate: ModerationCandidate): ModerationMatch | null {
+    for (const field of ['ticker', 'name'] as const) {
+        const value = candidate[field];
+        const rule = rules.find((r) => r.enabled && (r.applies_to === 'both' || r.applies_to === field) && matchesRule(r, value));
+        if (rule) return { rule, field, value };
+    }
+    return null;
+}
+
+export function matchesRule(rule: Pick<ModerationRule, 'kind' | 'pattern'>, value: string): boolean {
+    const text = normalizeTokenText(value);
+    switch (rule.kind) {
+        case 'exact': {
+            const term = normalizeTokenText(rule.pattern).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            return new RegExp(`(?<![\\p{L}\\p{N}])${term}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+        }
+        case 'regex':
+            try {
+                return new RegExp(rule.pattern, 'iu').test(text);
+            } catch {
+                return false; // Rejected on save; a bad row shouldn't stop every deploy
+            }
+        case 'fuzzy':
+            return fuzzyContains(fuzzyKey(text), fuzzyKey(rule.pattern));
+    }
+}
+
+/**
+ * The look-alike skeleton with spacing and punctuation removed, so "T3ther",
+ * "t e t h e r" and Cyrillic "Тether" all compare as TETHER
+ */
+function fuzzyKey(text: string): string {
+    return skeleton(text).replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Whether some stretch of `text` is within a few edits of `term`
+ * Short terms must match exactly; longer ones tolerate one or two typos.
+ */
+function fuzzyContains(text: string, term: string): boolean {
+    if (!term) return false;
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 5 ? 1 : 0;
+    if (maxDistance === 0) return text.includes(term);
+
+    for (let length = term.length - maxDistance; length <= term.length + maxDistance; length++) {
+        for (let start = 0; start + length <= text.length; start++) {
+            if (editDistance(text.slice(start, start + length), term) <= maxDistance) return true;
+        }
+    }
+    return false;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
@@ -0,0 +1,34 @@
+/**
+ * Snowflake ID helpers
+ *
+ * Tweet and DM IDs are 64-bit snowflakes serialized as strings. Comparing them
+ * as strings breaks as soon as two IDs differ in length ("999" > "1000"), so
+ * all ordering goes through BigInt.
+ */
+
+/**
+ * Compare two snowflake IDs numerically
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareSnowflakeIds(a: string, b: string): number {
+    const left = BigInt(a);
+    const right = BigInt(b);
+    if (left === right) return 0;
+    return left < right ? -1 : 1;
+}
+
+/**
+ * Check whether an ID is strictly newer than a checkpoint
+ * A missing checkpoint means everything is new
+ */
+export function isNewerThan(id: string, checkpoint: string | null | undefined): boolean {
+    if (!checkpoint) return true;
+    return compareSnowflakeIds(id, checkpoint) > 0;
+}
+
+/**
+ * Return a copy of the items sorted oldest-first by their snowflake ID
+ */
+export function sortBySnowflake<T>(items: T[], getId: (item: T) => string): T[] {
+    return [...items].sort((a, b) => compareSnowflakeIds(getId(a), getId(b)));
+}
@@ -0,0 +1,10 @@
+/**
+ * Fill `{name}` placeholders in a reply template
+ * Unknown placeholders are left as-is so typos in templates are visible.
+ */
+export function renderTemplate(template: string, vars: Record<string, string | number | undefined>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = vars[name];
+        return value === undefined ? match : String(value);
+    });
+}
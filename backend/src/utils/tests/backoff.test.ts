@@ -0,0 +1,28 @@
+import { backoffDelay } from '../backoff.js';
+
+describe('backoffDelay', () => {
+    it('should double the ceiling with each attempt', () => {
+        const top = () => 0.999999;
+        expect(backoffDelay(1, 1000, 60000, top)).toBe(1000);
+        expect(backoffDelay(2, 1000, 60000, top)).toBe(2000);
+        expect(backoffDelay(4, 1000, 60000, top)).toBe(8000);
+    });
+
+    it('should never exceed the maximum', () => {
+        expect(backoffDelay(30, 1000, 60000, () => 0.999999)).toBe(60000);
+    });
+
+    it('should keep a floor so retries are never immediate', () => {
+        expect(backoffDelay(1, 1000, 60000, () => 0)).toBe(500);
+        expect(backoffDelay(10, 1000, 60000, () => 0)).toBe(500);
+    });
+
+    it('should spread delays across the window', () => {
+        const delays = new Set(Array.from({ length: 20 }, () => backoffDelay(5, 1000, 60000)));
+        expect(delays.size).toBeGreaterThan(1);
+        for (const delay of delays) {
+            expect(delay).toBeGreaterThanOrEqual(500);
+            expect(delay).toBeLessThanOrEqual(16000);
+        }
+    });
+});
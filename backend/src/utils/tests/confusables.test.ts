@@ -0,0 +1,67 @@
+import { findDisallowedLetter, findImpersonated, isKnownScript, mixesLookalikeScripts, normalizeTokenText, skeleton } from '../confusables.js';
+
+// Escapes keep the look-alikes visible in review
+const CYRILLIC_VE = '\u0412'; // В
+const CYRILLIC_IE = '\u0435'; // е
+const GREEK_NU = '\u039D'; // Ν
+
+describe('normalizeTokenText', () => {
+    it('should fold fullwidth and styled letters', () => {
+        expect(normalizeTokenText('\uFF30\uFF25\uFF30\uFF25')).toBe('PEPE');
+        expect(normalizeTokenText('\u{1D40F}\u{1D404}\u{1D40F}\u{1D404}')).toBe('PEPE');
+    });
+
+    it('should drop invisible characters and collapse whitespace', () => {
+        expect(normalizeTokenText(' Pe\u200Bpe \u00A0 Coin ')).toBe('Pepe Coin');
+    });
+});
+
+describe('findDisallowedLetter', () => {
+    it('should allow letters from the listed scripts, digits and punctuation', () => {
+        expect(findDisallowedLetter('Pepe 佩佩 2.0', ['Latin', 'Han'])).toBeNull();
+    });
+
+    it('should return the first letter from another script', () => {
+        expect(findDisallowedLetter(`Pepe ${CYRILLIC_VE}`, ['Latin', 'Han'])).toBe('\u0412');
+        expect(findDisallowedLetter('ペペ', ['Latin', 'Han'])).toBe('ペ');
+    });
+});
+
+describe('mixesLookalikeScripts', () => {
+    it('should flag a word mixing Latin and Cyrillic or Greek', () => {
+        expect(mixesLookalikeScripts(`P${CYRILLIC_IE}pe`)).toBe(true);
+        expect(mixesLookalikeScripts(`B${GREEK_NU}B`)).toBe(true);
+    });
+
+    it('should allow separate words in different scripts', () => {
+        expect(mixesLookalikeScripts('Pepe 佩佩')).toBe(false);
+        expect(mixesLookalikeScripts(`Pepe ${CYRILLIC_VE}${CYRILLIC_IE}`)).toBe(false);
+    });
+});
+
+describe('skeleton', () => {
+    it('should give look-alikes the same skeleton', () => {
+        expect(skeleton(`${CYRILLIC_VE}N${CYRILLIC_VE}`)).toBe(skeleton('BNB'));
+        expect(skeleton('U5DT')).toBe(skeleton('USDT'));
+        expect(skeleton('c\u00E1ke')).toBe(skeleton('CAKE'));
+        expect(skeleton('U.S.D.T')).toBe(skeleton('USDT'));
+    });
+});
+
+describe('findImpersonated', () => {
+    const protectedTickers = ['BNB', 'USDT', 'CAKE'];
+
+    it('should return the protected ticker a value passes for', () => {
+        expect(findImpersonated('BNB', protectedTickers)).toBe('BNB');
+        expect(findImpersonated(`${CYRILLIC_VE}N${CYRILLIC_VE}`, protectedTickers)).toBe('BNB');
+        expect(findImpersonated('USD7', protectedTickers)).toBeNull();
+        expect(findImpersonated('PEPE', protectedTickers)).toBeNull();
+    });
+});
+
+describe('isKnownScript', () => {
+    it('should recognise Unicode script names', () => {
+        expect(isKnownScript('Han')).toBe(true);
+        expect(isKnownScript('Klingon')).toBe(false);
+    });
+});
@@ -0,0 +1,60 @@
+import { imageProblem, sniffImage } from '../imageInfo.js';
+
+const limits = { maxBytes: 1000, minPx: 100, maxPx: 4096 };
+
+function png(width: number, height: number): Uint8Array {
+    const bytes = new Uint8Array(33);
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    bytes.set([0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52], 8); // IHDR
+    const view = new DataView(bytes.buffer);
+    view.setUint32(16, width);
+    view.setUint32(20, height);
+    return bytes;
+}
+
+describe('sniffImage', () => {
+    it('should read PNG dimensions', () => {
+        expect(sniffImage(png(400, 300))).toEqual({ contentType: 'image/png', width: 400, height: 300 });
+    });
+
+    it('should find the JPEG frame header past other segments', () => {
+        const bytes = new Uint8Array([
+            0xff, 0xd8,
+            0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, // APP0 with a 2 byte body
+            0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x01, 0x90, 0x03, // SOF0: 300 high, 400 wide
+        ]);
+        expect(sniffImage(bytes)).toEqual({ contentType: 'image/jpeg', width: 400, height: 300 });
+    });
+
+    it('should read GIF dimensions', () => {
+        const bytes = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x90, 0x01, 0x2c, 0x01]);
+        expect(sniffImage(bytes)).toEqual({ contentType: 'image/gif', width: 400, height: 300 });
+    });
+
+    it('should read extended WebP dimensions', () => {
+        const bytes = new Uint8Array(30);
+        bytes.set([...'RIFF'].map(c => c.charCodeAt(0)));
+        bytes.set([...'WEBPVP8X'].map(c => c.charCodeAt(0)), 8);
+        bytes.set([0x8f, 0x01, 0x00, 0x2b, 0x01, 0x00], 24); // 399 + 1, 299 + 1
+        expect(sniffImage(bytes)).toEqual({ contentType: 'image/webp', width: 400, height: 300 });
+    });
+
+    it('should reject anything else', () => {
+        expect(sniffImage(new TextEncoder().encode('<html><body>not an image</body></html>'))).toBeNull();
+        expect(sniffImage(png(400, 300).subarray(0, 12))).toBeNull();
+    });
+});
+
+describe('imageProblem', () => {
+    const info = { contentType: 'image/png' as const, width: 400, height: 300 };
+
+    it('should accept images within the limits', () => {
+        expect(imageProblem(info, 1000, limits)).toBeNull();
+    });
+
+    it('should reject oversized files and out of range dimensions', () => {
+        expect(imageProblem(info, 1001, limits)).toMatch(/byte limit/);
+        expect(imageProblem({ ...info, height: 99 }, 500, limits)).toMatch(/smaller than 100px/);
+        expect(imageProblem({ ...info, width: 5000 }, 500, limits)).toMatch(/larger than 4096px/);
+    });
+});
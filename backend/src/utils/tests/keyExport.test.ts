@@ -0,0 +1,33 @@
+import { cooldownRemaining, hashExportToken, matchExportPhrase, newExportToken, EXPORT_TOKEN_PATTERN } from '../keyExport.js';
+
+describe('keyExport', () => {
+    it('should match the phrase in any language', () => {
+        expect(matchExportPhrase('I understand the risks')).toBe(true);
+        expect(matchExportPhrase('  i   UNDERSTAND the risks. ')).toBe(true);
+        expect(matchExportPhrase('我了解风险')).toBe(true);
+        expect(matchExportPhrase('我了解风险。')).toBe(true);
+    });
+
+    it('should not match anything else', () => {
+        expect(matchExportPhrase('I understand')).toBe(false);
+        expect(matchExportPhrase('I understand the risks please')).toBe(false);
+        expect(matchExportPhrase('yes')).toBe(false);
+        expect(matchExportPhrase('')).toBe(false);
+    });
+
+    it('should count the cooldown down in whole seconds', () => {
+        const pending = { requestedAt: 10_000 };
+        expect(cooldownRemaining(pending, 60, 10_000)).toBe(60);
+        expect(cooldownRemaining(pending, 60, 69_500)).toBe(1);
+        expect(cooldownRemaining(pending, 60, 70_000)).toBe(0);
+        expect(cooldownRemaining(pending, 60, 500_000)).toBe(0);
+    });
+
+    it('should make unguessable tokens and store only their hash', () => {
+        const token = newExportToken();
+        expect(token).toMatch(EXPORT_TOKEN_PATTERN);
+        expect(newExportToken()).not.toBe(token);
+        expect(hashExportToken(token)).toMatch(/^[a-f0-9]{64}$/);
+        expect(hashExportToken(token)).toBe(hashExportToken(token));
+    });
+});
@@ -0,0 +1,21 @@
+import { handlePattern, mentionsHandle } from '../mentions.js';
+
+describe('mentions', () => {
+    it('should match the whole handle, ignoring case', () => {
+        expect(mentionsHandle('@pepe deploy $ABC', 'pepe')).toBe(true);
+        expect(mentionsHandle('hey @PEPE, deploy', 'pepe')).toBe(true);
+        expect(mentionsHandle('(@pepe)', 'pepe')).toBe(true);
+    });
+
+    it('should not match a longer handle or an email address', () => {
+        expect(mentionsHandle('@pepebot deploy $ABC', 'pepe')).toBe(false);
+        expect(mentionsHandle('@pepe_bot deploy $ABC', 'pepe')).toBe(false);
+        expect(mentionsHandle('mail me@pepe.com', 'pepe')).toBe(false);
+    });
+
+    it('should build patterns that compose with what follows the handle', () => {
+        const pattern = new RegExp(`${handlePattern('pepe')}\\s+(deploy)`, 'i');
+        expect('@pepe deploy'.match(pattern)?.[1]).toBe('deploy');
+        expect(pattern.test('@pepebot deploy')).toBe(false);
+    });
+});
@@ -0,0 +1,56 @@
+import { findViolation, matchesRule, patternProblem } from '../moderationRules.js';
+import type { ModerationRule } from '../../types/index.js';
+
+describe('moderationRules', () => {
+    const rule = (overrides: Partial<ModerationRule>): ModerationRule => ({
+        id: 1,
+        kind: 'exact',
+        pattern: 'scam',
+        applies_to: 'both',
+        category: null,
+        note: null,
+        enabled: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+        ...overrides,
+    });
+
+    it('should match exact terms as whole words, ignoring case and width', () => {
+        const exact = rule({ pattern: 'scam' });
+        expect(matchesRule(exact, 'Totally SCAM coin')).toBe(true);
+        expect(matchesRule(exact, 'ＳＣＡＭ')).toBe(true);
+        expect(matchesRule(exact, 'Scampi')).toBe(false);
+    });
+
+    it('should match regex rules case-insensitively', () => {
+        const regex = rule({ kind: 'regex', pattern: '^pepsi' });
+        expect(matchesRule(regex, 'PepsiCola')).toBe(true);
+        expect(matchesRule(regex, 'NotPepsi')).toBe(false);
+    });
+
+    it('should catch fuzzy look-alikes and typos', () => {
+        const fuzzy = rule({ kind: 'fuzzy', pattern: 'Tether' });
+        expect(matchesRule(fuzzy, 'T3THER Gold')).toBe(true); // 3 is one edit away from E
+        expect(matchesRule(fuzzy, 'Real Тether')).toBe(true); // Cyrillic Т
+        expect(matchesRule(fuzzy, 't.e.t.h.e.r')).toBe(true);
+        expect(matchesRule(fuzzy, 'Feather')).toBe(false);
+    });
+
+    it('should report the first broken rule for the fields it applies to', () => {
+        const rules = [
+            rule({ id: 1, pattern: 'moon', applies_to: 'name', enabled: false }),
+            rule({ id: 2, kind: 'fuzzy', pattern: 'USDT', applies_to: 'ticker' }),
+            rule({ id: 3, pattern: 'moon', applies_to: 'name' }),
+        ];
+        expect(findViolation(rules, { ticker: 'U5DT', name: 'Stable' })).toMatchObject({ rule: { id: 2 }, field: 'ticker' });
+        expect(findViolation(rules, { ticker: 'MOON', name: 'To the moon' })).toMatchObject({ rule: { id: 3 }, field: 'name' });
+        expect(findViolation(rules, { ticker: 'PEPE', name: 'Pepe' })).toBeNull();
+    });
+
+    it('should reject unusable patterns', () => {
+        expect(patternProblem('regex', '(')).not.toBeNull();
+        expect(patternProblem('fuzzy', '!!!')).toBe('pattern has no letters or digits');
+        expect(patternProblem('exact', ' ')).toBe('pattern is empty');
+        expect(patternProblem('regex', 'pep[e3]')).toBeNull();
+    });
+});
@@ -0,0 +1,31 @@
+import { compareSnowflakeIds, isNewerThan, sortBySnowflake } from '../snowflake.js';
+
+describe('snowflake', () => {
+    it('should compare IDs of different lengths numerically', () => {
+        expect(compareSnowflakeIds('999', '1000')).toBeLessThan(0);
+        expect(compareSnowflakeIds('1000', '999')).toBeGreaterThan(0);
+        expect(compareSnowflakeIds('1850000000000000000', '1850000000000000000')).toBe(0);
+    });
+
+    it('should not lose precision on 64-bit IDs', () => {
+        expect(compareSnowflakeIds('1850000000000000001', '1850000000000000000')).toBeGreaterThan(0);
+    });
+
+    it('should treat a missing checkpoint as everything new', () => {
+        expect(isNewerThan('1', null)).toBe(true);
+        expect(isNewerThan('1', undefined)).toBe(true);
+    });
+
+    it('should only accept IDs strictly after the checkpoint', () => {
+        expect(isNewerThan('1001', '1000')).toBe(true);
+        expect(isNewerThan('1000', '1000')).toBe(false);
+        expect(isNewerThan('999', '1000')).toBe(false);
+    });
+
+    it('should sort oldest-first without mutating the input', () => {
+        const input = [{ id: '1000' }, { id: '99' }, { id: '1850000000000000000' }];
+        const sorted = sortBySnowflake(input, (item) => item.id);
+        expect(sorted.map((item) => item.id)).toEqual(['99', '1000', '1850000000000000000']);
+        expect(input[0].id).toBe('1000');
+    });
+});
@@ -0,0 +1,11 @@
+import { renderTemplate } from '../template.js';
+
+describe('renderTemplate', () => {
+    it('should fill every occurrence of a placeholder', () => {
+        expect(renderTemplate('@{user} hi {user}, {n} left', { user: 'alice', n: 3 })).toBe('@alice hi alice, 3 left');
+    });
+
+    it('should leave unknown placeholders untouched', () => {
+        expect(renderTemplate('CA: {tokenAdress}', { tokenAddress: '0x1' })).toBe('CA: {tokenAdress}');
+    });
+});
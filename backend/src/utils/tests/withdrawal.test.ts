@@ -0,0 +1,43 @@
+import { ethers } from 'ethers';
+import { newConfirmationCode, parseWithdrawArgs, planWithdrawal, CONFIRMATION_CODE_PATTERN, TRANSFER_GAS_LIMIT } from '../withdrawal.js';
+
+describe('withdrawal', () => {
+    const address = '0x829bcd939A5cFF23553Edbb31776566E9f557fba';
+    const gwei = ethers.parseUnits('1', 'gwei');
+
+    it('should parse an amount or all, and an address', () => {
+        expect(parseWithdrawArgs(`0.05 ${address}`)).toEqual({ amount: ethers.parseEther('0.05'), to: address });
+        expect(parseWithdrawArgs(`ALL ${address.toLowerCase()}`)).toEqual({ amount: 'all', to: address });
+        expect(parseWithdrawArgs(`全部 ${address}`)).toEqual({ amount: 'all', to: address });
+        expect(parseWithdrawArgs(`.5 ${address}`)?.amount).toBe(ethers.parseEther('0.5'));
+    });
+
+    it('should reject bad amounts and addresses', () => {
+        expect(parseWithdrawArgs(address)).toBeNull();
+        expect(parseWithdrawArgs(`0 ${address}`)).toBeNull();
+        expect(parseWithdrawArgs(`-1 ${address}`)).toBeNull();
+        expect(parseWithdrawArgs(`1e18 ${address}`)).toBeNull();
+        expect(parseWithdrawArgs(`0.0000000000000000001 ${address}`)).toBeNull(); // 19 decimals
+        expect(parseWithdrawArgs(`1 ${address.replace('A5c', 'a5C')}`)).toBeNull(); // Bad checksum
+        expect(parseWithdrawArgs(`1 0x1234`)).toBeNull();
+    });
+
+    it('should set the transfer fee aside', () => {
+        const balance = ethers.parseEther('0.05');
+        const fee = gwei * TRANSFER_GAS_LIMIT;
+
+        expect(planWithdrawal(balance, gwei, 'all')).toEqual({ ok: true, amount: balance - fee, fee });
+        expect(planWithdrawal(balance, gwei, ethers.parseEther('0.01'))).toEqual({ ok: true, amount: ethers.parseEther('0.01'), fee });
+        expect(planWithdrawal(balance, gwei, balance)).toEqual({ ok: false, max: balance - fee, fee });
+    });
+
+    it('should refuse when the balance does not cover the fee', () => {
+        expect(planWithdrawal(1000n, gwei, 'all')).toEqual({ ok: false, max: 0n, fee: gwei * TRANSFER_GAS_LIMIT });
+    });
+
+    it('should make six-digit codes', () => {
+        for (let i = 0; i < 20; i++) {
+            expect(newConfirmationCode()).toMatch(CONFIRMATION_CODE_PATTERN);
+        }
+    });
+});
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { LOCALE_PACKS } from '../i18n/index.js';
+
+export const TRANSFER_GAS_LIMIT = 21000n; // Plain native transfer to an address
+export const CONFIRMATION_CODE_PATTERN = /^\d{6}$/;
+export const MAX_CODE_ATTEMPTS = 3; // Wrong codes before the request is dropped
+
+// `withdraw all ...` in any language
+const ALL_WORDS = new Set(Object.values(LOCALE_PACKS).flatMap((pack) => pack.withdrawAll));
+
+export interface WithdrawRequest {
+    amount: bigint | 'all'; // Wei
+    to: string; // Checksummed address
+}
+
+/**
+ * A withdrawal waiting for its confirmation code
+ */
+export interface PendingWithdrawal {
+    code: string;
+    to: string;
+    amount: string; // Wei, or 'all' to recompute the maximum when confirmed
+    attempts: number; // Wrong codes so far
+}
+
+export type WithdrawalPlan =
+    | { ok: true; amount: bigint; fee: bigint }
+    | { ok: false; max: bigint; fee: bigint };
+
+/**
+ * Read `<amount|all> <0x address>`
+ * Amounts are in whole coins with up to 18 decimals. Addresses in mixed case
+ * must have a valid checksum.
+ * @returns null unless both parts are valid
+ */
+export function parseWithdrawArgs(args: string): WithdrawRequest | null {
+    const match = args.trim().match(/^(\S+)\s+(0x[a-fA-F0-9]{40})$/);
+    if (!match) return null;
+
+    let to: string;
+    try {
+        to = ethers.getAddress(match[2]);
+    } catch {
+        return null;
+    }
+
+    const amount = match[1].toLowerCase();
+    if (ALL_WORDS.has(amount)) return { amount: 'all', to };
+    if (!/^(?:\d+\.?\d*|\.\d+)$/.test(amount)) return null;
+    try {
+        const wei = ethers.parseEther(amount);
+        return wei > 0n ? { amount: wei, to } : null;
+    } catch {
+        return null; // More than 18 decimals
+    }
+}
+
+/**
+ * How much can be sent once the transfer fee is set aside
+ * @returns The amount and fee, or the most that could be sent instead
+ */
+export function planWithdrawal(balance: bigint, gasPrice: bigint, requested: bigint | 'all'): WithdrawalPlan {
+    const fee = gasPrice * TRANSFER_GAS_LIMIT;
+    const max = balance > fee ? balance - fee : 0n;
+    const amount = requested === 'all' ? max : requested;
+    return amount > 0n && amount <= max ? { ok: true, amount, fee } : { ok: false, max, fee };
+}
+
+/**
+ * Six random digits for the user to send back
+ */
+export function newConfirmationCode(): string {
+    return crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+}
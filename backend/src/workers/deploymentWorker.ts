@@ -1,166 +1,314 @@
 import { Worker, Job } from 'bullmq';
 import { redisConnection } from './queue.js';
 import { walletResolver } from '../services/WalletResolver.js';
-import { blockchainDeployer } from '../services/BlockchainDeployer.js';
-import { replyPublisher } from '../services/ReplyPublisher.js';
+import { botRegistry, type BotAccount } from '../services/BotRegistry.js';
 import { db } from '../db/client.js';
 import { walletService } from '../services/WalletService.js';
-import { ethers } from 'ethers';
-import type { DeploymentJob } from '../types/index.js';
+import { mediaValidator } from '../services/MediaValidator.js';
+import { CollisionPolicy, describeCollision } from '../services/CollisionPolicy.js';
+import { auditVerdict, describeVerdict, moderator } from '../services/Moderator.js';
+import { DEFAULT_LOCALE, translate, type Locale } from '../i18n/index.js';
+import type { DeploymentJob, DeploymentResult } from '../types/index.js';
 import type { Address } from 'viem';
 import { config } from '../config/index.js';
 
 const RATE_LIMIT_COOLDOWN_MS = 60 * 60 * 1000; // 1 hour
 
+const collisionPolicy = new CollisionPolicy(
+    { ticker: config.COLLISION_SAME_TICKER, parent: config.COLLISION_SAME_PARENT, name: config.COLLISION_SAME_NAME },
+    config.COLLISION_WINDOW_MINUTES * 60 * 1000,
+    db
+);
+
+/**
+ * What the pipeline needs to know about where a job came from
+ * Tweet and DM deploys run through the same steps; they differ only in the
+ * IDs they're recorded under and how the user is answered.
+ */
+interface JobOrigin {
+    label: string; // For logs, e.g. "tweet 123"
+    eventId: string; // deploy_tweet_id: the deploy tweet, or the DM
+    parentTweetId: string;
+    deployerId: string;
+    feeRecipient: { id: string; username?: string };
+    sourceAuthors: { id: string; username: string }[]; // Whose tweets the token is launched from
+    reply: {
+        rejected(reason: string): Promise<unknown>;
+        collision(reason: string): Promise<unknown>;
+        walletRequired(): Promise<unknown>;
+        failure(reason: string): Promise<unknown>;
+        success(result: DeploymentResult, notices: string[]): Promise<unknown>;
+    };
+}
+
+function jobOrigin(data: DeploymentJob, bot: BotAccount, locale: Locale): JobOrigin {
+    const { replyPublisher, deployer } = bot;
+
+    if (data.source === 'dm') {
+        const { id, sender_id: senderId } = data.dm;
+        const dm = (text: string) => replyPublisher.sendDirectMessage(senderId, text);
+        return {
+            label: `DM ${id}`,
+            eventId: id,
+            parentTweetId: id,
+            deployerId: senderId,
+            feeRecipient: { id: senderId },
+            sourceAuthors: [],
+            reply: {
+                rejected: (reason) => dm(translate(locale, 'deploy.rejected', { reason })),
+                collision: (reason) => dm(translate(locale, 'deploy.collision', { reason })),
+                walletRequired: () => dm(translate(locale, 'deploy.noWallet')),
+                failure: (reason) => dm(translate(locale, 'deploy.failed', { error: reason })),
+                success: (result, notices) => dm([
+                    translate(locale, 'deploy.success', {
+                        tokenAddress: result.tokenAddress,
+                        txHash: result.txHash,
+                        explorerUrl: deployer.chain.explorerUrl,
+                    }),
+                    ...notices,
+                ].join('\n\n')),
+            },
+        };
+    }
+
+    const { mention, parentTweet } = data;
+    const target = { replyToTweetId: mention.tweet_id, username: mention.author_username, locale };
+    return {
+        label: `tweet ${mention.tweet_id}`,
+        eventId: mention.tweet_id,
+        parentTweetId: parentTweet.tweet_id,
+        deployerId: mention.author_id,
+        feeRecipient: { id: parentTweet.author_id, username: parentTweet.author_username },
+        // Jobs queued before sources were recorded only know the recipient's tweet
+        sourceAuthors: (data.attribution?.sources ?? [parentTweet])
+            .map((tweet) => ({ id: tweet.author_id, username: tweet.author_username })),
+        reply: {
+            rejected: (reason) => replyPublisher.postFailure({ ...target, reason }),
+            collision: (reason) => replyPublisher.postCollision({ ...target, reason }),
+            walletRequired: () => replyPublisher.postWalletRequired(target),
+            failure: (reason) => replyPublisher.postFailure({ ...target, reason }),
+            success: (result, notices) => replyPublisher.postSuccess({
+                replyToTweetId: mention.tweet_id,
+                tokenTicker: data.command.ticker,
+                tokenName: data.command.name,
+                tokenAddress: result.tokenAddress!,
+                poolId: result.poolId!,
+                feeRecipientUsername: parentTweet.author_username,
+                notices,
+                locale,
+            }),
+        },
+    };
+}
+
 /**
  * Process a single deployment job
  * Decoupled from BullMQ for easier testing and mocking
  */
 export async function processDeploymentJob(data: DeploymentJob): Promise<any> {
-    const { mention, command, parentTweet } = data;
-
-    console.log(`\n🔧 Processing deployment job for tweet ${mention.tweet_id}`);
+    const { command, locale = DEFAULT_LOCALE } = data;
+    const source = data.source ?? 'tweet';
+    const attribution = data.source === 'dm' ? undefined : data.attribution;
+    // Jobs queued before multi-bot support carry no botId
+    const bot = botRegistry.get(data.botId || botRegistry.primary().id);
+    const { deployer } = bot;
+    const origin = jobOrigin(data, bot, locale);
+    const { eventId, reply } = origin;
+
+    console.log(`\n🔧 Processing deployment job for ${origin.label} (@${bot.username})`);
     console.log(`   Token: ${command.ticker} (${command.name})`);
-    console.log(`   Fee recipient: @${parentTweet.author_username}`);
+    console.log(`   Fee recipient: ${origin.feeRecipient.username ? `@${origin.feeRecipient.username}` : 'the deployer'}`);
+
+    const record = (feeRecipientWallet: string) => db.createDeployment({
+        botId: bot.id,
+        deployTweetId: eventId,
+        parentTweetId: origin.parentTweetId,
+        deployerTwitterId: origin.deployerId,
+        feeRecipientTwitterId: origin.feeRecipient.id,
+        feeRecipientWallet,
+        tokenName: command.name,
+        tokenSymbol: command.ticker,
+        attribution,
+        source,
+    });
+
+    const finish = async (result: DeploymentResult, notices: string[]) => {
+        if (!result.success) {
+            console.error(`❌ Deployment failed: ${result.error}`);
+
+            await db.updateDeploymentStatus(eventId, 'failed', {
+                txHash: result.txHash,
+                errorMessage: result.error,
+            });
+
+            await reply.failure(translate(locale, 'failure.onChain'));
+
+            return { status: 'failed', error: result.error };
+        }
+
+        await db.updateDeploymentStatus(eventId, 'deployed', {
+            tokenAddress: result.tokenAddress,
+            poolId: result.poolId,
+            txHash: result.txHash,
+        });
+
+        await reply.success(result, notices);
+
+        console.log(`✅ Deployment complete for ${command.ticker}`);
+
+        return {
+            status: 'deployed',
+            tokenAddress: result.tokenAddress,
+            poolId: result.poolId,
+            txHash: result.txHash,
+        };
+    };
 
     try {
         // 1. Check if deployment already exists (idempotency)
-        if (await db.deploymentExists(mention.tweet_id)) {
-            console.log(`⏭️ Deployment for tweet ${mention.tweet_id} already exists`);
+        const existing = await db.getDeploymentByTweetId(eventId);
+        if (existing?.status === 'processing' && existing.tx_hash) {
+            // A worker stopped mid-wait sent this transaction; finish it instead of deploying again
+            console.log(`🔁 Resuming ${origin.label}: waiting for tx ${existing.tx_hash}`);
+            return await finish(await deployer.waitForDeployment(existing.tx_hash), []);
+        }
+        if (existing) {
+            console.log(`⏭️ Deployment for ${origin.label} already exists`);
             return { status: 'skipped', reason: 'duplicate' };
         }
 
-        // 2. Resolve fee recipient wallet
-        const feeRecipientWallet = await walletResolver.resolve(parentTweet.author_id);
+        // 2. Moderate the name, ticker, fee recipient and the authors it's launched from
+        const { feeRecipient } = origin;
+        const accounts = new Map<string, { id: string; username: string }>();
+        for (const account of [{ id: feeRecipient.id, username: feeRecipient.username ?? feeRecipient.id }, ...origin.sourceAuthors]) {
+            if (account.id !== origin.deployerId && !accounts.has(account.id)) accounts.set(account.id, account);
+        }
+        const verdict = await moderator.check({
+            ticker: command.ticker,
+            name: command.name,
+            accounts: [...accounts.values()],
+        });
+        if (verdict) {
+            console.log(`🚫 Moderation rejected ${origin.label}: ${auditVerdict(verdict)}`);
+
+            await record('');
+            await db.updateDeploymentStatus(eventId, 'rejected', {
+                errorMessage: auditVerdict(verdict),
+                moderationRuleId: verdict.reason === 'rule' ? verdict.match.rule.id : undefined,
+            });
+
+            await reply.rejected(describeVerdict(verdict, locale));
+
+            return { status: 'rejected' };
+        }
+
+        // 3. Check for earlier deploys of the same ticker, parent tweet or name
+        const collisions = await collisionPolicy.check({
+            deployTweetId: eventId,
+            parentTweetId: origin.parentTweetId,
+            ticker: command.ticker,
+            name: command.name,
+        });
+        if (collisions.blocked) {
+            const { rule, existing } = collisions.blocked;
+            console.log(`🚫 Collision (${rule}) with deployment ${existing.deploy_tweet_id}, not deploying ${command.ticker}`);
+
+            await reply.collision(describeCollision(collisions.blocked, locale));
+
+            return { status: 'blocked', rule, existing: existing.deploy_tweet_id };
+        }
+        for (const { rule, existing } of collisions.warnings) {
+            console.log(`⚠️ Collision (${rule}) with deployment ${existing.deploy_tweet_id}, deploying anyway`);
+        }
+
+        // 4. Resolve fee recipient wallet
+        const feeRecipientWallet = await walletResolver.resolve(feeRecipient.id);
 
         if (!feeRecipientWallet) {
-            console.log(`❌ No wallet linked for @${parentTweet.author_username}`);
+            console.log(`❌ No wallet linked for fee recipient ${feeRecipient.username ? `@${feeRecipient.username}` : feeRecipient.id}`);
 
             // Create deployment record with wallet_missing status
-            await db.createDeployment({
-                deployTweetId: mention.tweet_id,
-                parentTweetId: parentTweet.tweet_id,
-                deployerTwitterId: mention.author_id,
-                feeRecipientTwitterId: parentTweet.author_id,
-                feeRecipientWallet: '',
-                tokenName: command.name,
-                tokenSymbol: command.ticker,
-            });
+            await record('');
+            await db.updateDeploymentStatus(eventId, 'wallet_missing');
 
-            await db.updateDeploymentStatus(mention.tweet_id, 'wallet_missing');
-
-            // Post reply requesting wallet linking
-            await replyPublisher.postWalletRequired({
-                replyToTweetId: mention.tweet_id,
-                username: mention.author_username,
-            });
+            // Ask for a wallet to be linked
+            await reply.walletRequired();
 
             return { status: 'wallet_missing' };
         }
 
-        // 3. Check rate limits
-        const canDeploy = await db.checkRateLimit(mention.author_id, RATE_LIMIT_COOLDOWN_MS);
+        // 5. Check rate limits
+        const canDeploy = await db.checkRateLimit(origin.deployerId, RATE_LIMIT_COOLDOWN_MS);
         if (!canDeploy) {
-            console.log(`⏳ Rate limited: @${mention.author_username}`);
+            console.log(`⏳ Rate limited: ${origin.deployerId}`);
 
-            await replyPublisher.postFailure({
-                replyToTweetId: mention.tweet_id,
-                username: mention.author_username,
-                reason: 'Rate limited. Please wait before deploying again.',
-            });
+            await reply.failure(translate(locale, 'failure.rateLimited'));
 
             return { status: 'rate_limited' };
         }
 
-        // 4. Create deployment record
-        const deployment = await db.createDeployment({
-            deployTweetId: mention.tweet_id,
-            parentTweetId: parentTweet.tweet_id,
-            deployerTwitterId: mention.author_id,
-            feeRecipientTwitterId: parentTweet.author_id,
-            feeRecipientWallet: feeRecipientWallet,
-            tokenName: command.name,
-            tokenSymbol: command.ticker,
-        });
+        // 6. Create deployment record
+        await record(feeRecipientWallet);
 
-        await db.updateDeploymentStatus(mention.tweet_id, 'processing');
-        await db.recordDeployAttempt(mention.author_id);
+        await db.updateDeploymentStatus(eventId, 'processing');
+        await db.recordDeployAttempt(origin.deployerId);
 
-        // 5. Get deployer's wallet to sign the transaction
-        const deployerUser = await db.getUserByTwitterId(mention.author_id);
+        // 7. Get deployer's wallet to sign the transaction
+        const deployerUser = await db.getUserByTwitterId(origin.deployerId);
         if (!deployerUser || !deployerUser.private_key_encrypted) {
             console.error(`❌ Deployer has no custodial wallet`);
-            await db.updateDeploymentStatus(mention.tweet_id, 'failed', {
+            await db.updateDeploymentStatus(eventId, 'failed', {
                 errorMessage: 'Deployer wallet not found. Please DM the bot with "start".'
             });
             return { status: 'failed', error: 'No deployer wallet' };
         }
 
-        const provider = new ethers.JsonRpcProvider(config.RPC_URL);
+        const provider = deployer.getProvider();
         const deployerWallet = walletService.getWallet(deployerUser.private_key_encrypted, provider);
 
-        // 6. Execute on-chain deployment
+        // 8. Pick the token image: explicit `image:` first, then the tweet's photos
+        let image = command.image;
+        const media = data.source === 'dm' ? undefined : data.media;
+        if (!image && media?.length) {
+            image = await mediaValidator.pickTokenImage(media) || undefined;
+            if (image) console.log(`🖼️ Using tweet media as token image: ${image}`);
+        }
+
+        // 9. Execute on-chain deployment
         console.log(`⛓️ Executing on-chain deployment...`);
 
-        const result = await blockchainDeployer.deploy({
+        const result = await deployer.deploy({
             name: command.name,
             symbol: command.ticker,
-            description: `${command.name} token deployed via X`,
-            image: 'https://via.placeholder.com/400',
+            description: command.description || `${command.name} token deployed via X`,
+            image,
+            twitter: command.twitter,
+            telegram: command.telegram,
+            website: command.website,
             feeRecipient: feeRecipientWallet as Address,
-        }, deployerWallet);
-
-        if (!result.success) {
-            console.error(`❌ Deployment failed: ${result.error}`);
-
-            await db.updateDeploymentStatus(mention.tweet_id, 'failed', {
-                txHash: result.txHash,
-                errorMessage: result.error,
-            });
-
-            await replyPublisher.postFailure({
-                replyToTweetId: mention.tweet_id,
-                username: mention.author_username,
-                reason: 'On-chain deployment failed. Please try again.',
-            });
-
-            return { status: 'failed', error: result.error };
-        }
-
-        // 6. Update deployment record with success
-        await db.updateDeploymentStatus(mention.tweet_id, 'deployed', {
-            tokenAddress: result.tokenAddress,
-            poolId: result.poolId,
-            txHash: result.txHash,
-        });
-
-        // 7. Post success reply
-        await replyPublisher.postSuccess({
-            replyToTweetId: mention.tweet_id,
-            tokenTicker: command.ticker,
-            tokenName: command.name,
-            tokenAddress: result.tokenAddress!,
-            poolId: result.poolId!,
-            feeRecipientUsername: parentTweet.author_username,
+        }, deployerWallet, async (txHash) => {
+            // Record the hash before waiting so a shutdown mid-wait can't orphan the tx
+            await db.updateDeploymentStatus(eventId, 'processing', { txHash });
         });
 
-        console.log(`✅ Deployment complete for ${command.ticker}`);
-
-        return {
-            status: 'deployed',
-            tokenAddress: result.tokenAddress,
-            poolId: result.poolId,
-            txHash: result.txHash,
-        };
+        // 10-11. Record the outcome and tell the user
+        return await finish(result, collisions.warnings.map((warning) =>
+            translate(locale, 'collision.warning', { reason: describeCollision(warning, locale) })));
 
     } catch (error) {
-        console.error(`❌ Error processing job for tweet ${mention.tweet_id}:`, error);
+        console.error(`❌ Error processing job for ${origin.label}:`, error);
 
         // Update database if we have a deployment record
         try {
-            await db.updateDeploymentStatus(mention.tweet_id, 'failed', {
-                errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            });
+            const deployment = await db.getDeploymentByTweetId(eventId);
+            if (deployment?.status === 'processing' && deployment.tx_hash) {
+                // The transaction is out and may still land; the job's retry resumes waiting for it
+                console.log(`🔁 Keeping ${origin.label} processing for a retry (tx ${deployment.tx_hash})`);
+            } else {
+                await db.updateDeploymentStatus(eventId, 'failed', {
+                    errorMessage: error instanceof Error ? error.message : 'Unknown error',
+                });
+            }
         } catch (dbError) {
             console.error('Failed to update deployment status:', dbError);
         }
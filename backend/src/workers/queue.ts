@@ -19,10 +19,12 @@ if (config.MOCK_QUEUE) {
             return { id: 'mock_job_id' };
         },
         getJobCounts: async () => ({ active: 0, completed: 0, failed: 0 }),
+        close: async () => { },
     };
 
     queueEvents = {
         on: (event: string, cb: Function) => { },
+        close: async () => { },
     };
 
 } else {
@@ -62,4 +64,13 @@ if (config.MOCK_QUEUE) {
     });
 }
 
-export { deploymentQueue, queueEvents, connection as redisConnection };
+/**
+ * Close the queue, its event listener and the Redis connection
+ */
+async function closeQueue(): Promise<void> {
+    await queueEvents.close();
+    await deploymentQueue.close();
+    await connection?.quit();
+}
+
+export { deploymentQueue, queueEvents, connection as redisConnection, closeQueue };
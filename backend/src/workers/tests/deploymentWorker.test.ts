@@ -0,0 +1,92 @@
+import { processDeploymentJob } from '../deploymentWorker.js';
+import { botRegistry } from '../../services/BotRegistry.js';
+import { db } from '../../db/client.js';
+import type { DmDeploymentJob } from '../../types/index.js';
+
+const TX_HASH = '0x' + 'ab'.repeat(32);
+const TOKEN = '0x' + '12'.repeat(20);
+const POOL = '0x' + '00'.repeat(31) + '07';
+
+describe('processDeploymentJob', () => {
+    const bot = botRegistry.primary();
+    let deploy: jest.SpyInstance;
+    let waitForDeployment: jest.SpyInstance;
+    let dms: jest.SpyInstance;
+
+    // A DM deploy whose earlier attempt left a row in the given state
+    const jobWithRow = async (dmId: string, status: 'processing' | 'deployed', txHash?: string): Promise<DmDeploymentJob> => {
+        await db.createDeployment({
+            botId: bot.id,
+            deployTweetId: dmId,
+            parentTweetId: dmId,
+            deployerTwitterId: '555000111',
+            feeRecipientTwitterId: '555000111',
+            feeRecipientWallet: '0x' + '34'.repeat(20),
+            tokenName: 'Resume Coin',
+            tokenSymbol: 'RSM',
+            source: 'dm',
+        });
+        await db.updateDeploymentStatus(dmId, status, { txHash });
+        return {
+            source: 'dm',
+            botId: bot.id,
+            dm: { id: dmId, sender_id: '555000111' },
+            command: { ticker: 'RSM', name: 'Resume Coin' },
+        };
+    };
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    beforeEach(() => {
+        deploy = jest.spyOn(bot.deployer, 'deploy');
+        waitForDeployment = jest.spyOn(bot.deployer, 'waitForDeployment')
+            .mockResolvedValue({ success: true, tokenAddress: TOKEN, poolId: POOL, txHash: TX_HASH });
+        dms = jest.spyOn(bot.replyPublisher, 'sendDirectMessage').mockResolvedValue();
+    });
+
+    afterEach(() => {
+        deploy.mockRestore();
+        waitForDeployment.mockRestore();
+        dms.mockRestore();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should resume waiting for a transaction sent before the worker stopped', async () => {
+        const job = await jobWithRow('9100', 'processing', TX_HASH);
+
+        await expect(processDeploymentJob(job)).resolves.toMatchObject({ status: 'deployed', tokenAddress: TOKEN });
+
+        expect(waitForDeployment).toHaveBeenCalledWith(TX_HASH);
+        expect(deploy).not.toHaveBeenCalled();
+        expect(await db.getDeploymentByTweetId('9100')).toMatchObject({ status: 'deployed', token_address: TOKEN, pool_id: POOL });
+        expect(dms.mock.calls[0][1]).toContain(TOKEN);
+    });
+
+    it('should keep the deployment processing when its receipt cannot be fetched', async () => {
+        const job = await jobWithRow('9101', 'processing', TX_HASH);
+        waitForDeployment.mockRejectedValueOnce(new Error('fetch failed'));
+
+        await expect(processDeploymentJob(job)).rejects.toThrow('fetch failed');
+        expect(await db.getDeploymentByTweetId('9101')).toMatchObject({ status: 'processing', tx_hash: TX_HASH });
+
+        // The job's retry picks the same transaction up again
+        await expect(processDeploymentJob(job)).resolves.toMatchObject({ status: 'deployed' });
+        expect(waitForDeployment).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip a deployment that already finished', async () => {
+        const job = await jobWithRow('9102', 'deployed', TX_HASH);
+
+        await expect(processDeploymentJob(job)).resolves.toEqual({ status: 'skipped', reason: 'duplicate' });
+
+        expect(waitForDeployment).not.toHaveBeenCalled();
+        expect(deploy).not.toHaveBeenCalled();
+        expect(dms).not.toHaveBeenCalled();
+    });
+});
@@ -1,5 +1,5 @@
 
-import { replyPublisher } from './src/services/ReplyPublisher';
+import { botRegistry } from './src/services/BotRegistry';
 import { config } from './src/config';
 
 async function testReplyPublisher() {
@@ -16,7 +16,7 @@ async function testReplyPublisher() {
     // For this test, we accept if it fails with "Tweet not found" or "422", as long as it TRIES.
     const mockTweetId = '1888327986060599525'; // Replace with a real tweet ID from the bot's mentions if available
 
-    const result = await replyPublisher.postSuccess({
+    const result = await botRegistry.primary().replyPublisher.postSuccess({
         replyToTweetId: mockTweetId,
         tokenTicker: 'TEST',
         tokenName: 'Test Token',
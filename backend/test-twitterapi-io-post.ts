@@ -1,9 +1,13 @@
-import { TwitterApiIoClient } from './src/services/TwitterApiIoClient.js';
+import { botRegistry } from './src/services/BotRegistry.js';
 
 async function testLogin() {
     console.log('🧪 Testing twitterapi.io login...');
 
-    const client = new TwitterApiIoClient();
+    const client = botRegistry.primary().twitterApiIoClient;
+    if (!client) {
+        console.error('❌ TWITTERAPI_IO_KEY is missing in .env');
+        return;
+    }
 
     const success = await client.login();
 